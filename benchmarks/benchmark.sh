@@ -21,6 +21,13 @@ AMI_ID="${AMI_ID:-ami-07b2b18045edffe90}" # Amazon Linux 2023 arm64
 LOADTESTING_INSTANCE_TYPE="${LOADTESTING_INSTANCE_TYPE:-c7gn.2xlarge}"
 ECR_REPO_NAME="${ECR_REPO_NAME:-caged-benchmark}"
 
+# Response cache mode for every deployment: off, lru or shared
+CACHE_MODE="${CACHE_MODE:-off}"
+
+# Data store for every deployment: json (a copy per worker), sqlite, ndjson or
+# shared (one SharedArrayBuffer copy for all workers)
+DB_BACKEND="${DB_BACKEND:-json}"
+
 # Image configuration: standard Node.js vs pointer-compressed (caged)
 STANDARD_BASE_IMAGE="${STANDARD_BASE_IMAGE:-node:25-bookworm-slim}"
 CAGED_BASE_IMAGE="${CAGED_BASE_IMAGE:-platformatic/node-caged:slim}"
@@ -858,8 +865,8 @@ wait_for_nodes() {
 apply_framework_manifests() {
 	log "Applying $FRAMEWORK manifests from $KUBE_MANIFEST..."
 
-	# Template the manifest with both ECR image URIs
-	sed "s|IMAGE_PLACEHOLDER_STANDARD|${ECR_IMAGE_URI_STANDARD}|g; s|IMAGE_PLACEHOLDER_CAGED|${ECR_IMAGE_URI_CAGED}|g" "$KUBE_MANIFEST" | \
+	# Template the manifest with both ECR image URIs, the cache mode and the data store
+	sed "s|IMAGE_PLACEHOLDER_STANDARD|${ECR_IMAGE_URI_STANDARD}|g; s|IMAGE_PLACEHOLDER_CAGED|${ECR_IMAGE_URI_CAGED}|g; s|CACHE_MODE_PLACEHOLDER|${CACHE_MODE}|g; s|DB_BACKEND_PLACEHOLDER|${DB_BACKEND}|g" "$KUBE_MANIFEST" | \
 		kubectl --context "$KUBE_CONTEXT" apply -f -
 
 	success "$FRAMEWORK manifests applied"
@@ -922,6 +929,8 @@ show_cluster_info() {
 	log "Region: $AWS_REGION"
 	log "Node Type: $NODE_TYPE"
 	log "Node Count: $NODE_COUNT"
+	log "Cache Mode: $CACHE_MODE"
+	log "DB Backend: $DB_BACKEND"
 
 	log ""
 	log "--- Kubernetes Version ---"
@@ -0,0 +1,711 @@
+/**
+ * Deterministic Dataset Generator
+ *
+ * Writes games, sets, cards, sellers, listings, price history and featured JSON files matching
+ * the types in src/lib/types.ts. The same seed and size knobs always produce
+ * byte-identical output, so benchmark runs are reproducible at any scale.
+ *
+ * Usage:
+ *   node scripts/generate-data.mts [options]
+ *
+ * Options:
+ *   --seed <n>               PRNG seed (default: 42)
+ *   --games <n>              Number of games (default: 5)
+ *   --sets-per-game <n>      Sets per game (default: 10)
+ *   --cards-per-set <n>      Cards per set (default: 200)
+ *   --sellers <n>            Number of sellers (default: 100)
+ *   --listings-per-card <n>  Average listings per card (default: 10)
+ *   --history-days <n>       Days of price history per card and condition (default: 14)
+ *   --out <dir>              Output directory (default: ./data)
+ *   --only <names>           Comma-separated collections to write (default: all)
+ *
+ * Records are streamed to disk one per line, so 10M-record datasets never hold
+ * the whole object graph in memory.
+ *
+ * Listings and price history are generated for the cards and sellers already
+ * in the output directory when --only leaves those collections out, so that
+ * e.g. `--only listings` fits the committed cards.json and sellers.json.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import type {
+  Game,
+  CardSet,
+  Card,
+  CardAttributes,
+  Seller,
+  Listing,
+  Condition,
+  Featured,
+  PricePoint,
+} from '../src/lib/types.ts';
+
+export interface GeneratorOptions {
+  seed: number;
+  games: number;
+  setsPerGame: number;
+  cardsPerSet: number;
+  sellers: number;
+  listingsPerCard: number;
+  historyDays: number;
+}
+
+export const DEFAULT_OPTIONS: GeneratorOptions = {
+  seed: 42,
+  games: 5,
+  setsPerGame: 10,
+  cardsPerSet: 200,
+  sellers: 100,
+  listingsPerCard: 10,
+  historyDays: 14,
+};
+
+export const COLLECTIONS = ['games', 'sets', 'cards', 'sellers', 'listings', 'priceHistory', 'featured'] as const;
+
+export type CollectionName = (typeof COLLECTIONS)[number];
+
+interface GameProfile {
+  id: string;
+  name: string;
+  description: string;
+  sets: string[];
+  cards: string[];
+  rarities: string[];
+  types: string[];
+  attributes: (rng: Rng, type: string) => CardAttributes;
+}
+
+const ARTISTS = [
+  'Souichirou Gunjima', 'Teeziro', 'Tomokazu Komiya', 'AKIRA EGAWA', 'Studio Bora',
+  'Naoki Saito', 'Ryo Ueda', 'Saya Tsuruta', 'Kouki Saitou', 'Shin Nagasawa',
+  'Akira Egawa', 'Ken Sugimori', 'Kagemaru Himeno', 'PLANETA Tsuji', 'Ayaka Yoshida',
+  'Mitsuhiro Arita', 'Hideaki Hakozaki', 'kawayoo', 'kodama', 'Atsuko Nishida',
+];
+
+const ENERGY_TYPES = [
+  'Colorless', 'Metal', 'Water', 'Psychic', 'Fire',
+  'Grass', 'Darkness', 'Fighting', 'Dragon', 'Lightning',
+];
+
+const GAME_PROFILES: GameProfile[] = [
+  {
+    id: 'pokemon',
+    name: 'Pokemon',
+    description: 'Pokemon Trading Card Game - Catch them all!',
+    sets: [
+      'Scarlet & Violet', 'Paldea Evolved', 'Obsidian Flames', 'Paradox Rift', 'Temporal Forces',
+      'Twilight Masquerade', 'Shrouded Fable', 'Stellar Crown', 'Surging Sparks', 'Prismatic Evolutions',
+    ],
+    cards: [
+      'Pikachu', 'Charizard', 'Blastoise', 'Venusaur', 'Mewtwo', 'Mew', 'Gengar', 'Alakazam',
+      'Gyarados', 'Dragonite', 'Snorlax', 'Eevee', 'Jolteon', 'Flareon', 'Vaporeon', 'Espeon',
+      'Umbreon', 'Leafeon', 'Glaceon', 'Sylveon', 'Lucario', 'Garchomp', 'Rayquaza', 'Giratina',
+      'Dialga', 'Palkia', 'Arceus', 'Darkrai', 'Zoroark', 'Hydreigon', 'Zekrom', 'Reshiram',
+      'Kyurem', 'Xerneas', 'Yveltal', 'Zygarde', 'Solgaleo', 'Lunala', 'Necrozma', 'Zeraora',
+      'Zacian', 'Zamazenta', 'Eternatus', 'Calyrex', 'Koraidon', 'Miraidon', 'Terapagos',
+      'Pecharunt', 'Bulbasaur', 'Charmander', 'Squirtle', 'Pidgey', 'Rattata', 'Spearow',
+      'Ekans', 'Sandshrew',
+    ],
+    rarities: [
+      'Common', 'Uncommon', 'Rare', 'Double Rare', 'Illustration Rare',
+      'Ultra Rare', 'Special Art Rare', 'Hyper Rare',
+    ],
+    types: ['Pokemon', 'Pokemon ex', 'Pokemon V', 'Pokemon VSTAR', 'Trainer', 'Energy'],
+    attributes: (rng, type) =>
+      type.startsWith('Pokemon')
+        ? { hp: rng.int(3, 34) * 10, types: [rng.pick(ENERGY_TYPES)], artist: rng.pick(ARTISTS) }
+        : { artist: rng.pick(ARTISTS) },
+  },
+  {
+    id: 'magic',
+    name: 'Magic: The Gathering',
+    description: 'The original trading card game',
+    sets: [
+      'Murders at Karlov Manor', 'Outlaws of Thunder Junction', 'Bloomburrow', 'Duskmourn',
+      'Foundations', 'Aetherdrift', 'Tarkir Dragonstorm', 'Final Fantasy', 'Modern Horizons 3',
+      "Assassin's Creed",
+    ],
+    cards: [
+      'Arcane Signet', 'Sol Ring', 'Lightning Bolt', 'Counterspell', 'Dark Ritual', 'Giant Growth',
+      'Llanowar Elves', 'Birds of Paradise', 'Shivan Dragon', 'Serra Angel', 'Lord of the Pit',
+      'Wrath of God', 'Armageddon', 'Mind Twist', 'Ancestral Recall', 'Time Walk', 'Black Lotus',
+      'Mox Pearl', 'Mox Sapphire', 'Mox Jet', 'Mox Ruby', 'Mox Emerald', 'Brainstorm', 'Ponder',
+      'Thoughtseize', 'Fatal Push', 'Path to Exile', 'Swords to Plowshares', 'Force of Will',
+      'Jace, the Mind Sculptor', 'Liliana of the Veil', 'Ragavan, Nimble Pilferer',
+      'Orcish Bowmasters',
+    ],
+    rarities: [
+      'Common', 'Uncommon', 'Rare', 'Mythic Rare', 'Showcase', 'Borderless', 'Extended Art', 'Special',
+    ],
+    types: ['Creature', 'Land', 'Sorcery', 'Enchantment', 'Instant', 'Artifact', 'Planeswalker'],
+    attributes: (rng, type) =>
+      type === 'Creature'
+        ? { attack: String(rng.int(0, 12)), defense: String(rng.int(1, 12)), artist: rng.pick(ARTISTS) }
+        : { artist: rng.pick(ARTISTS) },
+  },
+  {
+    id: 'yugioh',
+    name: 'Yu-Gi-Oh!',
+    description: "It's time to duel!",
+    sets: [
+      'Phantom Nightmare', 'Legacy of Destruction', 'The Infinite Forbidden', 'Rage of the Abyss',
+      'Supreme Darkness', 'Alliance Insight', 'Crossover Breakers', 'Deck Build Pack',
+      'Duelist Nexus', 'Cyberstorm Access',
+    ],
+    cards: [
+      'Blue-Eyes White Dragon', 'Dark Magician', 'Red-Eyes Black Dragon', 'Exodia the Forbidden One',
+      'Slifer the Sky Dragon', 'Obelisk the Tormentor', 'The Winged Dragon of Ra',
+      'Black Luster Soldier', 'Buster Blader', 'Summoned Skull', 'Jinzo', 'Cyber Dragon',
+      'Stardust Dragon', 'Black Rose Dragon', 'Number 39: Utopia', 'Firewall Dragon',
+      'Accesscode Talker', 'Ash Blossom & Joyous Spring', 'Nibiru, the Primal Being',
+      'Infinite Impermanence', 'Called by the Grave', 'Pot of Prosperity', 'Lightning Storm',
+      'Forbidden Droplet', 'Triple Tactics Talent', 'Change of Heart', 'Raigeki',
+    ],
+    rarities: [
+      'Common', 'Rare', 'Super Rare', 'Ultra Rare', 'Secret Rare',
+      'Ultimate Rare', 'Ghost Rare', 'Starlight Rare',
+    ],
+    types: ['Monster', 'Spell', 'Trap', 'Fusion', 'Synchro', 'Xyz', 'Link'],
+    attributes: (rng, type) =>
+      type === 'Spell' || type === 'Trap'
+        ? { artist: rng.pick(ARTISTS) }
+        : {
+            attack: String(rng.int(0, 50) * 100),
+            defense: String(rng.int(0, 50) * 100),
+            level: rng.int(1, 12),
+            artist: rng.pick(ARTISTS),
+          },
+  },
+  {
+    id: 'digimon',
+    name: 'Digimon',
+    description: 'Digital Monsters Card Game',
+    sets: [
+      'Beginning Observer', 'Exceed Apocalypse', 'Adventure Box 3', 'Versus Royal Knights',
+      'Xros Encounter', 'Double Diamond', 'New Awakening', 'Great Legend', 'Battle of Omni',
+      'Next Adventure',
+    ],
+    cards: [
+      'Brave mon', 'Mystic Sage', 'Shadow mon', 'Thunder Beast', 'Crystal Guardian', 'Fire Phoenix',
+      'Ice Dragon', 'Storm Caller', 'Death Reaper', 'Light Angel', 'Dark Emperor', 'Wind Rider',
+      'Earth Titan', 'Water Serpent', 'Void Walker', 'Chaos Mage', 'Order Paladin', 'Nature Spirit',
+      'Tech Cyborg', 'Demon Lord',
+    ],
+    rarities: ['Common', 'Uncommon', 'Rare', 'Super Rare', 'Secret Rare', 'Alternative Art'],
+    types: ['Digimon', 'Tamer', 'Option', 'Digi-Egg'],
+    attributes: (rng) => ({ artist: rng.pick(ARTISTS) }),
+  },
+  {
+    id: 'onepiece',
+    name: 'One Piece',
+    description: 'One Piece Card Game',
+    sets: [
+      'Romance Dawn', 'Paramount War', 'Pillars of Strength', 'Kingdoms of Intrigue',
+      'Awakening of the New Era', 'Wings of the Captain', 'Memorial Collection',
+      '500 Years in the Future', 'Two Legends', 'Royal Blood',
+    ],
+    cards: [
+      'Monkey D. Luffy', 'Roronoa Zoro', 'Nami', 'Usopp', 'Sanji', 'Tony Tony Chopper', 'Nico Robin',
+      'Franky', 'Brook', 'Jinbe', 'Shanks', 'Whitebeard', 'Kaido', 'Big Mom', 'Blackbeard',
+      'Trafalgar Law', 'Eustass Kid', 'Boa Hancock', 'Dracule Mihawk', 'Crocodile',
+    ],
+    rarities: ['Common', 'Uncommon', 'Rare', 'Super Rare', 'Leader', 'Special Art', 'Secret Rare'],
+    types: ['Character', 'Leader', 'Event', 'Stage'],
+    attributes: (rng) => ({ artist: rng.pick(ARTISTS) }),
+  },
+];
+
+const SELLER_PREFIXES = ['Pro', 'TCG', 'Trading', 'Super', 'Game', 'Master', 'Elite', 'Card', 'Collectible', 'Premium'];
+const SELLER_SUFFIXES = ['Haven', 'Store', 'Market', 'Empire', 'Shop', 'Hub', 'Kingdom', 'House', 'Zone', 'World'];
+const LOCATIONS = [
+  'Las Vegas, NV', 'Atlanta, GA', 'Seattle, WA', 'Minneapolis, MN', 'Chicago, IL',
+  'Phoenix, AZ', 'Orlando, FL', 'San Diego, CA', 'Detroit, MI', 'Miami, FL',
+  'Dallas, TX', 'Boston, MA', 'San Antonio, TX', 'New York, NY', 'Houston, TX',
+  'Philadelphia, PA', 'Austin, TX', 'Denver, CO', 'Los Angeles, CA', 'Portland, OR',
+];
+
+const CONDITIONS: Condition[] = ['Near Mint', 'Lightly Played', 'Moderately Played', 'Heavily Played', 'Damaged'];
+const CONDITION_WEIGHTS = [0.45, 0.25, 0.15, 0.1, 0.05];
+const CONDITION_MULTIPLIERS = [1, 0.85, 0.7, 0.5, 0.3];
+// Last day of the price history, fixed so that output stays reproducible
+const HISTORY_END = '2026-01-31';
+const LANGUAGES = ['English', 'English', 'English', 'Japanese', 'German', 'French', 'Italian', 'Spanish'];
+
+// Mulberry32 seeded by a per-collection stream, so regenerating one collection
+// with --only yields the same records as a full run.
+class Rng {
+  private state: number;
+
+  constructor(seed: number, stream: string) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < stream.length; i++) {
+      hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193);
+    }
+    this.state = (hash ^ seed) >>> 0;
+  }
+
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  weighted<T>(items: readonly T[], weights: readonly number[]): T {
+    let roll = this.next();
+    for (let i = 0; i < items.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+}
+
+// Buffers one-record-per-line JSON array output to keep memory flat
+class JsonArrayWriter {
+  private fd: number;
+  private buffer: string[] = [];
+  private bufferSize = 0;
+  private first = true;
+  count = 0;
+
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'w');
+    fs.writeSync(this.fd, '[\n');
+  }
+
+  write(record: unknown): void {
+    const line = (this.first ? '  ' : ',\n  ') + JSON.stringify(record);
+    this.first = false;
+    this.buffer.push(line);
+    this.bufferSize += line.length;
+    this.count++;
+    if (this.bufferSize >= 1 << 20) this.flush();
+  }
+
+  close(): void {
+    this.flush();
+    fs.writeSync(this.fd, '\n]\n');
+    fs.closeSync(this.fd);
+  }
+
+  private flush(): void {
+    if (this.buffer.length === 0) return;
+    fs.writeSync(this.fd, this.buffer.join(''));
+    this.buffer = [];
+    this.bufferSize = 0;
+  }
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Cycle through a name pool, suffixing repeats: "Pikachu", ..., "Pikachu 2"
+function cycleName(pool: readonly string[], index: number): string {
+  const round = Math.floor(index / pool.length);
+  const base = pool[index % pool.length];
+  return round === 0 ? base : `${base} ${round + 1}`;
+}
+
+function gameProfile(index: number): GameProfile {
+  const profile = GAME_PROFILES[index % GAME_PROFILES.length];
+  const round = Math.floor(index / GAME_PROFILES.length);
+  if (round === 0) return profile;
+  return { ...profile, id: `${profile.id}-${round + 1}`, name: `${profile.name} ${round + 1}` };
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function releaseDate(setIndex: number): string {
+  const year = 2020 + Math.floor(setIndex / 6);
+  const month = (setIndex % 6) * 2 + 1;
+  return `${year}-${pad(month, 2)}-01`;
+}
+
+function* generateGames(options: GeneratorOptions): Generator<Game> {
+  for (let g = 0; g < options.games; g++) {
+    const profile = gameProfile(g);
+    yield {
+      id: profile.id,
+      name: profile.name,
+      slug: profile.id,
+      description: profile.description,
+      imageUrl: `/images/games/${profile.id}.webp`,
+      cardCount: options.setsPerGame * options.cardsPerSet,
+    };
+  }
+}
+
+function* generateSetEntries(options: GeneratorOptions): Generator<[GameProfile, CardSet]> {
+  const setWidth = Math.max(2, String(options.setsPerGame).length);
+  for (let g = 0; g < options.games; g++) {
+    const profile = gameProfile(g);
+    const round = Math.floor(g / GAME_PROFILES.length);
+    for (let s = 0; s < options.setsPerGame; s++) {
+      const id = `${profile.id}-set-${pad(s + 1, setWidth)}`;
+      const name = cycleName(profile.sets, s);
+      yield [
+        profile,
+        {
+          id,
+          gameId: profile.id,
+          name,
+          slug: round === 0 ? slugify(name) : `${slugify(name)}-${round + 1}`,
+          releaseDate: releaseDate(s),
+          totalCards: options.cardsPerSet,
+          imageUrl: `/images/sets/${id}.webp`,
+        },
+      ];
+    }
+  }
+}
+
+function* generateSets(options: GeneratorOptions): Generator<CardSet> {
+  for (const [, set] of generateSetEntries(options)) {
+    yield set;
+  }
+}
+
+function* generateCardEntries(options: GeneratorOptions): Generator<[GameProfile, Card]> {
+  const rng = new Rng(options.seed, 'cards');
+  const cardWidth = Math.max(3, String(options.cardsPerSet).length);
+  for (const [profile, set] of generateSetEntries(options)) {
+    for (let c = 0; c < options.cardsPerSet; c++) {
+      const id = `${set.id}-${pad(c + 1, cardWidth)}`;
+      // Rarer tiers get progressively fewer cards
+      const tier = Math.min(
+        profile.rarities.length - 1,
+        Math.floor(-Math.log2(1 - rng.next()) * 1.5)
+      );
+      const type = rng.pick(profile.types);
+      yield [
+        profile,
+        {
+          id,
+          setId: set.id,
+          gameId: set.gameId,
+          name: cycleName(profile.cards, c),
+          number: `${pad(c + 1, cardWidth)}/${pad(options.cardsPerSet, cardWidth)}`,
+          rarity: profile.rarities[tier],
+          type,
+          imageUrl: `/images/cards/${id}.webp`,
+          attributes: profile.attributes(rng, type),
+        },
+      ];
+    }
+  }
+}
+
+function* generateCards(options: GeneratorOptions): Generator<Card> {
+  for (const [, card] of generateCardEntries(options)) {
+    yield card;
+  }
+}
+
+function* generateSellers(options: GeneratorOptions): Generator<Seller> {
+  const rng = new Rng(options.seed, 'sellers');
+  const combinations = SELLER_PREFIXES.length * SELLER_SUFFIXES.length;
+  const width = Math.max(3, String(options.sellers).length);
+  for (let i = 0; i < options.sellers; i++) {
+    const combo = i % combinations;
+    const base = `${SELLER_PREFIXES[combo % SELLER_PREFIXES.length]} ${
+      SELLER_SUFFIXES[Math.floor(combo / SELLER_PREFIXES.length)]
+    }`;
+    const round = Math.floor(i / combinations);
+    const name = round === 0 ? base : `${base} ${round + 1}`;
+    yield {
+      id: `seller-${pad(i + 1, width)}`,
+      name,
+      slug: slugify(name),
+      rating: rng.int(35, 50) / 10,
+      salesCount: rng.int(100, 500000),
+      location: rng.pick(LOCATIONS),
+    };
+  }
+}
+
+// The cards and sellers that listings are generated for
+interface Catalogue {
+  cards: () => Iterable<Card>;
+  sellerIds: string[];
+}
+
+function readExisting<T>(outDir: string, name: string): T[] | undefined {
+  const filePath = path.join(outDir, `${name}.json`);
+  if (!fs.existsSync(filePath)) return undefined;
+  console.log(`Using existing ${filePath}`);
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T[];
+}
+
+// The generator's own cards and sellers, or those in outDir for the ones
+// this run does not write
+function loadCatalogue(
+  outDir: string,
+  options: GeneratorOptions,
+  only: readonly CollectionName[]
+): Catalogue {
+  const cards = only.includes('cards') ? undefined : readExisting<Card>(outDir, 'cards');
+  const sellers = only.includes('sellers') ? undefined : readExisting<Seller>(outDir, 'sellers');
+  return {
+    cards: () => cards ?? generateCards(options),
+    sellerIds: (sellers ?? [...generateSellers(options)]).map((seller) => seller.id),
+  };
+}
+
+// Position of a card's rarity among its game's tiers, or 0 for one the
+// profile does not list
+function rarityTier(card: Card): number {
+  const profile = GAME_PROFILES.find(
+    (candidate) => card.gameId === candidate.id || card.gameId.startsWith(`${candidate.id}-`)
+  );
+  return Math.max(0, profile ? profile.rarities.indexOf(card.rarity) : 0);
+}
+
+function* generateListings(options: GeneratorOptions, catalogue: Catalogue): Generator<Listing> {
+  const rng = new Rng(options.seed, 'listings');
+  const { sellerIds } = catalogue;
+  const total = options.games * options.setsPerGame * options.cardsPerSet * options.listingsPerCard;
+  const width = Math.max(6, String(total * 2).length);
+  let n = 0;
+
+  for (const card of catalogue.cards()) {
+    const tier = rarityTier(card);
+    // Base market price grows roughly 2.5x per rarity tier
+    const basePrice = (0.25 + rng.next()) * Math.pow(2.5, tier);
+    const count = rng.int(0, options.listingsPerCard * 2);
+
+    for (let i = 0; i < count; i++) {
+      const conditionIndex = CONDITIONS.indexOf(rng.weighted(CONDITIONS, CONDITION_WEIGHTS));
+      const isFoil = rng.next() < 0.15;
+      const spread = 0.8 + rng.next() * 0.5;
+      const price = basePrice * CONDITION_MULTIPLIERS[conditionIndex] * spread * (isFoil ? 1.8 : 1);
+      n++;
+      yield {
+        id: `listing-${pad(n, width)}`,
+        cardId: card.id,
+        sellerId: sellerIds[rng.int(1, sellerIds.length) - 1],
+        condition: CONDITIONS[conditionIndex],
+        price: Math.max(0.1, Math.round(price * 100) / 100),
+        quantity: rng.int(1, 12),
+        language: rng.pick(LANGUAGES),
+        isFoil,
+      };
+    }
+  }
+}
+
+function historyDate(daysBeforeEnd: number): string {
+  const day = new Date(`${HISTORY_END}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - daysBeforeEnd);
+  return day.toISOString().slice(0, 10);
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function* cardListingGroups(options: GeneratorOptions, catalogue: Catalogue): Generator<Listing[]> {
+  let group: Listing[] = [];
+  for (const listing of generateListings(options, catalogue)) {
+    if (group.length > 0 && group[0].cardId !== listing.cardId) {
+      yield group;
+      group = [];
+    }
+    group.push(listing);
+  }
+  if (group.length > 0) yield group;
+}
+
+// Daily sales for every condition a card is listed in, drifting towards the
+// median price of the current listings so that history and listings agree.
+// A few cards get a strong recent rise in price and volume, which is what
+// the trending ranking should find.
+function* generatePriceHistory(options: GeneratorOptions, catalogue: Catalogue): Generator<PricePoint> {
+  const rng = new Rng(options.seed, 'priceHistory');
+  const days = options.historyDays;
+
+  for (const listings of cardListingGroups(options, catalogue)) {
+    const surging = rng.next() < 0.03;
+    const priceDrift = surging ? 0.01 + rng.next() * 0.03 : (rng.next() - 0.5) * 0.01;
+    const volumeDrift = surging ? 0.02 + rng.next() * 0.06 : (rng.next() - 0.5) * 0.02;
+
+    for (const condition of CONDITIONS) {
+      const prices = listings
+        .filter((listing) => listing.condition === condition)
+        .map((listing) => listing.price)
+        .sort((a, b) => a - b);
+      if (prices.length === 0) continue;
+
+      const current = median(prices);
+      for (let t = 0; t < days; t++) {
+        const daysBeforeEnd = days - 1 - t;
+        const price = current * Math.exp(-priceDrift * daysBeforeEnd + (rng.next() - 0.5) * 0.06);
+        const volume = prices.length * Math.exp(-volumeDrift * daysBeforeEnd) * (0.5 + rng.next());
+        yield {
+          cardId: listings[0].cardId,
+          condition,
+          date: historyDate(daysBeforeEnd),
+          min: Math.max(0.1, Math.round(price * (0.7 + rng.next() * 0.25) * 100) / 100),
+          median: Math.max(0.1, Math.round(price * 100) / 100),
+          max: Math.max(0.1, Math.round(price * (1.1 + rng.next() * 0.4) * 100) / 100),
+          volume: Math.max(1, Math.round(volume)),
+        };
+      }
+    }
+  }
+}
+
+function generateFeatured(options: GeneratorOptions): Featured {
+  const rng = new Rng(options.seed, 'featured');
+  const setWidth = Math.max(2, String(options.setsPerGame).length);
+  const cardWidth = Math.max(3, String(options.cardsPerSet).length);
+  const games = Array.from({ length: options.games }, (_, g) => gameProfile(g).id);
+
+  const trending = new Set<string>();
+  const target = Math.min(20, options.games * options.setsPerGame * options.cardsPerSet);
+  while (trending.size < target) {
+    const game = rng.pick(games);
+    const set = pad(rng.int(1, options.setsPerGame), setWidth);
+    const card = pad(rng.int(1, options.cardsPerSet), cardWidth);
+    trending.add(`${game}-set-${set}-${card}`);
+  }
+
+  return {
+    banners: [
+      { id: 'banner-1', imageUrl: '/images/banners/new-releases.webp', link: '/sets', title: 'New Releases' },
+      { id: 'banner-2', imageUrl: '/images/banners/trending.webp', link: '/search?sort=trending', title: 'Trending Now' },
+      { id: 'banner-3', imageUrl: '/images/banners/deals.webp', link: '/search?sort=price&order=asc', title: 'Best Deals' },
+    ],
+    trendingCards: [...trending],
+    newReleases: games.map((game) => `${game}-set-${pad(options.setsPerGame, setWidth)}`),
+    popularGames: games,
+  };
+}
+
+function writeCollection(outDir: string, name: string, records: Iterable<unknown>): number {
+  const writer = new JsonArrayWriter(path.join(outDir, `${name}.json`));
+  for (const record of records) {
+    writer.write(record);
+  }
+  writer.close();
+  return writer.count;
+}
+
+/**
+ * Generate the dataset into outDir. Returns the record count per collection.
+ */
+export function generateDataset(
+  outDir: string,
+  options: GeneratorOptions = DEFAULT_OPTIONS,
+  only: readonly CollectionName[] = COLLECTIONS
+): Partial<Record<CollectionName, number>> {
+  fs.mkdirSync(outDir, { recursive: true });
+  const counts: Partial<Record<CollectionName, number>> = {};
+  let catalogue: Catalogue | undefined;
+  const getCatalogue = () => (catalogue ??= loadCatalogue(outDir, options, only));
+
+  for (const name of only) {
+    switch (name) {
+      case 'games':
+        counts.games = writeCollection(outDir, name, generateGames(options));
+        break;
+      case 'sets':
+        counts.sets = writeCollection(outDir, name, generateSets(options));
+        break;
+      case 'cards':
+        counts.cards = writeCollection(outDir, name, generateCards(options));
+        break;
+      case 'sellers':
+        counts.sellers = writeCollection(outDir, name, generateSellers(options));
+        break;
+      case 'listings':
+        counts.listings = writeCollection(outDir, name, generateListings(options, getCatalogue()));
+        break;
+      case 'priceHistory':
+        counts.priceHistory = writeCollection(outDir, name, generatePriceHistory(options, getCatalogue()));
+        break;
+      case 'featured':
+        fs.writeFileSync(
+          path.join(outDir, 'featured.json'),
+          JSON.stringify(generateFeatured(options), null, 2) + '\n'
+        );
+        counts.featured = 1;
+        break;
+    }
+  }
+
+  return counts;
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string' },
+      games: { type: 'string' },
+      'sets-per-game': { type: 'string' },
+      'cards-per-set': { type: 'string' },
+      sellers: { type: 'string' },
+      'listings-per-card': { type: 'string' },
+      'history-days': { type: 'string' },
+      out: { type: 'string' },
+      only: { type: 'string' },
+    },
+  });
+
+  const int = (value: string | undefined, fallback: number, name: string): number => {
+    if (value === undefined) return fallback;
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < 0) {
+      throw new Error(`Invalid --${name}: ${value}`);
+    }
+    return parsed;
+  };
+
+  const options: GeneratorOptions = {
+    seed: int(values.seed, DEFAULT_OPTIONS.seed, 'seed'),
+    games: int(values.games, DEFAULT_OPTIONS.games, 'games'),
+    setsPerGame: int(values['sets-per-game'], DEFAULT_OPTIONS.setsPerGame, 'sets-per-game'),
+    cardsPerSet: int(values['cards-per-set'], DEFAULT_OPTIONS.cardsPerSet, 'cards-per-set'),
+    sellers: int(values.sellers, DEFAULT_OPTIONS.sellers, 'sellers'),
+    listingsPerCard: int(values['listings-per-card'], DEFAULT_OPTIONS.listingsPerCard, 'listings-per-card'),
+    historyDays: int(values['history-days'], DEFAULT_OPTIONS.historyDays, 'history-days'),
+  };
+
+  const only = values.only ? values.only.split(',').map((name) => name.trim()) : [...COLLECTIONS];
+  for (const name of only) {
+    if (!(COLLECTIONS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown collection: ${name}`);
+    }
+  }
+
+  const outDir = path.resolve(values.out || path.join(process.cwd(), 'data'));
+  const start = Date.now();
+  const counts = generateDataset(outDir, options, only as CollectionName[]);
+
+  console.log(`Generated dataset in ${outDir} (seed ${options.seed}, ${Date.now() - start}ms)`);
+  for (const [name, count] of Object.entries(counts)) {
+    console.log(`  ${name}: ${count.toLocaleString()}`);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getMemorySnapshot } from '@/lib/telemetry';
+import { withRouteMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+// Served at /api/_internal/memory (%5F escapes the underscore, which would
+// otherwise mark the folder as private to the App Router)
+export const GET = withRouteMetrics('/api/_internal/memory', async () => {
+  return NextResponse.json(getMemorySnapshot());
+});
@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { invalidParamsResponse, problemResponse } from '@/lib/problem';
+import { parseReloadParams } from '@/lib/query-params';
+
+export const dynamic = 'force-dynamic';
+
+// Compared as digests, so the comparison takes as long whatever the lengths
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Whether the request carries `Authorization: Bearer <DB_RELOAD_TOKEN>`
+function authorized(request: NextRequest, token: string): boolean {
+  const header = request.headers.get('authorization') || '';
+  const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  return timingSafeEqual(digest(given), digest(token));
+}
+
+// Re-reads ?collection=<name>, or every collection, from its data file and
+// reports how long each rebuild and swap took. Off unless DB_RELOAD_TOKEN is
+// set, and then only for requests bearing it, as a reload stalls the server.
+export const POST = withRouteMetrics('/api/_internal/reload', async (request: NextRequest) => {
+  const token = process.env.DB_RELOAD_TOKEN;
+  if (!token) {
+    return problemResponse('not-found', 'Reloading is off; set DB_RELOAD_TOKEN to enable it');
+  }
+  if (!authorized(request, token)) {
+    const response = problemResponse('unauthorized', 'Send the reload token as a Bearer token');
+    response.headers.set('WWW-Authenticate', 'Bearer');
+    return response;
+  }
+
+  const parsed = parseReloadParams(request.nextUrl.searchParams);
+  if (!parsed.ok) return invalidParamsResponse(parsed.problem, parsed.errors);
+
+  if (!db.reload) {
+    return problemResponse('not-supported', `The ${db.backend} backend does not reload data files`);
+  }
+  const start = performance.now();
+  const reloads = await db.reload(parsed.value.collection);
+  return NextResponse.json({
+    backend: db.backend,
+    durationMs: Math.round(performance.now() - start),
+    reloads,
+  });
+});
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { invalidParamsResponse, problemResponse } from '@/lib/problem';
+import { parsePriceHistoryParams } from '@/lib/query-params';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteMetrics('/api/cards/[id]/history', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const parsed = parsePriceHistoryParams(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return invalidParamsResponse(parsed.problem, parsed.errors);
+  }
+
+  const response = await cachedJson(request, '/api/cards/[id]/history', () =>
+    db.getPriceHistory(id, parsed.value)
+  );
+
+  if (!response) {
+    return problemResponse('not-found', 'Card not found');
+  }
+
+  return response;
+});
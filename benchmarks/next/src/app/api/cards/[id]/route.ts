@@ -1,18 +1,20 @@
-import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { problemResponse } from '@/lib/problem';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(
-  _request: Request,
+export const GET = withRouteMetrics('/api/cards/[id]', async (
+  request: Request,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
-  const card = await db.getCardWithListings(id);
+  const response = await cachedJson(request, '/api/cards/[id]', () => db.getCardWithListings(id));
 
-  if (!card) {
-    return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+  if (!response) {
+    return problemResponse('not-found', 'Card not found');
   }
 
-  return NextResponse.json(card);
-}
+  return response;
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import {
+  getCartId,
+  isFormRequest,
+  readCartItemInput,
+  resolveCartId,
+  setCartCookie,
+} from '@/lib/cart';
+import { invalidParamsResponse, problemResponse } from '@/lib/problem';
+
+export const dynamic = 'force-dynamic';
+
+function isValidQuantity(quantity: number | undefined, allowZero: boolean): quantity is number {
+  return (
+    quantity !== undefined &&
+    Number.isInteger(quantity) &&
+    quantity >= (allowZero ? 0 : 1)
+  );
+}
+
+export const GET = withRouteMetrics('/api/cart', async (request: NextRequest) => {
+  const cartId = getCartId(request);
+  const cart = await db.getCartWithDetails(cartId || '');
+  return NextResponse.json(cart);
+});
+
+export const POST = withRouteMetrics('/api/cart', async (request: NextRequest) => {
+  const input = await readCartItemInput(request);
+  if (!input || !input.listingId) {
+    return invalidParamsResponse('invalid-body', [{ name: 'listingId', reason: 'is required' }]);
+  }
+
+  const quantity = input.quantity ?? 1;
+  if (!isValidQuantity(quantity, false)) {
+    return invalidParamsResponse('invalid-body', [
+      { name: 'quantity', reason: 'must be a positive integer' },
+    ]);
+  }
+
+  const { cartId, isNew } = resolveCartId(request);
+  const cart = await db.addToCart(cartId, input.listingId, quantity);
+  if (!cart) {
+    return problemResponse('not-found', 'Listing not found');
+  }
+
+  // Plain HTML form posts go back to the cart page
+  const response = isFormRequest(request)
+    ? NextResponse.redirect(new URL('/cart', request.url), 303)
+    : NextResponse.json(cart, { status: 201 });
+  return isNew ? setCartCookie(response, cartId) : response;
+});
+
+export const PATCH = withRouteMetrics('/api/cart', async (request: NextRequest) => {
+  const cartId = getCartId(request);
+  if (!cartId) {
+    return problemResponse('not-found', 'Cart not found');
+  }
+
+  const input = await readCartItemInput(request);
+  if (!input || !input.listingId) {
+    return invalidParamsResponse('invalid-body', [{ name: 'listingId', reason: 'is required' }]);
+  }
+  if (!isValidQuantity(input.quantity, true)) {
+    return invalidParamsResponse('invalid-body', [
+      { name: 'quantity', reason: 'must be a non-negative integer' },
+    ]);
+  }
+
+  const cart = await db.updateCartItem(cartId, input.listingId, input.quantity);
+  if (!cart) {
+    return problemResponse('not-found', 'Item not in cart');
+  }
+
+  return NextResponse.json(cart);
+});
+
+export const DELETE = withRouteMetrics('/api/cart', async (request: NextRequest) => {
+  const cartId = getCartId(request);
+  if (!cartId) {
+    return problemResponse('not-found', 'Cart not found');
+  }
+
+  // Without a listingId the whole cart is cleared
+  const listingId = request.nextUrl.searchParams.get('listingId') || undefined;
+  const cart = await db.removeFromCart(cartId, listingId);
+  return NextResponse.json(cart);
+});
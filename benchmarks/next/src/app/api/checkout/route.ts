@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { getCartId, isFormRequest } from '@/lib/cart';
+import { problemResponse } from '@/lib/problem';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRouteMetrics('/api/checkout', async (request: NextRequest) => {
+  const cartId = getCartId(request);
+  const result = await db.checkout(cartId || '');
+
+  // Plain HTML form posts from the cart page are redirected back to it
+  if (isFormRequest(request)) {
+    const target = new URL('/cart', request.url);
+    if (result.ok) {
+      target.searchParams.set('order', result.order.id);
+    } else {
+      target.searchParams.set('error', result.reason);
+    }
+    return NextResponse.redirect(target, 303);
+  }
+
+  if (!result.ok && result.reason === 'empty_cart') {
+    return problemResponse('empty-cart');
+  }
+
+  if (!result.ok) {
+    return problemResponse('insufficient-stock', undefined, { conflicts: result.conflicts });
+  }
+
+  return NextResponse.json(result.order, { status: 201 });
+});
@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { ndjsonResponse } from '@/lib/ndjson-response';
+import { invalidParamsResponse } from '@/lib/problem';
+import { parseListingSearchParams, parseExportOptions } from '@/lib/query-params';
+
+export const dynamic = 'force-dynamic';
+
+// Every listing matching the listing filters, as NDJSON in catalogue order
+export const GET = withRouteMetrics('/api/export/listings', async (request: NextRequest) => {
+  const query = request.nextUrl.searchParams;
+  const parsed = parseListingSearchParams(query);
+  if (!parsed.ok) {
+    return invalidParamsResponse(parsed.problem, parsed.errors);
+  }
+  const options = parseExportOptions(query);
+  if (!options.ok) {
+    return invalidParamsResponse(options.problem, options.errors);
+  }
+
+  return ndjsonResponse(db.exportListings(parsed.value), options.value);
+});
@@ -1,20 +1,26 @@
-import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import type { FeaturedWithData } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  const [featured, trendingCards, newReleases, games] = await Promise.all([
-    db.getFeatured(),
-    db.getTrendingCards(12),
-    db.getNewReleaseSets(5),
-    db.getGames(),
-  ]);
+export const GET = withRouteMetrics('/api/featured', async (request: Request) => {
+  return cachedJson(request, '/api/featured', async (): Promise<FeaturedWithData> => {
+    const [featured, trendingCards, newReleases, games] = await Promise.all([
+      db.getFeatured(),
+      db.getTrendingCards(12),
+      db.getNewReleaseSets(5),
+      db.getGames(),
+    ]);
 
-  return NextResponse.json({
-    ...featured,
-    trendingCardsData: trendingCards,
-    newReleasesData: newReleases,
-    popularGamesData: games,
+    return {
+      ...featured,
+      // Ranked from the price history rather than the list in featured.json
+      trendingCards: trendingCards.map((card) => card.id),
+      trendingCardsData: trendingCards,
+      newReleasesData: newReleases,
+      popularGamesData: games,
+    };
   });
-}
+});
@@ -1,18 +1,20 @@
-import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { problemResponse } from '@/lib/problem';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(
-  _request: Request,
+export const GET = withRouteMetrics('/api/games/[slug]', async (
+  request: Request,
   { params }: { params: Promise<{ slug: string }> }
-) {
+) => {
   const { slug } = await params;
-  const game = await db.getGameWithSets(slug);
+  const response = await cachedJson(request, '/api/games/[slug]', () => db.getGameWithSets(slug));
 
-  if (!game) {
-    return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+  if (!response) {
+    return problemResponse('not-found', 'Game not found');
   }
 
-  return NextResponse.json(game);
-}
+  return response;
+});
@@ -1,9 +1,9 @@
-import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  const games = await db.getGames();
-  return NextResponse.json(games);
-}
+export const GET = withRouteMetrics('/api/games', async (request: Request) => {
+  return cachedJson(request, '/api/games', () => db.getGames());
+});
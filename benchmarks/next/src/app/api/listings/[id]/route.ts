@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { validateListingUpdate } from '@/lib/listings';
+import { invalidParamsResponse, problemResponse, withStorageProblem } from '@/lib/problem';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteMetrics('/api/listings/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const response = await cachedJson(request, '/api/listings/[id]', () =>
+    db.getListingWithDetails(id)
+  );
+
+  if (!response) {
+    return problemResponse('not-found', 'Listing not found');
+  }
+
+  return response;
+});
+
+export const PATCH = withRouteMetrics('/api/listings/[id]', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const result = validateListingUpdate(body);
+  if (!result.ok) {
+    return invalidParamsResponse('invalid-body', result.errors);
+  }
+
+  return withStorageProblem(async () => {
+    const listing = await db.updateListing(id, result.value);
+    if (!listing) {
+      return problemResponse('not-found', 'Listing not found');
+    }
+
+    return NextResponse.json(listing);
+  });
+});
+
+export const DELETE = withRouteMetrics('/api/listings/[id]', async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const deleted = await db.deleteListing(id);
+
+  if (!deleted) {
+    return problemResponse('not-found', 'Listing not found');
+  }
+
+  return new NextResponse(null, { status: 204 });
+});
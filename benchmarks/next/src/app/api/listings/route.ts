@@ -1,25 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import type { ListingSearchParams, Condition } from '@/lib/types';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { validateListingInput } from '@/lib/listings';
+import { invalidParamsResponse, problemResponse, withCursorProblem, withStorageProblem } from '@/lib/problem';
+import { parseListingSearchParams } from '@/lib/query-params';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
+export const GET = withRouteMetrics('/api/listings', async (request: NextRequest) => {
+  const parsed = parseListingSearchParams(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return invalidParamsResponse(parsed.problem, parsed.errors);
+  }
 
-  const params: ListingSearchParams = {
-    cardId: searchParams.get('cardId') || undefined,
-    sellerId: searchParams.get('sellerId') || undefined,
-    condition: (searchParams.get('condition') as Condition) || undefined,
-    page: parseInt(searchParams.get('page') || '1'),
-    limit: parseInt(searchParams.get('limit') || '20'),
-  };
+  return withCursorProblem(() =>
+    cachedJson(request, '/api/listings', () => db.getListings(parsed.value))
+  );
+});
 
-  const minPrice = searchParams.get('minPrice');
-  const maxPrice = searchParams.get('maxPrice');
-  if (minPrice) params.minPrice = parseFloat(minPrice);
-  if (maxPrice) params.maxPrice = parseFloat(maxPrice);
+export const POST = withRouteMetrics('/api/listings', async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+  const result = validateListingInput(body);
+  if (!result.ok) {
+    return invalidParamsResponse('invalid-body', result.errors);
+  }
 
-  const result = await db.getListings(params);
-  return NextResponse.json(result);
-}
+  const [card, seller] = await Promise.all([
+    db.getCardById(result.value.cardId),
+    db.findById<{ id: string }>('sellers', result.value.sellerId),
+  ]);
+  if (!card || !seller) {
+    return problemResponse('unknown-reference', card ? 'Seller not found' : 'Card not found');
+  }
+
+  return withStorageProblem(async () =>
+    NextResponse.json(await db.createListing(result.value), { status: 201 })
+  );
+});
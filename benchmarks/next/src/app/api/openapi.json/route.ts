@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withRouteMetrics } from '@/lib/metrics';
+import { OPENAPI_DOCUMENT } from '@/lib/openapi';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteMetrics('/api/openapi.json', async () => {
+  return NextResponse.json(OPENAPI_DOCUMENT);
+});
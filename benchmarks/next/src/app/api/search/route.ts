@@ -1,25 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
-import type { CardSearchParams } from '@/lib/types';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { invalidParamsResponse, withCursorProblem } from '@/lib/problem';
+import { parseCardSearchParams } from '@/lib/query-params';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const q = searchParams.get('q');
-
-  if (!q) {
-    return NextResponse.json({ error: 'Search query required' }, { status: 400 });
+export const GET = withRouteMetrics('/api/search', async (request: NextRequest) => {
+  const parsed = parseCardSearchParams(request.nextUrl.searchParams, { requireQuery: true });
+  if (!parsed.ok) {
+    return invalidParamsResponse(parsed.problem, parsed.errors);
   }
 
-  const params: CardSearchParams = {
-    q,
-    page: parseInt(searchParams.get('page') || '1'),
-    limit: parseInt(searchParams.get('limit') || '20'),
-    sort: (searchParams.get('sort') as CardSearchParams['sort']) || undefined,
-    order: (searchParams.get('order') as CardSearchParams['order']) || 'asc',
-  };
-
-  const result = await db.searchCards(params);
-  return NextResponse.json(result);
-}
+  return withCursorProblem(() =>
+    cachedJson(request, '/api/search', () => db.searchCards(parsed.value))
+  );
+});
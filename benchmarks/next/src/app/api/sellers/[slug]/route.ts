@@ -1,22 +1,32 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
+import { invalidParamsResponse, problemResponse, withCursorProblem } from '@/lib/problem';
+import { parsePagination } from '@/lib/query-params';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+export const GET = withRouteMetrics('/api/sellers/[slug]', async (
   request: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
-) {
+) => {
   const { slug } = await params;
-  const searchParams = request.nextUrl.searchParams;
-  const page = parseInt(searchParams.get('page') || '1');
-  const limit = parseInt(searchParams.get('limit') || '20');
+  const parsed = parsePagination(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return invalidParamsResponse(parsed.problem, parsed.errors);
+  }
+  const { page, limit, cursor } = parsed.value;
 
-  const seller = await db.getSellerWithListings(slug, page, limit);
+  const response = await withCursorProblem(() =>
+    cachedJson(request, '/api/sellers/[slug]', () =>
+      db.getSellerWithListings(slug, page, limit, cursor)
+    )
+  );
 
-  if (!seller) {
-    return NextResponse.json({ error: 'Seller not found' }, { status: 404 });
+  if (!response) {
+    return problemResponse('not-found', 'Seller not found');
   }
 
-  return NextResponse.json(seller);
-}
+  return response;
+});
@@ -1,9 +1,9 @@
-import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  const sellers = await db.getSellers();
-  return NextResponse.json(sellers);
-}
+export const GET = withRouteMetrics('/api/sellers', async (request: Request) => {
+  return cachedJson(request, '/api/sellers', () => db.getSellers());
+});
@@ -1,18 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
+import { withRouteMetrics } from '@/lib/metrics';
+import { cachedJson } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+export const GET = withRouteMetrics('/api/sets', async (request: NextRequest) => {
   const searchParams = request.nextUrl.searchParams;
   const gameSlug = searchParams.get('game');
 
-  let gameId: string | undefined;
-  if (gameSlug) {
-    const game = await db.getGameBySlug(gameSlug);
-    gameId = game?.id;
-  }
+  return cachedJson(request, '/api/sets', async () => {
+    let gameId: string | undefined;
+    if (gameSlug) {
+      const game = await db.getGameBySlug(gameSlug);
+      gameId = game?.id;
+    }
 
-  const sets = await db.getSets(gameId);
-  return NextResponse.json(sets);
-}
+    return db.getSets(gameId);
+  });
+});
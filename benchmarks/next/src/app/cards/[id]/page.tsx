@@ -1,26 +1,48 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
-import { db } from '@/lib/db';
+import { getLoader } from '@/lib/loader';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
+import type { CardSet, Game, Seller } from '@/lib/types';
+import { CHART_DAYS, PriceChart } from './price-chart';
 
 export const dynamic = 'force-dynamic';
 
-export default async function CardDetailPage({
+export default withPageMetrics('/cards/[id]', async function CardDetailPage({
   params,
 }: {
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
-  const card = await db.getCardWithListings(id);
+  const loader = getLoader();
+  const data = await cachedData('/cards/[id]', id, async () => {
+    const card = await loader.call('getCardWithListings', id);
+    if (!card) return undefined;
 
-  if (!card) {
+    const listings = card.listings.slice(0, 20);
+    const [[set, game, sellers], history] = await Promise.all([
+      loader.enabled
+        ? Promise.all([
+            loader.load<CardSet>('sets', card.setId),
+            loader.load<Game>('games', card.gameId),
+            loader.loadMany<Seller>('sellers', listings.map((l) => l.sellerId)),
+          ])
+        : // The page's calls from before the loader, for DB_LOADER=off
+          Promise.all([
+            loader.call('getSetBySlug', card.setId.replace(`${card.gameId}-`, '').replace(/-set-\d+$/, '')),
+            loader.call('getGameBySlug', card.gameId),
+            loader.call('getSellers'),
+          ]),
+      loader.call('getPriceHistory', id, { days: CHART_DAYS }),
+    ]);
+    return { card, listings, set, game, sellers, history };
+  });
+
+  if (!data) {
     notFound();
   }
 
-  const [set, game, sellers] = await Promise.all([
-    db.getSetBySlug(card.setId.replace(`${card.gameId}-`, '').replace(/-set-\d+$/, '')),
-    db.getGameBySlug(card.gameId),
-    db.getSellers(),
-  ]);
+  const { card, listings, set, game, sellers, history } = data;
 
   const sellerMap = new Map(sellers.map((s) => [s.id, s]));
 
@@ -86,6 +108,12 @@ export default async function CardDetailPage({
             )}
           </div>
 
+          {/* Price History */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-xl font-bold mb-4">Price History</h2>
+            <PriceChart points={history?.points || []} />
+          </div>
+
           {/* Listings Table */}
           <div className="bg-white rounded-lg shadow">
             <div className="p-4 border-b">
@@ -100,10 +128,11 @@ export default async function CardDetailPage({
                     <th className="px-4 py-3 text-left text-sm font-semibold">Language</th>
                     <th className="px-4 py-3 text-right text-sm font-semibold">Price</th>
                     <th className="px-4 py-3 text-right text-sm font-semibold">Qty</th>
+                    <th className="px-4 py-3"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y">
-                  {card.listings.slice(0, 20).map((listing) => {
+                  {listings.map((listing) => {
                     const seller = sellerMap.get(listing.sellerId);
                     return (
                       <tr key={listing.id} className="hover:bg-gray-50">
@@ -145,6 +174,17 @@ export default async function CardDetailPage({
                         <td className="px-4 py-3 text-right text-sm">
                           {listing.quantity}
                         </td>
+                        <td className="px-4 py-3 text-right">
+                          <form action="/api/cart" method="POST">
+                            <input type="hidden" name="listingId" value={listing.id} />
+                            <button
+                              type="submit"
+                              className="text-sm bg-blue-600 text-white rounded px-3 py-1 hover:bg-blue-700"
+                            >
+                              Add to Cart
+                            </button>
+                          </form>
+                        </td>
                       </tr>
                     );
                   })}
@@ -161,4 +201,4 @@ export default async function CardDetailPage({
       </div>
     </div>
   );
-}
+});
@@ -0,0 +1,112 @@
+import type { Condition, PricePoint } from '@/lib/types';
+
+// Days of history the card page asks for
+export const CHART_DAYS = 90;
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 };
+
+const COLORS: Record<Condition, string> = {
+  'Near Mint': '#16a34a',
+  'Lightly Played': '#ca8a04',
+  'Moderately Played': '#ea580c',
+  'Heavily Played': '#dc2626',
+  Damaged: '#6b7280',
+};
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(2)}`;
+}
+
+/**
+ * Daily median price per condition with a band from the lowest to the
+ * highest sale, drawn as an SVG on the server
+ */
+export function PriceChart({ points }: { points: PricePoint[] }) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No sales recorded for this card yet.</p>;
+  }
+
+  const dates = [...new Set(points.map((p) => p.date))].sort();
+  const dateIndex = new Map(dates.map((date, i) => [date, i]));
+  const low = Math.min(...points.map((p) => p.min));
+  const high = Math.max(...points.map((p) => p.max));
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (date: string) =>
+    PADDING.left + (dates.length > 1 ? (dateIndex.get(date)! / (dates.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (price: number) =>
+    PADDING.top + (high > low ? ((high - price) / (high - low)) * plotHeight : plotHeight / 2);
+
+  // Points arrive by condition, then date
+  const series = new Map<Condition, PricePoint[]>();
+  for (const point of points) {
+    const existing = series.get(point.condition);
+    if (existing) existing.push(point);
+    else series.set(point.condition, [point]);
+  }
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Price history by condition"
+      >
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + plotHeight}
+          x2={PADDING.left + plotWidth}
+          y2={PADDING.top + plotHeight}
+          stroke="#e5e7eb"
+        />
+        <text x={PADDING.left - 6} y={y(high) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatPrice(high)}
+        </text>
+        <text x={PADDING.left - 6} y={y(low) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatPrice(low)}
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#6b7280">
+          {dates[0]}
+        </text>
+        <text x={PADDING.left + plotWidth} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+          {dates[dates.length - 1]}
+        </text>
+
+        {[...series].map(([condition, conditionPoints]) => {
+          const upper = conditionPoints.map((p) => `${x(p.date)},${y(p.max)}`);
+          const lower = conditionPoints.map((p) => `${x(p.date)},${y(p.min)}`).reverse();
+          return (
+            <g key={condition}>
+              <polygon points={[...upper, ...lower].join(' ')} fill={COLORS[condition]} fillOpacity="0.1" />
+              <polyline
+                points={conditionPoints.map((p) => `${x(p.date)},${y(p.median)}`).join(' ')}
+                fill="none"
+                stroke={COLORS[condition]}
+                strokeWidth="2"
+              />
+            </g>
+          );
+        })}
+      </svg>
+
+      <ul className="flex flex-wrap gap-4 mt-2 text-sm">
+        {[...series].map(([condition, conditionPoints]) => {
+          const latest = conditionPoints[conditionPoints.length - 1];
+          return (
+            <li key={condition} className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: COLORS[condition] }} />
+              {condition}
+              <span className="text-gray-500">
+                {formatPrice(latest.median)} median, {latest.volume} sold on {latest.date}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,36 +1,155 @@
 import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { CART_COOKIE } from '@/lib/cart';
 
 export const dynamic = 'force-dynamic';
 
-export default function CartPage() {
-  // Cart is stateless for benchmark purposes - just shows empty state
-  // In a real app, this would use cookies/session to track cart items
+const CHECKOUT_ERRORS: Record<string, string> = {
+  empty_cart: 'Your cart is empty.',
+  insufficient_stock: 'Some items are no longer available in the requested quantity.',
+};
+
+export default withPageMetrics('/cart', async function CartPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ order?: string; error?: string }>;
+}) {
+  const { order: orderId, error } = await searchParams;
+  const cookieStore = await cookies();
+  const cartId = cookieStore.get(CART_COOKIE)?.value;
+  const [cart, order] = await Promise.all([
+    cartId ? db.getCartWithDetails(cartId) : undefined,
+    orderId ? db.getOrder(orderId) : undefined,
+  ]);
+
+  const notice = (
+    <>
+      {order && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 mb-6">
+          Order {order.id} placed: {order.itemCount} items, ${order.total.toFixed(2)}
+        </div>
+      )}
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 mb-6">
+          {CHECKOUT_ERRORS[error] || 'Checkout failed.'}
+        </div>
+      )}
+    </>
+  );
+
+  if (!cart || cart.items.length === 0) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold mb-8">Shopping Cart</h1>
+        {notice}
+
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <div className="text-gray-400 text-6xl mb-4">&#128722;</div>
+          <h2 className="text-xl font-semibold mb-2">Your cart is empty</h2>
+          <p className="text-gray-500 mb-6">
+            Start browsing and add some cards to your cart!
+          </p>
+          <Link
+            href="/search"
+            className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+          >
+            Browse Cards
+          </Link>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div>
       <h1 className="text-3xl font-bold mb-8">Shopping Cart</h1>
+      {notice}
 
-      <div className="bg-white rounded-lg shadow p-8 text-center">
-        <div className="text-gray-400 text-6xl mb-4">&#128722;</div>
-        <h2 className="text-xl font-semibold mb-2">Your cart is empty</h2>
-        <p className="text-gray-500 mb-6">
-          Start browsing and add some cards to your cart!
-        </p>
-        <Link
-          href="/search"
-          className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
-        >
-          Browse Cards
-        </Link>
-      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Cart Items */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Card</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Seller</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold">Condition</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Price</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Qty</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {cart.items.map((item) => (
+                <tr key={item.listingId} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/cards/${item.listing.cardId}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {item.listing.card.name}
+                    </Link>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {item.listing.card.number}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <Link
+                      href={`/sellers/${item.listing.seller.slug}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {item.listing.seller.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {item.listing.condition}
+                    {item.listing.isFoil && (
+                      <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-1 rounded">
+                        Foil
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">${item.listing.price.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-right text-sm">{item.quantity}</td>
+                  <td className="px-4 py-3 text-right font-semibold">
+                    ${(item.listing.price * item.quantity).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
 
-      <div className="mt-8 bg-gray-50 rounded-lg p-6">
-        <h3 className="font-semibold mb-4">Cart Information</h3>
-        <p className="text-sm text-gray-600">
-          This is a benchmark application. Cart functionality is simplified for performance testing.
-          In production, cart items would be persisted using session cookies or a database.
-        </p>
+        {/* Summary */}
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow p-6 sticky top-4">
+            <h2 className="text-xl font-bold mb-4">Order Summary</h2>
+            <div className="flex justify-between mb-2">
+              <span className="text-gray-600">Items</span>
+              <span>{cart.itemCount}</span>
+            </div>
+            <div className="flex justify-between border-t pt-4 mt-4">
+              <span className="font-semibold">Subtotal</span>
+              <span className="text-2xl font-bold text-green-600">
+                ${cart.subtotal.toFixed(2)}
+              </span>
+            </div>
+            <form action="/api/checkout" method="POST" className="mt-6">
+              <button
+                type="submit"
+                className="w-full bg-blue-600 text-white rounded py-2 hover:bg-blue-700"
+              >
+                Checkout
+              </button>
+            </form>
+            <p className="text-xs text-gray-500 mt-4">
+              Updated {new Date(cart.updatedAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
       </div>
     </div>
   );
-}
+});
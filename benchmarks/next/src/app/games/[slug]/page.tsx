@@ -1,16 +1,18 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export default async function GameDetailPage({
+export default withPageMetrics('/games/[slug]', async function GameDetailPage({
   params,
 }: {
   params: Promise<{ slug: string }>;
 }) {
   const { slug } = await params;
-  const game = await db.getGameWithSets(slug);
+  const game = await cachedData('/games/[slug]', slug, () => db.getGameWithSets(slug));
 
   if (!game) {
     notFound();
@@ -49,4 +51,4 @@ export default async function GameDetailPage({
       </div>
     </div>
   );
-}
+});
@@ -1,10 +1,12 @@
 import Link from 'next/link';
 import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export default async function GamesPage() {
-  const games = await db.getGames();
+export default withPageMetrics('/games', async function GamesPage() {
+  const games = await cachedData('/games', '', () => db.getGames());
 
   return (
     <div>
@@ -31,4 +33,4 @@ export default async function GamesPage() {
       </div>
     </div>
   );
-}
+});
@@ -1,14 +1,14 @@
 import Link from 'next/link';
 import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export default async function HomePage() {
-  const [games, trendingCards, newReleases] = await Promise.all([
-    db.getGames(),
-    db.getTrendingCards(8),
-    db.getNewReleaseSets(4),
-  ]);
+export default withPageMetrics('/', async function HomePage() {
+  const [games, trendingCards, newReleases] = await cachedData('/', '', () =>
+    Promise.all([db.getGames(), db.getTrendingCards(8), db.getNewReleaseSets(4)])
+  );
 
   return (
     <div className="space-y-12">
@@ -106,4 +106,4 @@ export default async function HomePage() {
       </section>
     </div>
   );
-}
+});
@@ -1,10 +1,36 @@
 import Link from 'next/link';
 import { db } from '@/lib/db';
-import type { CardSearchParams } from '@/lib/types';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
+import { parseAttributeFilters } from '@/lib/attribute-filters';
+import type { AttributeFilter, CardSearchParams } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
-export default async function SearchPage({
+// Values shown per facet, most frequent first
+const FACET_LIMIT = 8;
+
+const ENERGY_TYPES = [
+  'Colorless',
+  'Darkness',
+  'Dragon',
+  'Fighting',
+  'Fire',
+  'Grass',
+  'Lightning',
+  'Metal',
+  'Psychic',
+  'Water',
+];
+
+interface FacetOption {
+  label: string;
+  count: number;
+  params: Record<string, string | undefined>;
+  active: boolean;
+}
+
+export default withPageMetrics('/search', async function SearchPage({
   searchParams,
 }: {
   searchParams: Promise<{ [key: string]: string | undefined }>;
@@ -16,19 +42,37 @@ export default async function SearchPage({
     game: params.game || undefined,
     set: params.set || undefined,
     rarity: params.rarity || undefined,
+    type: params.type || undefined,
     page: parseInt(params.page || '1'),
     limit: 24,
-    sort: (params.sort as CardSearchParams['sort']) || undefined,
+    // Relevance only reorders results when there is a query
+    sort: (params.sort as CardSearchParams['sort']) || 'relevance',
     order: (params.order as CardSearchParams['order']) || 'asc',
+    facets: true,
   };
 
   if (params.minPrice) searchConfig.minPrice = parseFloat(params.minPrice);
   if (params.maxPrice) searchConfig.maxPrice = parseFloat(params.maxPrice);
 
-  const [results, games] = await Promise.all([
-    db.searchCards(searchConfig),
-    db.getGames(),
-  ]);
+  // attr.* parameters, repeated for each checked energy type
+  const rawParams = params as Record<string, string | string[] | undefined>;
+  const attributeParams = Object.entries(rawParams).flatMap(([key, value]) =>
+    [value ?? []].flat().map((item): [string, string] => [key, item])
+  );
+  let attributes: AttributeFilter[] = [];
+  try {
+    attributes = parseAttributeFilters(attributeParams);
+  } catch {
+    // A hand-edited URL with a malformed filter searches without attribute filters
+  }
+  if (attributes.length > 0) searchConfig.attributes = attributes;
+  const selectedTypes = new Set(
+    attributes.flatMap((f) => (f.attribute === 'types' && f.op === 'in' ? f.value : []))
+  );
+
+  const [results, games, sets] = await cachedData('/search', JSON.stringify(searchConfig), () =>
+    Promise.all([db.searchCards(searchConfig), db.getGames(), db.getSets()])
+  );
 
   const buildUrl = (newParams: Record<string, string | undefined>) => {
     const merged = { ...params, ...newParams, page: '1' };
@@ -39,6 +83,64 @@ export default async function SearchPage({
     return `/search?${urlParams.toString()}`;
   };
 
+  // Facet values link to the filter they stand for; an active one clears it
+  const gamesById = new Map(games.map((game) => [game.id, game]));
+  const setsById = new Map(sets.map((set) => [set.id, set]));
+  const option = (
+    label: string,
+    count: number,
+    param: string,
+    value: string
+  ): FacetOption => {
+    const active = params[param] === value;
+    return { label, count, params: { [param]: active ? undefined : value }, active };
+  };
+  const facets = results.facets;
+  const facetGroups: { title: string; options: FacetOption[] }[] = facets
+    ? [
+        {
+          title: 'Game',
+          options: facets.gameId.map(({ value, count }) => {
+            const game = gamesById.get(value);
+            return option(game?.name ?? value, count, 'game', game?.slug ?? value);
+          }),
+        },
+        {
+          title: 'Set',
+          options: facets.setId.map(({ value, count }) => {
+            const set = setsById.get(value);
+            return option(set?.name ?? value, count, 'set', set?.slug ?? value);
+          }),
+        },
+        {
+          title: 'Rarity',
+          options: facets.rarity.map(({ value, count }) => option(value, count, 'rarity', value)),
+        },
+        {
+          title: 'Type',
+          options: facets.type.map(({ value, count }) => option(value, count, 'type', value)),
+        },
+        {
+          title: 'Price',
+          options: facets.price
+            .filter(({ count }) => count > 0)
+            .map(({ min, max, count }) => {
+              const minPrice = String(min);
+              const maxPrice = max === undefined ? undefined : String(max);
+              const active = params.minPrice === minPrice && params.maxPrice === maxPrice;
+              return {
+                label: max === undefined ? `$${min}+` : `$${min} – $${max}`,
+                count,
+                params: active
+                  ? { minPrice: undefined, maxPrice: undefined }
+                  : { minPrice, maxPrice },
+                active,
+              };
+            }),
+        },
+      ]
+    : [];
+
   return (
     <div>
       <h1 className="text-3xl font-bold mb-8">Search Cards</h1>
@@ -75,6 +177,54 @@ export default async function SearchPage({
                 </select>
               </div>
 
+              <div className="mb-4">
+                <label className="block text-sm font-semibold mb-2">HP</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    name="attr.hp.gte"
+                    defaultValue={params['attr.hp.gte']}
+                    placeholder="Min"
+                    className="w-1/2 border rounded px-3 py-2"
+                  />
+                  <input
+                    type="number"
+                    name="attr.hp.lte"
+                    defaultValue={params['attr.hp.lte']}
+                    placeholder="Max"
+                    className="w-1/2 border rounded px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-semibold mb-2">Energy Type</label>
+                <div className="grid grid-cols-2 gap-1">
+                  {ENERGY_TYPES.map((energy) => (
+                    <label key={energy} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        name="attr.types.in"
+                        value={energy}
+                        defaultChecked={selectedTypes.has(energy)}
+                      />
+                      {energy}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-semibold mb-2">Artist</label>
+                <input
+                  type="text"
+                  name="attr.artist.prefix"
+                  defaultValue={params['attr.artist.prefix']}
+                  placeholder="Starts with..."
+                  className="w-full border rounded px-3 py-2"
+                />
+              </div>
+
               <div className="mb-4">
                 <label className="block text-sm font-semibold mb-2">Sort By</label>
                 <select
@@ -82,7 +232,7 @@ export default async function SearchPage({
                   defaultValue={params.sort}
                   className="w-full border rounded px-3 py-2"
                 >
-                  <option value="">Relevance</option>
+                  <option value="relevance">Relevance</option>
                   <option value="name">Name</option>
                   <option value="price">Price</option>
                 </select>
@@ -95,6 +245,32 @@ export default async function SearchPage({
                 Apply Filters
               </button>
             </form>
+
+            {facetGroups.map((group) =>
+              group.options.length === 0 ? null : (
+                <div key={group.title} className="mt-6">
+                  <h3 className="text-sm font-semibold mb-2">{group.title}</h3>
+                  <ul className="space-y-1">
+                    {group.options.slice(0, FACET_LIMIT).map((facet) => (
+                      <li key={facet.label}>
+                        <Link
+                          href={buildUrl(facet.params)}
+                          className={`flex justify-between text-sm hover:text-blue-600 ${
+                            facet.active ? 'font-semibold text-blue-700' : 'text-gray-700'
+                          }`}
+                        >
+                          <span className="truncate">
+                            {facet.active && '✕ '}
+                            {facet.label}
+                          </span>
+                          <span className="text-gray-400 ml-2">{facet.count.toLocaleString()}</span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
           </div>
         </div>
 
@@ -178,4 +354,4 @@ export default async function SearchPage({
       </div>
     </div>
   );
-}
+});
@@ -1,10 +1,13 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
-import { db } from '@/lib/db';
+import { getLoader } from '@/lib/loader';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
+import type { Card } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
-export default async function SellerDetailPage({
+export default withPageMetrics('/sellers/[slug]', async function SellerDetailPage({
   params,
   searchParams,
 }: {
@@ -16,16 +19,23 @@ export default async function SellerDetailPage({
   const page = parseInt(pageParam || '1');
   const limit = 20;
 
-  const seller = await db.getSellerWithListings(slug, page, limit);
+  const loader = getLoader();
+  const data = await cachedData('/sellers/[slug]', `${slug}:${page}`, async () => {
+    const seller = await loader.call('getSellerWithListings', slug, page, limit);
+    if (!seller) return undefined;
 
-  if (!seller) {
+    const cards = await loader.loadMany<Card>(
+      'cards',
+      seller.listings.map((l) => l.cardId)
+    );
+    return { seller, cards };
+  });
+
+  if (!data) {
     notFound();
   }
 
-  const cards = await db.findMany<{ id: string; name: string; number: string }>(
-    'cards',
-    seller.listings.map((l) => l.cardId)
-  );
+  const { seller, cards } = data;
   const cardMap = new Map(cards.map((c) => [c.id, c]));
 
   return (
@@ -139,4 +149,4 @@ export default async function SellerDetailPage({
       )}
     </div>
   );
-}
+});
@@ -1,10 +1,16 @@
 import Link from 'next/link';
 import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export default async function SellersPage() {
-  const sellers = await db.getSellers();
+export default withPageMetrics('/sellers', async function SellersPage() {
+  const [sellers, listingCounts] = await cachedData('/sellers', '', async () => {
+    const [all, counts] = await Promise.all([db.getSellers(), db.getSellerListingCounts()]);
+    // A plain object, so the counts survive the cache's JSON round trip
+    return [all, Object.fromEntries(counts)] as const;
+  });
 
   // Sort by rating descending
   const sortedSellers = [...sellers].sort((a, b) => b.rating - a.rating);
@@ -35,9 +41,12 @@ export default async function SellersPage() {
             <p className="text-sm text-gray-600">
               {seller.salesCount.toLocaleString()} sales completed
             </p>
+            <p className="text-sm text-gray-500">
+              {(listingCounts[seller.id] || 0).toLocaleString()} active listings
+            </p>
           </Link>
         ))}
       </div>
     </div>
   );
-}
+});
@@ -1,10 +1,12 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { db } from '@/lib/db';
+import { withPageMetrics } from '@/lib/metrics';
+import { cachedData } from '@/lib/response-cache';
 
 export const dynamic = 'force-dynamic';
 
-export default async function SetDetailPage({
+export default withPageMetrics('/sets/[slug]', async function SetDetailPage({
   params,
   searchParams,
 }: {
@@ -16,7 +18,9 @@ export default async function SetDetailPage({
   const page = parseInt(pageParam || '1');
   const limit = 24;
 
-  const set = await db.getSetWithCards(slug, page, limit);
+  const set = await cachedData('/sets/[slug]', `${slug}:${page}`, () =>
+    db.getSetWithCards(slug, page, limit)
+  );
 
   if (!set) {
     notFound();
@@ -79,4 +83,4 @@ export default async function SetDetailPage({
       )}
     </div>
   );
-}
+});
@@ -1,6 +1,13 @@
 import { db } from './lib/db'
+import { measureInitialize, startTelemetry } from './lib/telemetry'
+import { startResponseCache } from './lib/response-cache'
 
 export async function register() {
-  // Pre-initialize database to avoid file reads during request handling
-  await db.initialize()
+  // Start GC and RSS collection before the data load so startup is captured
+  startTelemetry()
+  startResponseCache()
+
+  // Pre-initialize database to avoid file reads during request handling,
+  // reporting the peak heap use of the load
+  await measureInitialize(db.backend, () => db.initialize())
 }
@@ -0,0 +1,109 @@
+/**
+ * Card Attribute Filters
+ *
+ * Parses `attr.<attribute>.<op>=<value>` query parameters into
+ * `AttributeFilter`s and matches cards against them in memory (the SQLite
+ * store translates them to SQL instead). Operators:
+ * - gt, gte, lt, lte: numeric ranges, e.g. `attr.hp.gte=200`
+ * - eq: a number, or text compared case-insensitively, e.g. `attr.artist.eq=Ken Sugimori`
+ * - prefix: text starting with the value, e.g. `attr.artist.prefix=mitsu`
+ * - in: text equal to any of a comma-separated list, e.g. `attr.types.in=Fire,Water`
+ *
+ * Parameters with an empty value are skipped, as forms submit empty inputs.
+ */
+
+import type { AttributeFilter, CardAttributes } from './types';
+
+export const PARAM_PATTERN = /^attr\.([A-Za-z_][A-Za-z0-9_]*)\.([a-z]+)$/;
+const NUMBER_PATTERN = /^-?[0-9]+(\.[0-9]+)?$/;
+
+/** A malformed `attr.*` parameter */
+export class AttributeFilterError extends Error {
+  constructor(
+    readonly param: string,
+    readonly reason: string
+  ) {
+    super(`Attribute filter ${param} ${reason}`);
+    this.name = 'AttributeFilterError';
+  }
+}
+
+/**
+ * Filters from `attr.*` parameters. Repeated `in` parameters for the same
+ * attribute merge into one list. Throws an AttributeFilterError on an unknown
+ * operator or a range bound that is not a number.
+ */
+export function parseAttributeFilters(params: Iterable<[string, string]>): AttributeFilter[] {
+  const filters: AttributeFilter[] = [];
+  const lists = new Map<string, string[]>();
+
+  for (const [key, raw] of params) {
+    const match = PARAM_PATTERN.exec(key);
+    const value = raw.trim();
+    if (!match || value === '') continue;
+
+    const [, attribute, op] = match;
+    if (op === 'gt' || op === 'gte' || op === 'lt' || op === 'lte') {
+      if (!NUMBER_PATTERN.test(value)) {
+        throw new AttributeFilterError(key, `needs a number, got "${value}"`);
+      }
+      filters.push({ attribute, op, value: Number(value) });
+    } else if (op === 'eq') {
+      filters.push({ attribute, op, value: NUMBER_PATTERN.test(value) ? Number(value) : value });
+    } else if (op === 'prefix') {
+      filters.push({ attribute, op, value });
+    } else if (op === 'in') {
+      let list = lists.get(attribute);
+      if (!list) {
+        list = [];
+        lists.set(attribute, list);
+        filters.push({ attribute, op, value: list });
+      }
+      list.push(...value.split(',').map((item) => item.trim()).filter(Boolean));
+    } else {
+      throw new AttributeFilterError(key, `has an unknown operator "${op}"`);
+    }
+  }
+  return filters;
+}
+
+function numberOf(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMBER_PATTERN.test(value)) return Number(value);
+  return undefined;
+}
+
+function satisfies(value: unknown, filter: AttributeFilter): boolean {
+  const number = numberOf(value);
+  const text = typeof value === 'string' ? value.toLowerCase() : undefined;
+  switch (filter.op) {
+    case 'gt':
+      return number !== undefined && number > filter.value;
+    case 'gte':
+      return number !== undefined && number >= filter.value;
+    case 'lt':
+      return number !== undefined && number < filter.value;
+    case 'lte':
+      return number !== undefined && number <= filter.value;
+    case 'eq':
+      return typeof filter.value === 'number'
+        ? number === filter.value
+        : text === filter.value.toLowerCase();
+    case 'prefix':
+      return text !== undefined && text.startsWith(filter.value.toLowerCase());
+    case 'in':
+      return text !== undefined && filter.value.some((item) => item.toLowerCase() === text);
+  }
+}
+
+/** Whether `attributes` pass every filter */
+export function matchesAttributes(
+  attributes: CardAttributes | undefined,
+  filters: AttributeFilter[]
+): boolean {
+  return filters.every((filter) => {
+    const value = attributes?.[filter.attribute];
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    return values.some((item) => satisfies(item, filter));
+  });
+}
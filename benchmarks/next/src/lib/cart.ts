@@ -0,0 +1,63 @@
+/**
+ * Cart Session Helpers
+ *
+ * Carts are identified by an httpOnly cookie and stored server-side in
+ * JsonDatabase, so session state accumulates in the heap for the whole process.
+ */
+
+import { randomUUID } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+export const CART_COOKIE = 'cart_id';
+
+export interface CartItemInput {
+  listingId?: string;
+  quantity?: number;
+}
+
+export function getCartId(request: NextRequest): string | undefined {
+  return request.cookies.get(CART_COOKIE)?.value;
+}
+
+export function resolveCartId(request: NextRequest): { cartId: string; isNew: boolean } {
+  const cartId = getCartId(request);
+  return cartId ? { cartId, isNew: false } : { cartId: randomUUID(), isNew: true };
+}
+
+export function setCartCookie(response: NextResponse, cartId: string): NextResponse {
+  response.cookies.set(CART_COOKIE, cartId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+  });
+  return response;
+}
+
+export function isFormRequest(request: NextRequest): boolean {
+  const contentType = request.headers.get('content-type') || '';
+  return (
+    contentType.startsWith('application/x-www-form-urlencoded') ||
+    contentType.startsWith('multipart/form-data')
+  );
+}
+
+// Accepts JSON bodies from API clients and form posts from the card page
+export async function readCartItemInput(request: NextRequest): Promise<CartItemInput | null> {
+  try {
+    if (isFormRequest(request)) {
+      const form = await request.formData();
+      const quantity = form.get('quantity');
+      return {
+        listingId: form.get('listingId')?.toString(),
+        quantity: quantity === null ? undefined : Number(quantity),
+      };
+    }
+    const body = await request.json();
+    return {
+      listingId: typeof body.listingId === 'string' ? body.listingId : undefined,
+      quantity: body.quantity === undefined ? undefined : Number(body.quantity),
+    };
+  } catch {
+    return null;
+  }
+}
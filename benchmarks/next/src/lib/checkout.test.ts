@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { BACKENDS, createDataset, openStore, removeDataset } from './test-dataset';
+import type { DataStore } from './store';
+import type { Listing } from './types';
+
+describe.each(BACKENDS)('checkout on the %s store', (backend) => {
+  let dataDir: string;
+  let store: DataStore;
+  let listings: Listing[];
+
+  beforeAll(async () => {
+    dataDir = createDataset();
+    store = await openStore(backend, dataDir);
+    ({ items: listings } = await store.getListings({ limit: 10 }));
+  });
+
+  afterAll(() => removeDataset(dataDir));
+
+  /** The listing at `index` of the first page, restocked to `quantity` */
+  async function stocked(index: number, quantity: number): Promise<Listing> {
+    const listing = await store.updateListing(listings[index].id, { quantity });
+    return listing!;
+  }
+
+  it('orders a cart and takes its items out of stock', async () => {
+    const listing = await stocked(0, 5);
+    await store.addToCart('cart-order', listing.id, 2);
+
+    const result = await store.checkout('cart-order');
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.order.itemCount).toBe(2);
+    expect(await store.getOrder(result.order.id)).toEqual(result.order);
+    expect((await store.getListingById(listing.id))?.quantity).toBe(3);
+    expect((await store.getCartWithDetails('cart-order')).items).toEqual([]);
+  });
+
+  it('does not oversell a listing to carts checking out together', async () => {
+    const listing = await stocked(1, 3);
+    const carts = ['a', 'b', 'c'].map((name) => `cart-oversell-${name}`);
+    for (const cartId of carts) await store.addToCart(cartId, listing.id, 2);
+
+    const results = await Promise.all(carts.map((cartId) => store.checkout(cartId)));
+    const ordered = results.filter((result) => result.ok);
+    expect(ordered).toHaveLength(1);
+    for (const result of results) {
+      if (!result.ok) {
+        expect(result).toEqual({
+          ok: false,
+          reason: 'insufficient_stock',
+          conflicts: [{ listingId: listing.id, requested: 2, available: 1 }],
+        });
+      }
+    }
+    expect((await store.getListingById(listing.id))?.quantity).toBe(1);
+  });
+
+  it('sells every unit, and no more, to many single-unit carts', async () => {
+    const listing = await stocked(2, 4);
+    const carts = Array.from({ length: 10 }, (_, i) => `cart-unit-${i}`);
+    for (const cartId of carts) await store.addToCart(cartId, listing.id, 1);
+
+    const results = await Promise.all(carts.map((cartId) => store.checkout(cartId)));
+    expect(results.filter((result) => result.ok)).toHaveLength(4);
+    expect((await store.getListingById(listing.id))?.quantity).toBe(0);
+  });
+
+  it('orders a cart checked out twice at once only once', async () => {
+    const listing = await stocked(3, 10);
+    await store.addToCart('cart-twice', listing.id, 1);
+
+    const results = await Promise.all([store.checkout('cart-twice'), store.checkout('cart-twice')]);
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results).toContainEqual({ ok: false, reason: 'empty_cart' });
+    expect((await store.getListingById(listing.id))?.quantity).toBe(9);
+  });
+
+  it('keeps the cart when checkout fails', async () => {
+    const listing = await stocked(4, 1);
+    await store.addToCart('cart-kept', listing.id, 2);
+
+    const result = await store.checkout('cart-kept');
+    expect(result.ok).toBe(false);
+    const cart = await store.getCartWithDetails('cart-kept');
+    expect(cart.items.map((item) => [item.listingId, item.quantity])).toEqual([[listing.id, 2]]);
+    expect((await store.getListingById(listing.id))?.quantity).toBe(1);
+  });
+
+  it('answers an empty cart without ordering', async () => {
+    expect(await store.checkout('cart-empty')).toEqual({ ok: false, reason: 'empty_cart' });
+  });
+});
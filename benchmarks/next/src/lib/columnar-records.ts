@@ -0,0 +1,178 @@
+/**
+ * Columnar Record Collections
+ *
+ * Keeps a collection's records in a ColumnarTable (see ./columnar.ts) and
+ * hands out record-shaped views of its rows, so JsonDatabase can store cards
+ * and listings column by column (DB_LAYOUT=columnar) without its callers
+ * noticing. Numbers sit in typed arrays, repeated strings (rarity, type,
+ * condition, language, foreign keys) are interned as dictionary codes, and
+ * the remaining strings and nested JSON are UTF-8 bytes. None of that is on
+ * the V8 heap: what remains there per record is one view.
+ *
+ * A view is a Proxy over its row that decodes fields as they are read. It
+ * supports property reads, `in`, Object.keys, spread and JSON.stringify like
+ * a plain object. Number, boolean and dict fields can be assigned, which
+ * covers every listing write; other fields are fixed once their row exists.
+ * JSON fields (Card.attributes) are parsed on each read, so mutating the
+ * returned object changes nothing.
+ *
+ * Rows are never removed, as in any ColumnarTable: dropping a view from the
+ * collection's array leaves its row in place. A table that runs out of rows,
+ * heap or dictionary entries is copied into one twice its size.
+ */
+
+import { ColumnarTable } from './columnar';
+import type { ColumnType, Schema, TableOptions } from './columnar';
+
+// Room for dictionary values first seen after the load
+const DICT_HEADROOM = 256;
+const DICT_VALUE_BYTES = 64;
+
+// The proxy target; fields are read from the table, never from here
+interface RowRef {
+  row: number;
+}
+
+function textOf(type: ColumnType, value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (type === 'json') return JSON.stringify(value);
+  return type === 'string' || type === 'dict' ? String(value) : undefined;
+}
+
+// Sizes a table for `records` plus a `spare` fraction of further rows and text
+function measure(schema: Schema, records: object[], spare: number): TableOptions {
+  let textBytes = 0;
+  let dictColumns = 0;
+  let dictCapacity = 0;
+  for (const [name, type] of Object.entries(schema)) {
+    const values = records.map((record) => textOf(type, (record as Record<string, unknown>)[name]));
+    if (type === 'dict') {
+      const distinct = new Set(values);
+      for (const value of distinct) textBytes += value ? Buffer.byteLength(value) : 0;
+      dictCapacity = Math.max(dictCapacity, distinct.size);
+      dictColumns++;
+    } else {
+      for (const value of values) textBytes += value ? Buffer.byteLength(value) : 0;
+    }
+  }
+
+  return {
+    capacity: Math.max(1, Math.ceil(records.length * (1 + spare))),
+    heapBytes: Math.ceil(textBytes * (1 + spare)) + DICT_HEADROOM * DICT_VALUE_BYTES * dictColumns,
+    dictCapacity: dictCapacity + DICT_HEADROOM,
+    shared: false,
+  };
+}
+
+export class ColumnarCollection<T extends object> {
+  /** Views of the rows the collection was built from, in order */
+  readonly views: T[];
+  private table: ColumnarTable;
+  private columns: Map<string, ColumnType>;
+  private keys: string[];
+  private handler: ProxyHandler<RowRef>;
+
+  constructor(schema: Record<keyof T, ColumnType>, records: T[], { spare = 0 } = {}) {
+    this.columns = new Map(Object.entries(schema));
+    this.keys = [...this.columns.keys()];
+    this.table = ColumnarTable.create(schema, measure(schema, records, spare));
+    this.handler = this.createHandler();
+    this.views = records.map((record) => this.append(record));
+  }
+
+  /** Bytes held by the table, all of them outside the V8 heap */
+  get byteLength(): number {
+    return this.table.byteLength;
+  }
+
+  get rowCount(): number {
+    return this.table.length;
+  }
+
+  /** Stores a record in a new row and returns the row's view */
+  append(record: T): T {
+    const values = record as Record<string, unknown>;
+    let row: number;
+    try {
+      row = this.table.append(values);
+    } catch {
+      // The table is full; a failed append publishes no row
+      this.grow();
+      row = this.table.append(values);
+    }
+    return new Proxy<RowRef>({ row }, this.handler) as unknown as T;
+  }
+
+  private read(row: number, column: string): unknown {
+    switch (this.columns.get(column)) {
+      case 'f64':
+      case 'i32':
+        return this.table.getNumber(column, row);
+      case 'bool':
+        return this.table.getBool(column, row);
+      case 'json':
+        return this.table.getJson(column, row);
+      default:
+        return this.table.getString(column, row);
+    }
+  }
+
+  private write(row: number, column: string, value: unknown): boolean {
+    switch (this.columns.get(column)) {
+      case 'f64':
+      case 'i32':
+        this.table.setNumber(column, row, value as number);
+        return true;
+      case 'bool':
+        this.table.setBool(column, row, value as boolean);
+        return true;
+      case 'dict':
+        try {
+          this.table.setDict(column, row, String(value));
+        } catch {
+          // The dictionary is full
+          this.grow();
+          this.table.setDict(column, row, String(value));
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // Copies every row into a table twice the size; views keep their row numbers
+  private grow(): void {
+    const old = this.table;
+    const { options } = old.layout;
+    const table = ColumnarTable.create(old.schema, {
+      ...options,
+      capacity: options.capacity * 2,
+      heapBytes: options.heapBytes * 2,
+      dictCapacity: options.dictCapacity * 2,
+    });
+    for (let row = 0; row < old.length; row++) {
+      const values: Record<string, unknown> = {};
+      for (const column of this.keys) values[column] = this.read(row, column);
+      table.append(values);
+    }
+    this.table = table;
+  }
+
+  // Shared by every view; reporting columns as configurable own properties
+  // keeps the Proxy invariants with an extensible target
+  private createHandler(): ProxyHandler<RowRef> {
+    return {
+      get: (ref, key) =>
+        typeof key === 'string' && this.columns.has(key) ? this.read(ref.row, key) : undefined,
+      set: (ref, key, value) => typeof key === 'string' && this.write(ref.row, key, value),
+      has: (_ref, key) => typeof key === 'string' && this.columns.has(key),
+      ownKeys: () => this.keys,
+      getOwnPropertyDescriptor: (ref, key) =>
+        typeof key === 'string' && this.columns.has(key)
+          ? { value: this.read(ref.row, key), writable: true, enumerable: true, configurable: true }
+          : undefined,
+      defineProperty: () => false,
+      deleteProperty: () => false,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChainIndex, ColumnarTable, TableFullError } from './columnar';
+import { withStorageProblem } from './problem';
+import { createDataset, openStore, removeDataset } from './test-dataset';
+import type { Schema, TableOptions } from './columnar';
+import type { DataStore } from './store';
+import type { Listing } from './types';
+
+const SCHEMA: Schema = { id: 'string', price: 'f64', language: 'dict', foil: 'bool' };
+const OPTIONS: TableOptions = { capacity: 3, heapBytes: 64, dictCapacity: 2, shared: false };
+
+function row(table: ColumnarTable, index: number) {
+  return {
+    id: table.getString('id', index),
+    price: table.getNumber('price', index),
+    language: table.dictValue('language', table.getCode('language', index)),
+    foil: table.getBool('foil', index),
+  };
+}
+
+describe('ColumnarTable capacity', () => {
+  it('throws TableFullError once its rows are used up', () => {
+    const table = ColumnarTable.create(SCHEMA, OPTIONS);
+    for (let i = 0; i < OPTIONS.capacity; i++) table.append({ id: `l${i}` });
+    expect(() => table.append({ id: 'l3' })).toThrow(TableFullError);
+    expect(table.length).toBe(OPTIONS.capacity);
+  });
+
+  it('throws TableFullError once its heap is used up', () => {
+    const table = ColumnarTable.create(SCHEMA, OPTIONS);
+    table.append({ id: 'x'.repeat(60) });
+    expect(() => table.append({ id: 'x'.repeat(10) })).toThrow(TableFullError);
+  });
+
+  it('throws TableFullError for a dictionary value past dictCapacity', () => {
+    const table = ColumnarTable.create(SCHEMA, OPTIONS);
+    table.append({ id: 'a', language: 'English' });
+    table.append({ id: 'b', language: 'Japanese' });
+    expect(() => table.append({ id: 'c', language: 'German' })).toThrow(TableFullError);
+    expect(table.dictSize('language')).toBe(OPTIONS.dictCapacity);
+  });
+
+  it('keeps rows and dictionary codes when resized', () => {
+    const table = ColumnarTable.create(SCHEMA, OPTIONS);
+    const rows = [
+      { id: 'a', price: 1.5, language: 'English', foil: true },
+      { id: 'b', price: 2, language: 'Japanese', foil: false },
+      { id: 'c', price: 3.25, language: 'English', foil: false },
+    ];
+    for (const values of rows) table.append(values);
+
+    const grown = table.resize({ ...OPTIONS, capacity: 6, heapBytes: 128 });
+    expect(grown.capacity).toBe(6);
+    expect(grown.length).toBe(3);
+    expect([0, 1, 2].map((index) => row(grown, index))).toEqual(rows);
+    expect(grown.codeOf('language', 'Japanese')).toBe(table.codeOf('language', 'Japanese'));
+
+    expect(grown.append({ id: 'd', price: 4, language: 'Japanese', foil: true })).toBe(3);
+    expect(row(grown, 3)).toEqual({ id: 'd', price: 4, language: 'Japanese', foil: true });
+    expect(table.length).toBe(3);
+  });
+
+  it('refuses to resize smaller', () => {
+    const table = ColumnarTable.create(SCHEMA, OPTIONS);
+    expect(() => table.resize({ ...OPTIONS, capacity: 2 })).toThrow();
+  });
+});
+
+describe('ChainIndex.resize', () => {
+  it('keeps the chains and links rows past the old size', () => {
+    const index = ChainIndex.create(2, 2, false);
+    index.append(0, 0);
+    index.append(1, 1);
+    const grown = index.resize(4, false);
+    grown.append(0, 2);
+    grown.append(1, 3);
+    expect([...grown.rows(0)]).toEqual([0, 2]);
+    expect([...grown.rows(1)]).toEqual([1, 3]);
+    expect([...index.rows(0)]).toEqual([0]);
+    expect(() => index.resize(1, false)).toThrow();
+  });
+});
+
+describe('withStorageProblem', () => {
+  it('answers a full table with a 507 problem', async () => {
+    const response = await withStorageProblem(async () => {
+      throw new TableFullError('Columnar table is full (3 rows)');
+    });
+    expect(response.status).toBe(507);
+    expect(response.headers.get('content-type')).toContain('application/problem+json');
+    expect(await response.json()).toMatchObject({ status: 507, detail: 'Columnar table is full (3 rows)' });
+  });
+
+  it('rethrows other errors', async () => {
+    await expect(withStorageProblem(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+  });
+});
+
+describe('SharedStore listing growth', () => {
+  const HEADROOM = 4;
+  let dataDir: string;
+  // Two stores on the same tables, as two workers would be
+  let writer: DataStore;
+  let reader: DataStore;
+  let template: Omit<Listing, 'id'>;
+
+  beforeAll(async () => {
+    vi.stubEnv('DB_SHARED_HEADROOM', String(HEADROOM));
+    dataDir = createDataset();
+    [writer, reader] = await Promise.all([openStore('shared', dataDir), openStore('shared', dataDir)]);
+    const { id: _id, ...listing } = (await writer.getListings({ limit: 1 })).items[0];
+    template = listing;
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    removeDataset(dataDir);
+  });
+
+  it('grows the listings table instead of failing once the headroom is used', async () => {
+    const before = await writer.getListings({ limit: 1 });
+    const created: Listing[] = [];
+    for (let i = 0; i < HEADROOM * 3; i++) {
+      created.push(await writer.createListing({ ...template, price: 100 + i }));
+    }
+
+    expect((await writer.getListings({ limit: 1 })).total).toBe(before.total + created.length);
+    for (const listing of created) {
+      expect(await writer.getListingById(listing.id)).toEqual(listing);
+    }
+  });
+
+  it('switches other stores to the grown table before they write', async () => {
+    const created = await reader.createListing({ ...template, price: 999 });
+    expect(await writer.getListingById(created.id)).toEqual(created);
+    expect(await reader.getListingById(created.id)).toEqual(created);
+    const all = await writer.getListings({ limit: 1 });
+    expect((await reader.getListings({ limit: 1 })).total).toBe(all.total);
+  });
+});
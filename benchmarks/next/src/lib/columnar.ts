@@ -0,0 +1,515 @@
+/**
+ * Columnar Tables
+ *
+ * Fixed-capacity tables that keep each column in a typed array carved out of
+ * one buffer: numbers in Float64Array/Int32Array, booleans in a Uint8Array,
+ * repetitive strings as codes into a per-column dictionary, and other strings
+ * (or JSON) as UTF-8 in a byte heap. With a SharedArrayBuffer the whole table
+ * can be handed to other worker threads with `layout` and `attach()`.
+ *
+ * Tables only grow: rows are appended up to `capacity` and never removed, so
+ * readers on other threads never see a row move. A full table throws
+ * TableFullError, and `resize()` copies it into a larger one with the same
+ * rows and dictionary codes. Appends and in-place updates must be serialised
+ * by the caller (see SharedMutex in ./locks.ts).
+ *
+ * `HashIndex` maps a string column to rows and `ChainIndex` links the rows of
+ * each group (e.g. the listings of one card) in insertion order; both live in
+ * buffers of their own with the same append-only rules.
+ */
+
+export type ColumnType = 'f64' | 'i32' | 'bool' | 'dict' | 'string' | 'json';
+
+export type Schema = Record<string, ColumnType>;
+
+export interface TableOptions {
+  capacity: number;
+  /** Bytes for string, JSON and dictionary contents */
+  heapBytes: number;
+  /** Distinct values per dict column */
+  dictCapacity: number;
+  shared: boolean;
+}
+
+export interface TableLayout {
+  schema: Schema;
+  options: TableOptions;
+  buffer: ArrayBuffer | SharedArrayBuffer;
+}
+
+type Views = {
+  header: Int32Array;
+  heap: Buffer;
+  numbers: Map<string, Float64Array | Int32Array | Uint8Array>;
+  // [offset, length] pairs into the heap, per row for string and JSON columns
+  // and per dictionary entry for dict columns
+  spans: Map<string, Uint32Array>;
+  codes: Map<string, Int32Array>;
+};
+
+// Header slots: row count, heap bytes used, then one entry count per dict column
+const ROW_COUNT = 0;
+const HEAP_USED = 1;
+const HEADER_SLOTS = 2;
+
+/** Thrown when a table runs out of rows, heap bytes or dictionary entries */
+export class TableFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableFullError';
+  }
+}
+
+function align8(n: number): number {
+  return Math.ceil(n / 8) * 8;
+}
+
+function allocate(bytes: number, shared: boolean): ArrayBuffer | SharedArrayBuffer {
+  return shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+}
+
+export class ColumnarTable {
+  readonly schema: Schema;
+  readonly capacity: number;
+  private options: TableOptions;
+  private buffer: ArrayBuffer | SharedArrayBuffer;
+  private views: Views;
+  private dictSlots = new Map<string, number>();
+  // Per-thread copies of the dictionaries, synced from the buffer on demand
+  private dictValues = new Map<string, string[]>();
+  private dictCodes = new Map<string, Map<string, number>>();
+
+  private constructor(layout: TableLayout) {
+    this.schema = layout.schema;
+    this.options = layout.options;
+    this.capacity = layout.options.capacity;
+    this.buffer = layout.buffer;
+
+    let dictSlot = HEADER_SLOTS;
+    for (const [name, type] of Object.entries(this.schema)) {
+      if (type !== 'dict') continue;
+      this.dictSlots.set(name, dictSlot++);
+      this.dictValues.set(name, []);
+      this.dictCodes.set(name, new Map());
+    }
+    this.views = this.map(dictSlot);
+  }
+
+  static create(schema: Schema, options: TableOptions): ColumnarTable {
+    const dictColumns = Object.values(schema).filter((type) => type === 'dict').length;
+    const bytes = ColumnarTable.measure(schema, options, HEADER_SLOTS + dictColumns);
+    return new ColumnarTable({ schema, options, buffer: allocate(bytes, options.shared) });
+  }
+
+  /** Open a table created elsewhere, e.g. by another worker thread */
+  static attach(layout: TableLayout): ColumnarTable {
+    return new ColumnarTable(layout);
+  }
+
+  get layout(): TableLayout {
+    return { schema: this.schema, options: this.options, buffer: this.buffer };
+  }
+
+  get byteLength(): number {
+    return this.buffer.byteLength;
+  }
+
+  get length(): number {
+    return Atomics.load(this.views.header, ROW_COUNT);
+  }
+
+  get heapUsed(): number {
+    return Atomics.load(this.views.header, HEAP_USED);
+  }
+
+  /**
+   * A copy of the table in a new buffer sized by `options`, none of which may
+   * be smaller than this table's. Rows, spans and dictionary codes carry over
+   * unchanged, so row numbers and codes held elsewhere stay valid.
+   */
+  resize(options: TableOptions): ColumnarTable {
+    const { capacity, heapBytes, dictCapacity } = this.options;
+    if (options.capacity < capacity || options.heapBytes < heapBytes || options.dictCapacity < dictCapacity) {
+      throw new Error('A resized table cannot be smaller than the original');
+    }
+    const table = ColumnarTable.create(this.schema, options);
+    const rows = this.length;
+    const heapUsed = this.heapUsed;
+
+    for (const [name, values] of this.views.numbers) {
+      table.views.numbers.get(name)!.set(values.subarray(0, rows));
+    }
+    for (const [name, codes] of this.views.codes) {
+      table.views.codes.get(name)!.set(codes.subarray(0, rows));
+    }
+    for (const [name, spans] of this.views.spans) {
+      const entries = this.schema[name] === 'dict' ? this.dictSize(name) : rows;
+      table.views.spans.get(name)!.set(spans.subarray(0, entries * 2));
+    }
+    this.views.heap.copy(table.views.heap, 0, 0, heapUsed);
+    for (const [name, slot] of this.dictSlots) {
+      Atomics.store(table.views.header, slot, this.dictSize(name));
+    }
+    Atomics.store(table.views.header, HEAP_USED, heapUsed);
+    Atomics.store(table.views.header, ROW_COUNT, rows);
+    return table;
+  }
+
+  /** Appends a row and returns its index. Missing values read back as 0, false or '' */
+  append(values: Record<string, unknown>): number {
+    const row = this.length;
+    if (row >= this.capacity) {
+      throw new TableFullError(`Columnar table is full (${this.capacity} rows)`);
+    }
+    for (const [name, type] of Object.entries(this.schema)) {
+      const value = values[name];
+      if (value === undefined) {
+        if (type === 'dict') this.views.codes.get(name)![row] = -1;
+        continue;
+      }
+      if (type === 'f64' || type === 'i32') {
+        this.setNumber(name, row, value as number);
+      } else if (type === 'bool') {
+        this.setBool(name, row, value as boolean);
+      } else if (type === 'dict') {
+        this.setDict(name, row, value as string);
+      } else {
+        const text = type === 'json' ? JSON.stringify(value) : (value as string);
+        this.writeSpan(this.views.spans.get(name)!, row, text);
+      }
+    }
+    // Publish the row only once all of its columns are written
+    Atomics.store(this.views.header, ROW_COUNT, row + 1);
+    return row;
+  }
+
+  getNumber(column: string, row: number): number {
+    return this.views.numbers.get(column)![row];
+  }
+
+  setNumber(column: string, row: number, value: number): void {
+    this.views.numbers.get(column)![row] = value;
+  }
+
+  getBool(column: string, row: number): boolean {
+    return this.views.numbers.get(column)![row] === 1;
+  }
+
+  setBool(column: string, row: number, value: boolean): void {
+    this.views.numbers.get(column)![row] = value ? 1 : 0;
+  }
+
+  /** Value of a string, JSON (unparsed) or dict column */
+  getString(column: string, row: number): string {
+    if (this.schema[column] === 'dict') {
+      return this.dictValue(column, this.views.codes.get(column)![row]);
+    }
+    return this.readSpan(this.views.spans.get(column)!, row);
+  }
+
+  getJson<T>(column: string, row: number): T | undefined {
+    const text = this.readSpan(this.views.spans.get(column)!, row);
+    return text ? (JSON.parse(text) as T) : undefined;
+  }
+
+  getCode(column: string, row: number): number {
+    return this.views.codes.get(column)![row];
+  }
+
+  setDict(column: string, row: number, value: string): void {
+    let code = this.codeOf(column, value);
+    if (code === -1) code = this.addDictValue(column, value);
+    this.views.codes.get(column)![row] = code;
+  }
+
+  /** Dictionary code of `value` in a dict column, or -1 if no row has it */
+  codeOf(column: string, value: string): number {
+    this.syncDict(column);
+    return this.dictCodes.get(column)!.get(value) ?? -1;
+  }
+
+  dictValue(column: string, code: number): string {
+    if (code < 0) return '';
+    const values = this.dictValues.get(column)!;
+    if (code >= values.length) this.syncDict(column);
+    return values[code];
+  }
+
+  dictSize(column: string): number {
+    return Atomics.load(this.views.header, this.dictSlots.get(column)!);
+  }
+
+  /** Whether the string in `column` at `row` equals `value`, without decoding it */
+  stringEquals(column: string, row: number, value: Buffer): boolean {
+    const spans = this.views.spans.get(column)!;
+    const offset = spans[row * 2];
+    const length = spans[row * 2 + 1];
+    return length === value.length && this.views.heap.compare(value, 0, length, offset, offset + length) === 0;
+  }
+
+  private static measure(schema: Schema, options: TableOptions, headerSlots: number): number {
+    let bytes = align8(headerSlots * 4);
+    for (const type of Object.values(schema)) {
+      bytes += align8(ColumnarTable.columnBytes(type, options));
+    }
+    return bytes + options.heapBytes;
+  }
+
+  private static columnBytes(type: ColumnType, { capacity, dictCapacity }: TableOptions): number {
+    switch (type) {
+      case 'f64':
+        return capacity * 8;
+      case 'i32':
+        return capacity * 4;
+      case 'bool':
+        return capacity;
+      case 'dict':
+        return capacity * 4 + dictCapacity * 8;
+      case 'string':
+      case 'json':
+        return capacity * 8;
+    }
+  }
+
+  private map(headerSlots: number): Views {
+    const { capacity, dictCapacity } = this.options;
+    const buffer = this.buffer;
+    const views: Views = {
+      header: new Int32Array(buffer, 0, headerSlots),
+      heap: Buffer.alloc(0),
+      numbers: new Map(),
+      spans: new Map(),
+      codes: new Map(),
+    };
+
+    let offset = align8(headerSlots * 4);
+    for (const [name, type] of Object.entries(this.schema)) {
+      switch (type) {
+        case 'f64':
+          views.numbers.set(name, new Float64Array(buffer, offset, capacity));
+          break;
+        case 'i32':
+          views.numbers.set(name, new Int32Array(buffer, offset, capacity));
+          break;
+        case 'bool':
+          views.numbers.set(name, new Uint8Array(buffer, offset, capacity));
+          break;
+        case 'dict':
+          views.codes.set(name, new Int32Array(buffer, offset, capacity));
+          views.spans.set(name, new Uint32Array(buffer, offset + capacity * 4, dictCapacity * 2));
+          break;
+        case 'string':
+        case 'json':
+          views.spans.set(name, new Uint32Array(buffer, offset, capacity * 2));
+          break;
+      }
+      offset += align8(ColumnarTable.columnBytes(type, this.options));
+    }
+    views.heap = Buffer.from(buffer, offset, this.options.heapBytes);
+    return views;
+  }
+
+  private writeSpan(spans: Uint32Array, slot: number, text: string): void {
+    const used = this.heapUsed;
+    const length = Buffer.byteLength(text);
+    if (used + length > this.options.heapBytes) {
+      throw new TableFullError(`Columnar table heap is full (${this.options.heapBytes} bytes)`);
+    }
+    this.views.heap.write(text, used, 'utf8');
+    spans[slot * 2] = used;
+    spans[slot * 2 + 1] = length;
+    Atomics.store(this.views.header, HEAP_USED, used + length);
+  }
+
+  private readSpan(spans: Uint32Array, slot: number): string {
+    const offset = spans[slot * 2];
+    return this.views.heap.toString('utf8', offset, offset + spans[slot * 2 + 1]);
+  }
+
+  private addDictValue(column: string, value: string): number {
+    const slot = this.dictSlots.get(column)!;
+    const code = Atomics.load(this.views.header, slot);
+    if (code >= this.options.dictCapacity) {
+      throw new TableFullError(`Dictionary for column "${column}" is full (${this.options.dictCapacity} values)`);
+    }
+    this.writeSpan(this.views.spans.get(column)!, code, value);
+    Atomics.store(this.views.header, slot, code + 1);
+    this.syncDict(column);
+    return code;
+  }
+
+  // Pick up dictionary entries added since the last sync, possibly by another thread
+  private syncDict(column: string): void {
+    const values = this.dictValues.get(column)!;
+    const size = this.dictSize(column);
+    if (values.length === size) return;
+
+    const codes = this.dictCodes.get(column)!;
+    const spans = this.views.spans.get(column)!;
+    for (let code = values.length; code < size; code++) {
+      const value = this.readSpan(spans, code);
+      values.push(value);
+      codes.set(value, code);
+    }
+  }
+}
+
+export interface IndexLayout {
+  buffer: ArrayBuffer | SharedArrayBuffer;
+}
+
+const EMPTY = 0;
+const REMOVED = -1;
+
+function hashBytes(bytes: Buffer): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Open-addressed hash index from the values of a unique string column to rows.
+ * Slots hold row + 1, so zero marks an empty slot.
+ */
+export class HashIndex {
+  private slots: Int32Array;
+  private mask: number;
+
+  private constructor(
+    private table: ColumnarTable,
+    private column: string,
+    private buffer: ArrayBuffer | SharedArrayBuffer
+  ) {
+    this.slots = new Int32Array(buffer);
+    this.mask = this.slots.length - 1;
+  }
+
+  /** Sized to stay at most half full when the table is */
+  static create(table: ColumnarTable, column: string, shared: boolean): HashIndex {
+    const slots = 2 ** Math.ceil(Math.log2(Math.max(16, table.capacity * 2)));
+    return new HashIndex(table, column, allocate(slots * 4, shared));
+  }
+
+  static attach(table: ColumnarTable, column: string, layout: IndexLayout): HashIndex {
+    return new HashIndex(table, column, layout.buffer);
+  }
+
+  get layout(): IndexLayout {
+    return { buffer: this.buffer };
+  }
+
+  get byteLength(): number {
+    return this.buffer.byteLength;
+  }
+
+  insert(row: number): void {
+    const key = Buffer.from(this.table.getString(this.column, row));
+    for (let slot = hashBytes(key) & this.mask; ; slot = (slot + 1) & this.mask) {
+      const entry = Atomics.load(this.slots, slot);
+      if (entry === EMPTY || entry === REMOVED) {
+        Atomics.store(this.slots, slot, row + 1);
+        return;
+      }
+    }
+  }
+
+  find(value: string): number {
+    const key = Buffer.from(value);
+    for (let slot = hashBytes(key) & this.mask; ; slot = (slot + 1) & this.mask) {
+      const entry = Atomics.load(this.slots, slot);
+      if (entry === EMPTY) return -1;
+      if (entry !== REMOVED && this.table.stringEquals(this.column, entry - 1, key)) {
+        return entry - 1;
+      }
+    }
+  }
+
+  remove(row: number): void {
+    const key = Buffer.from(this.table.getString(this.column, row));
+    for (let slot = hashBytes(key) & this.mask; ; slot = (slot + 1) & this.mask) {
+      const entry = Atomics.load(this.slots, slot);
+      if (entry === EMPTY) return;
+      if (entry === row + 1) {
+        Atomics.store(this.slots, slot, REMOVED);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Rows linked per group in insertion order: `heads`/`tails` per group and a
+ * `next` pointer per row, -1 terminated.
+ */
+export class ChainIndex {
+  private heads: Int32Array;
+  private tails: Int32Array;
+  private next: Int32Array;
+
+  private constructor(
+    private buffer: ArrayBuffer | SharedArrayBuffer,
+    private groups: number,
+    rows: number
+  ) {
+    this.heads = new Int32Array(buffer, 0, groups);
+    this.tails = new Int32Array(buffer, groups * 4, groups);
+    this.next = new Int32Array(buffer, groups * 8, rows);
+  }
+
+  static create(groups: number, rows: number, shared: boolean): ChainIndex {
+    const index = new ChainIndex(allocate((groups * 2 + rows) * 4, shared), groups, rows);
+    index.heads.fill(-1);
+    index.tails.fill(-1);
+    return index;
+  }
+
+  static attach(layout: IndexLayout & { groups: number; rows: number }): ChainIndex {
+    return new ChainIndex(layout.buffer, layout.groups, layout.rows);
+  }
+
+  /** A copy with room for `rows` rows, for a table grown by ColumnarTable.resize() */
+  resize(rows: number, shared: boolean): ChainIndex {
+    if (rows < this.next.length) {
+      throw new Error('A resized chain index cannot be smaller than the original');
+    }
+    const index = new ChainIndex(allocate((this.groups * 2 + rows) * 4, shared), this.groups, rows);
+    index.heads.set(this.heads);
+    index.tails.set(this.tails);
+    index.next.set(this.next);
+    return index;
+  }
+
+  get layout(): IndexLayout & { groups: number; rows: number } {
+    return { buffer: this.buffer, groups: this.groups, rows: this.next.length };
+  }
+
+  get byteLength(): number {
+    return this.buffer.byteLength;
+  }
+
+  append(group: number, row: number): void {
+    if (group >= this.groups) {
+      throw new Error(`Chain index group ${group} is out of range (${this.groups} groups)`);
+    }
+    this.next[row] = -1;
+    const tail = this.tails[group];
+    // Link the row before publishing it as the tail, so readers never follow
+    // a pointer to a row that is not linked yet
+    if (tail === -1) {
+      Atomics.store(this.heads, group, row);
+    } else {
+      Atomics.store(this.next, tail, row);
+    }
+    Atomics.store(this.tails, group, row);
+  }
+
+  *rows(group: number): Generator<number> {
+    if (group < 0 || group >= this.groups) return;
+    for (let row = Atomics.load(this.heads, group); row !== -1; row = Atomics.load(this.next, row)) {
+      yield row;
+    }
+  }
+}
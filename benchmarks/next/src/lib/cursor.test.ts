@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  InvalidCursorError,
+  decodeCursor,
+  encodeCursor,
+  pageOfSorted,
+  priceOrdering,
+} from './cursor';
+import { BACKENDS, createDataset, openStore, removeDataset } from './test-dataset';
+import type { CursorOrdering } from './cursor';
+import type { DataStore } from './store';
+import type { PaginatedResponse } from './types';
+
+/** Every item of a query, following nextCursor from the first page */
+async function walk<T>(fetch: (cursor?: string) => Promise<PaginatedResponse<T>>): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetch(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips every kind of sort key', () => {
+    for (const key of ['Charizard', 12.5, 0, true, null]) {
+      const cursor = encodeCursor('cards:price.asc', { key, seq: 7 });
+      expect(decodeCursor(cursor, 'cards:price.asc')).toEqual({ key, seq: 7 });
+    }
+  });
+
+  it('rejects a cursor issued for another ordering', () => {
+    const cursor = encodeCursor('cards:price.asc', { key: 1, seq: 1 });
+    expect(() => decodeCursor(cursor, 'cards:price.desc')).toThrow(InvalidCursorError);
+  });
+
+  it('rejects cursors that are not ours', () => {
+    const forged = Buffer.from(JSON.stringify({ o: 'cards', k: {}, s: 1 })).toString('base64url');
+    for (const cursor of ['not a cursor', '', forged]) {
+      expect(() => decodeCursor(cursor, 'cards')).toThrow(InvalidCursorError);
+    }
+  });
+});
+
+describe('pageOfSorted', () => {
+  interface Item {
+    price: number | null;
+    seq: number;
+  }
+  const ordering: CursorOrdering<Item> = {
+    ...priceOrdering('asc'),
+    position: (item) => ({ key: item.price, seq: item.seq }),
+  };
+  // Ties on price, and items without a price sorting last
+  const items: Item[] = [3, 1, null, 2, 1, 3, null, 2, 5, 1].map((price, seq) => ({ price, seq }));
+  const sorted = [...items].sort(
+    (a, b) => (a.price ?? Infinity) - (b.price ?? Infinity) || a.seq - b.seq
+  );
+
+  it('serves every item once across the pages', async () => {
+    const served = await walk(async (cursor) => pageOfSorted(sorted, { page: 1, limit: 3, cursor }, ordering));
+    expect(served).toEqual(sorted);
+  });
+
+  it('omits nextCursor on the last page', () => {
+    const page = pageOfSorted(sorted, { page: 1, limit: sorted.length }, ordering);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('neither repeats nor skips items when one is added ahead of the cursor', () => {
+    const first = pageOfSorted(sorted, { page: 1, limit: 4 }, ordering);
+    const grown = [{ price: 0, seq: items.length }, ...sorted];
+    const second = pageOfSorted(grown, { page: 1, limit: 4, cursor: first.nextCursor }, ordering);
+    expect(second.items).toEqual(sorted.slice(4, 8));
+  });
+});
+
+describe.each(BACKENDS)('cursor pagination on the %s store', (backend) => {
+  let dataDir: string;
+  let store: DataStore;
+
+  beforeAll(async () => {
+    dataDir = createDataset();
+    store = await openStore(backend, dataDir);
+  });
+
+  afterAll(() => removeDataset(dataDir));
+
+  it('walks the listings in the order pages serve them', async () => {
+    const { total } = await store.getListings({ limit: 1 });
+    const paged = await store.getListings({ limit: total });
+    const walked = await walk((cursor) => store.getListings({ limit: 25, cursor }));
+    expect(walked.map((listing) => listing.id)).toEqual(paged.items.map((listing) => listing.id));
+  });
+
+  it('walks cards sorted by price, cards without listings last', async () => {
+    const { total } = await store.searchCards({ limit: 1 });
+    const paged = await store.searchCards({ sort: 'price', order: 'asc', limit: total });
+    const walked = await walk((cursor) => store.searchCards({ sort: 'price', order: 'asc', limit: 7, cursor }));
+    expect(walked.map((card) => card.id)).toEqual(paged.items.map((card) => card.id));
+  });
+
+  it('serves each listing once while listings are created mid-walk', async () => {
+    const before = await store.getListings({ limit: 1 });
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.getListings({ limit: 50, cursor });
+      seen.push(...page.items.map((listing) => listing.id));
+      const [listing] = page.items;
+      if (listing && seen.length <= before.total) {
+        const { id: _id, ...input } = listing;
+        await store.createListing(input);
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(new Set(seen).size).toBe(seen.length);
+    expect(seen.length).toBeGreaterThanOrEqual(before.total);
+  });
+
+  it('rejects a cursor from another query', async () => {
+    const { nextCursor } = await store.searchCards({ sort: 'name', order: 'asc', limit: 5 });
+    await expect(store.searchCards({ sort: 'price', order: 'asc', limit: 5, cursor: nextCursor })).rejects.toThrow(
+      InvalidCursorError
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Cursor Pagination
+ *
+ * Keyset cursors for the paginated queries, alongside page/limit. A cursor is
+ * the position of the last item served: its sort key and its sequence number,
+ * the record's place in catalogue (insertion) order, which breaks ties in
+ * every ordering the stores use. The next page starts at the first item
+ * sorting after that position, so writes ahead of it neither shift items into
+ * the next page nor repeat them the way offsets do, and a store that can seek
+ * (SQLite, through its indexes) skips the earlier pages instead of slicing
+ * them off.
+ *
+ * Cursors are base64url-encoded JSON, opaque to clients, and carry the name
+ * of the ordering that issued them; one used with a different ordering is
+ * rejected with an `InvalidCursorError`.
+ */
+
+import { toPage } from './store';
+import type { SortOptions } from './store';
+import type { PaginatedResponse } from './types';
+
+export type CursorKey = string | number | boolean | null;
+
+export interface CursorPosition {
+  key: CursorKey;
+  seq: number;
+}
+
+/**
+ * How an ordering compares sort keys. Missing (null) keys sort last in either
+ * direction, or with `nulls: 'high'` above every value, so last ascending and
+ * first descending, the way a card without listings sorts by price.
+ */
+export interface KeyOrder {
+  direction: 'asc' | 'desc';
+  nulls?: 'last' | 'high';
+}
+
+/** An ordering of a paginated query, named so cursors can be checked against it */
+export interface Ordering {
+  name: string;
+  order: KeyOrder;
+}
+
+/** An ordering with the position of each item, for stores sorting in memory */
+export interface CursorOrdering<T> extends Ordering {
+  position(item: T): CursorPosition;
+}
+
+/** Catalogue order, with no sort key */
+export function catalogueOrdering(collection: string): Ordering {
+  return { name: collection, order: { direction: 'asc' } };
+}
+
+/** `sort` on a field as `compareBy` applies it, or catalogue order without one */
+export function fieldOrdering<T>(collection: string, sort: SortOptions<T> | undefined): Ordering {
+  if (!sort) return catalogueOrdering(collection);
+  return {
+    name: `${collection}:${String(sort.field)}.${sort.order}`,
+    order: { direction: sort.order },
+  };
+}
+
+/** Cards by lowest listing price, cards without listings ranking as an infinite price */
+export function priceOrdering(direction: 'asc' | 'desc'): Ordering {
+  return { name: `cards:price.${direction}`, order: { direction, nulls: 'high' } };
+}
+
+/** Cards by full-text relevance score, best match first */
+export const RELEVANCE_ORDERING: Ordering = {
+  name: 'cards:relevance',
+  order: { direction: 'desc' },
+};
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface CursorPayload {
+  o: string;
+  k: CursorKey;
+  s: number;
+}
+
+export function encodeCursor(ordering: string, position: CursorPosition): string {
+  const payload: CursorPayload = { o: ordering, k: position.key, s: position.seq };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** The position in `cursor`; throws unless it was issued for `ordering` */
+export function decodeCursor(cursor: string, ordering: string): CursorPosition {
+  let payload: Partial<CursorPayload> | null;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const key = payload?.k;
+  const validKey = key === null || ['string', 'number', 'boolean'].includes(typeof key);
+  if (!payload || !validKey || !Number.isInteger(payload.s)) {
+    throw new InvalidCursorError();
+  }
+  if (payload.o !== ordering) {
+    throw new InvalidCursorError('Cursor belongs to a different sort order');
+  }
+  return { key: key as CursorKey, seq: payload.s! };
+}
+
+export function compareKeys(a: CursorKey, b: CursorKey, order: KeyOrder): number {
+  if (a === b) return 0;
+  if (a === null || b === null) {
+    const nullFirst = order.nulls === 'high' && order.direction === 'desc';
+    return (a === null) === nullFirst ? -1 : 1;
+  }
+  const comparison = a < b ? -1 : 1;
+  return order.direction === 'asc' ? comparison : -comparison;
+}
+
+export function comparePositions(a: CursorPosition, b: CursorPosition, order: KeyOrder): number {
+  return compareKeys(a.key, b.key, order) || a.seq - b.seq;
+}
+
+/** Index of the first of `sorted` (sorted by `ordering`) after `after` */
+export function seekAfter<T>(
+  sorted: T[],
+  after: CursorPosition,
+  ordering: CursorOrdering<T>
+): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (comparePositions(ordering.position(sorted[mid]), after, ordering.order) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * The page of `sorted` at `cursor`, or at `page` without one, with the cursor
+ * to the page after it while there is one. With a cursor, `page` reports the
+ * page the first item falls on.
+ */
+export function pageOfSorted<T>(
+  sorted: T[],
+  { page, limit, cursor }: { page: number; limit: number; cursor?: string },
+  ordering: CursorOrdering<T>
+): PaginatedResponse<T> {
+  const start = cursor
+    ? seekAfter(sorted, decodeCursor(cursor, ordering.name), ordering)
+    : (page - 1) * limit;
+  const items = sorted.slice(start, start + limit);
+
+  const result = toPage(items, sorted.length, cursor ? Math.floor(start / limit) + 1 : page, limit);
+  if (items.length > 0 && start + limit < sorted.length) {
+    result.nextCursor = encodeCursor(ordering.name, ordering.position(items[items.length - 1]));
+  }
+  return result;
+}
@@ -2,19 +2,77 @@
  * JSON Database Layer with Configurable Delay
  *
  * Environment variables:
+ * - DB_BACKEND: Data store behind `db`, json|sqlite|ndjson|shared (default: json, see ./store.ts)
+ * - DB_DATA_DIR: Directory holding the *.json collections (default: auto-detected ./data)
  * - DB_DELAY_MIN: Minimum delay in ms (default: 1)
  * - DB_DELAY_MAX: Maximum delay in ms (default: 5)
  * - DB_DELAY_ENABLED: Enable/disable delay (default: true)
+ * - DB_LATENCY: Latency model spec, see ./latency.ts (default: uniform over DB_DELAY_MIN..DB_DELAY_MAX)
+ * - DB_LATENCY_OVERRIDES: Per-method specs, e.g. `searchCards=lognormal:median=8,sigma=0.9`
+ * - DB_INDEXES: Build id/slug/foreign-key indexes on load, on|off (default: on)
+ * - DB_SCALE: Integer factor of synthetic card/listing copies made on load (default: 1, json and shared)
+ * - DB_WAL: Persist writes to a write-ahead log replayed on startup, on|off (default: on)
+ * - DB_WAL_DIR: Directory for the log and snapshots (default: <data dir>/wal)
+ * - DB_WAL_SYNC: fsync the log after every append, on|off (default: on)
+ * - DB_SNAPSHOT_INTERVAL_MS: Compact the log into a snapshot this often, 0 to disable (default: 300000)
+ * - DB_JSON_STREAMING: Parse the *.json files record by record as they are read, on|off (default: on, see ./json-stream.ts)
+ * - DB_LAYOUT: How cards and listings are held in memory, objects|columnar (default: objects).
+ *   columnar keeps them in typed-array tables behind record-shaped views (see ./columnar-records.ts)
+ * - DB_WATCH: Reload a collection when its file in the data directory changes, on|off (default: on, see reload())
+ * - DB_RELOAD_TOKEN: Bearer token for POST /api/_internal/reload, which is off while unset
+ *
+ * The simulated latency, WAL and indexes are specific to JsonDatabase; the other
+ * backends do real I/O (or shared-memory reads) and only count their calls.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { parseLatencySpec, parseLatencyOverrides } from './latency';
+import { countDbCall } from './metrics';
+import { KeyedMutex, OperationGate } from './locks';
+import { WriteAheadLog } from './wal';
+import { SearchIndex } from './search-index';
+import { FacetCounter } from './facets';
+import { matchesAttributes } from './attribute-filters';
+import { readJson } from './json-stream';
+import { ColumnarCollection } from './columnar-records';
+import { TrendCounter, selectHistory, trendingIds } from './price-history';
+import {
+  pageOfSorted,
+  catalogueOrdering,
+  fieldOrdering,
+  priceOrdering,
+  RELEVANCE_ORDERING,
+} from './cursor';
+import { invalidateCache } from './response-cache';
+import { SqliteStore } from './sqlite-store';
+import { NdjsonStore } from './ndjson-store';
+import { SharedStore } from './shared-store';
+import {
+  findDataDir,
+  resolveCart,
+  addCartItem,
+  setCartItemQuantity,
+  removeCartItem,
+  createOrder,
+  formatOrderId,
+  cardFilters,
+  COLLECTIONS,
+} from './store';
+import type { LatencyModel } from './latency';
+import type { ColumnType } from './columnar';
+import type { CursorKey, CursorOrdering, Ordering } from './cursor';
+import type { WalOperation } from './wal';
+import type { DataStore, SortOptions, PaginationOptions, CollectionName, ReloadReport } from './store';
 import type {
   Game,
   CardSet,
   Card,
   Seller,
   Listing,
+  ListingInput,
+  ListingUpdate,
   Featured,
   PaginatedResponse,
   CardWithListings,
@@ -22,60 +80,174 @@ import type {
   SetWithCards,
   SellerWithListings,
   ListingWithDetails,
+  Cart,
+  CartItem,
+  CartWithDetails,
+  Order,
+  StockConflict,
+  CheckoutResult,
   CardSearchParams,
+  CardSearchResponse,
   ListingSearchParams,
+  PriceHistory,
+  PriceHistoryParams,
+  PricePoint,
 } from './types';
 
-interface SortOptions<T> {
-  field: keyof T;
-  order: 'asc' | 'desc';
+interface CollectionIndex {
+  byId: Map<string, unknown>;
+  bySlug: Map<string, unknown>;
+  byField: Map<string, Map<string, unknown[]>>;
+}
+
+// A collection read from its file along with its index and table, built
+// aside from the live one and then installed in one step
+interface LoadedCollection {
+  // featured.json may hold an object, which getFeatured() accepts too
+  data: unknown;
+  index?: CollectionIndex;
+  table?: ColumnarCollection<object>;
 }
 
-interface PaginationOptions<T> {
-  page?: number;
-  limit?: number;
-  filter?: Partial<T>;
-  sort?: SortOptions<T>;
+// Editors and copies often write a file in several steps, so a reload waits
+// for its file to be quiet this long
+const WATCH_DEBOUNCE_MS = 250;
+
+// Foreign keys indexed per collection, in addition to id and slug
+const INDEXED_FIELDS: Record<string, string[]> = {
+  sets: ['gameId'],
+  cards: ['setId', 'gameId'],
+  listings: ['cardId', 'sellerId'],
+  priceHistory: ['cardId'],
+};
+
+// Derived listing aggregates, kept in step with listing writes
+interface ListingStats {
+  byCard: Map<string, { lowestPrice: number; listingCount: number }>;
+  bySeller: Map<string, number>;
 }
 
-class JsonDatabase {
+// Collections multiplied by DB_SCALE, with the id fields rewritten per copy
+// so that copied listings join to the matching copied card
+const SCALED_FIELDS: Record<string, string[]> = {
+  cards: ['id'],
+  listings: ['id', 'cardId'],
+  priceHistory: ['cardId'],
+};
+
+// Read after startup rather than during it, as the price history is large
+// and only the history and trending requests need it (see load())
+const LAZY_COLLECTIONS: string[] = ['priceHistory'];
+
+// Column types of the collections stored as tables with DB_LAYOUT=columnar,
+// and the fraction of rows and text reserved for records written later
+const COLUMNAR_COLLECTIONS: Record<string, { columns: Record<string, ColumnType>; spare: number }> = {
+  cards: {
+    columns: {
+      id: 'string',
+      setId: 'dict',
+      gameId: 'dict',
+      name: 'string',
+      number: 'string',
+      rarity: 'dict',
+      type: 'dict',
+      imageUrl: 'string',
+      attributes: 'json',
+    } satisfies Record<keyof Card, ColumnType>,
+    spare: 0,
+  },
+  listings: {
+    columns: {
+      id: 'string',
+      cardId: 'dict',
+      sellerId: 'dict',
+      condition: 'dict',
+      price: 'f64',
+      quantity: 'i32',
+      language: 'dict',
+      isFoil: 'bool',
+    } satisfies Record<keyof Listing, ColumnType>,
+    spare: 0.1,
+  },
+  priceHistory: {
+    columns: {
+      cardId: 'dict',
+      condition: 'dict',
+      date: 'dict',
+      min: 'f64',
+      median: 'f64',
+      max: 'f64',
+      volume: 'i32',
+    } satisfies Record<keyof PricePoint, ColumnType>,
+    spare: 0,
+  },
+};
+
+class JsonDatabase implements DataStore {
+  readonly backend = 'json';
   private cache = new Map<string, unknown[]>();
+  // Collections being read, so concurrent first requests share one read
+  private loading = new Map<string, Promise<unknown[]>>();
+  private carts = new Map<string, Cart>();
+  private orders = new Map<string, Order>();
+  private orderSeq = 0;
+  private listingLocks = new KeyedMutex();
+  // Listing writes run through the gate, so a reload can swap the listings
+  // between writes but never under one
+  private listingWrites = new OperationGate();
+  private reloads = new Map<string, Promise<ReloadReport>>();
+  // Listing writes made while a listings reload builds its copy
+  private reloadWrites?: WalOperation[];
+  private listingStats?: ListingStats;
+  // Card ids ranked from the price history, until it is reloaded
+  private trending?: string[];
+  private searchIndex?: SearchIndex;
+  private indexes = new Map<string, CollectionIndex>();
+  // Each record's place in its collection's insertion order, which cursors
+  // carry; array positions shift when listings are deleted
+  private sequence = new WeakMap<object, number>();
+  private nextListingSeq = 0;
+  private columnar: boolean;
+  private tables = new Map<string, ColumnarCollection<object>>();
   private dataDir: string;
-  private delayMin: number;
-  private delayMax: number;
+  private latency: LatencyModel;
+  private latencyOverrides: Map<string, LatencyModel>;
   private delayEnabled: boolean;
-  private initialized = false;
+  private indexesEnabled: boolean;
+  private watchEnabled: boolean;
+  private scale: number;
+  private wal?: WriteAheadLog;
+  private snapshotDir?: string;
+  private snapshotInterval: number;
+  private initializing?: Promise<void>;
 
   constructor(dataDir?: string) {
-    this.dataDir = dataDir || this.findDataDir();
-    this.delayMin = parseInt(process.env.DB_DELAY_MIN || '1', 10);
-    this.delayMax = parseInt(process.env.DB_DELAY_MAX || '5', 10);
+    this.dataDir = dataDir || findDataDir();
+    const delayMin = parseInt(process.env.DB_DELAY_MIN || '1', 10);
+    const delayMax = parseInt(process.env.DB_DELAY_MAX || '5', 10);
+    this.latency = parseLatencySpec(
+      process.env.DB_LATENCY || `uniform:min=${delayMin},max=${delayMax}`
+    );
+    this.latencyOverrides = parseLatencyOverrides(process.env.DB_LATENCY_OVERRIDES || '');
     this.delayEnabled = process.env.DB_DELAY_ENABLED !== 'false';
-  }
-
-  private findDataDir(): string {
-    // Try common locations
-    const candidates = [
-      path.join(process.cwd(), 'data'),
-      path.join(process.cwd(), '..', 'data'),
-      path.join(__dirname, '..', 'data'),
-      path.join(__dirname, 'data'),
-    ];
-
-    for (const dir of candidates) {
-      if (fs.existsSync(path.join(dir, 'games.json'))) {
-        return dir;
-      }
+    this.indexesEnabled = process.env.DB_INDEXES !== 'off';
+    this.watchEnabled = process.env.DB_WATCH !== 'off';
+    this.scale = Math.max(1, parseInt(process.env.DB_SCALE || '1', 10) || 1);
+    this.columnar = process.env.DB_LAYOUT === 'columnar';
+    if (process.env.DB_WAL !== 'off') {
+      this.wal = new WriteAheadLog(
+        process.env.DB_WAL_DIR || path.join(this.dataDir, 'wal'),
+        process.env.DB_WAL_SYNC !== 'off'
+      );
     }
-
-    return path.join(process.cwd(), 'data');
+    this.snapshotInterval = parseInt(process.env.DB_SNAPSHOT_INTERVAL_MS || '300000', 10);
   }
 
-  private async delay(): Promise<void> {
+  private async delay(method: string): Promise<void> {
+    countDbCall(method);
     if (!this.delayEnabled) return;
-    const ms = Math.floor(
-      Math.random() * (this.delayMax - this.delayMin + 1) + this.delayMin
-    );
+    const model = this.latencyOverrides.get(method) || this.latency;
+    const ms = model.sample();
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
@@ -84,23 +256,384 @@ class JsonDatabase {
       return this.cache.get(name) as T[];
     }
 
-    const filePath = path.join(this.dataDir, `${name}.json`);
+    let loading = this.loading.get(name);
+    if (!loading) {
+      loading = this.readAndInstall(name).finally(() => this.loading.delete(name));
+      this.loading.set(name, loading);
+    }
+    return loading as Promise<T[]>;
+  }
+
+  private async readAndInstall(name: string): Promise<unknown[]> {
+    const { filePath, fromSnapshot } = this.collectionFile(name, this.snapshotDir);
     if (!fs.existsSync(filePath)) {
       console.warn(`Data file not found: ${filePath}`);
       return [];
     }
 
     try {
-      const content = await fs.promises.readFile(filePath, 'utf-8');
-      const data = JSON.parse(content);
-      this.cache.set(name, data);
-      return data as T[];
+      const loaded = await this.readCollection(name, filePath, fromSnapshot);
+      this.install(name, loaded);
+      return loaded.data as unknown[];
     } catch (err) {
       console.error(`Error loading ${name}.json:`, err);
       return [];
     }
   }
 
+  // Snapshotted collections already include writes and DB_SCALE copies
+  private collectionFile(name: string, snapshotDir?: string): { filePath: string; fromSnapshot: boolean } {
+    const snapshotFile = snapshotDir && path.join(snapshotDir, `${name}.json`);
+    if (snapshotFile && fs.existsSync(snapshotFile)) {
+      return { filePath: snapshotFile, fromSnapshot: true };
+    }
+    return { filePath: path.join(this.dataDir, `${name}.json`), fromSnapshot: false };
+  }
+
+  // Leaves the live collection alone; see install()
+  private async readCollection(name: string, filePath: string, fromSnapshot: boolean): Promise<LoadedCollection> {
+    let data = await readJson<unknown[]>(filePath);
+    if (!Array.isArray(data)) return { data };
+
+    if (!fromSnapshot && this.scale > 1 && SCALED_FIELDS[name]) {
+      data = this.scaleCollection(name, data);
+    }
+    let table: ColumnarCollection<object> | undefined;
+    if (this.columnar && COLUMNAR_COLLECTIONS[name]) {
+      table = this.storeColumnar(name, data as object[]);
+      data = table.views;
+    }
+    // Keyed by the new records, so numbering them early touches nothing live
+    data.forEach((record, i) => this.sequence.set(record as object, i));
+    const index = this.indexesEnabled ? this.buildIndex(name, data) : undefined;
+    return { data, index, table };
+  }
+
+  // Synchronous, so no request sees the data of one copy with the index of another
+  private install(name: string, { data, index, table }: LoadedCollection): void {
+    this.cache.set(name, data as unknown[]);
+    if (name === 'listings' && Array.isArray(data)) this.nextListingSeq = data.length;
+    if (index) {
+      this.indexes.set(name, index);
+    } else {
+      this.indexes.delete(name);
+    }
+    if (table) {
+      this.tables.set(name, table);
+    } else {
+      this.tables.delete(name);
+    }
+    if (name === 'priceHistory') this.trending = undefined;
+  }
+
+  private scaleCollection(name: string, data: unknown[]): unknown[] {
+    const fields = SCALED_FIELDS[name];
+    const scaled = new Array<unknown>(data.length * this.scale);
+
+    for (let i = 0; i < data.length; i++) {
+      scaled[i] = data[i];
+    }
+
+    for (let copy = 1; copy < this.scale; copy++) {
+      const offset = copy * data.length;
+      for (let i = 0; i < data.length; i++) {
+        const record = this.cloneRecord(data[i] as Record<string, unknown>);
+        for (const field of fields) {
+          record[field] = `${record[field]}-x${copy}`;
+        }
+        scaled[offset + i] = record;
+      }
+    }
+
+    console.log(`Scaled ${name} x${this.scale}: ${scaled.length} records`);
+    return scaled;
+  }
+
+  // Moves the records into a table, whose views then replace them in the collection
+  private storeColumnar(name: string, data: object[]): ColumnarCollection<object> {
+    const { columns, spare } = COLUMNAR_COLLECTIONS[name];
+    const table = new ColumnarCollection(columns, data, { spare });
+
+    const mb = (table.byteLength / 1024 / 1024).toFixed(1);
+    console.log(`Stored ${name} in a columnar table: ${table.rowCount} rows, ${mb} MB outside the heap`);
+    return table;
+  }
+
+  // Copies nested objects and arrays too, so every synthetic record owns its
+  // heap the same way a record parsed from JSON would
+  private cloneRecord(record: Record<string, unknown>): Record<string, unknown> {
+    const clone: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (Array.isArray(value)) {
+        clone[key] = [...value];
+      } else if (value !== null && typeof value === 'object') {
+        clone[key] = this.cloneRecord(value as Record<string, unknown>);
+      } else {
+        clone[key] = value;
+      }
+    }
+    return clone;
+  }
+
+  private buildIndex(name: string, data: unknown[]): CollectionIndex {
+    const index: CollectionIndex = {
+      byId: new Map(),
+      bySlug: new Map(),
+      byField: new Map(),
+    };
+    const fields = INDEXED_FIELDS[name] || [];
+    for (const field of fields) {
+      index.byField.set(field, new Map());
+    }
+
+    for (const item of data) {
+      const record = item as Record<string, unknown>;
+      if (typeof record.id === 'string') index.byId.set(record.id, item);
+      if (typeof record.slug === 'string') index.bySlug.set(record.slug, item);
+
+      for (const field of fields) {
+        const value = record[field];
+        if (typeof value !== 'string') continue;
+        const buckets = index.byField.get(field)!;
+        const bucket = buckets.get(value);
+        if (bucket) {
+          bucket.push(item);
+        } else {
+          buckets.set(value, [item]);
+        }
+      }
+    }
+
+    return index;
+  }
+
+  // Index-backed lookups, falling back to scans when DB_INDEXES=off
+
+  private async lookupById<T extends { id: string }>(
+    collection: string,
+    id: string
+  ): Promise<T | undefined> {
+    const data = await this.loadCollection<T>(collection);
+    const index = this.indexes.get(collection);
+    if (index) return index.byId.get(id) as T | undefined;
+    return data.find((item) => item.id === id);
+  }
+
+  private async lookupBySlug<T extends { slug: string }>(
+    collection: string,
+    slug: string
+  ): Promise<T | undefined> {
+    const data = await this.loadCollection<T>(collection);
+    const index = this.indexes.get(collection);
+    if (index) return index.bySlug.get(slug) as T | undefined;
+    return data.find((item) => item.slug === slug);
+  }
+
+  private async lookupByField<T>(
+    collection: string,
+    field: keyof T & string,
+    value: string
+  ): Promise<T[]> {
+    const data = await this.loadCollection<T>(collection);
+    const buckets = this.indexes.get(collection)?.byField.get(field);
+    // A copy, as writes change the bucket in place
+    if (buckets) return ((buckets.get(value) as T[] | undefined) || []).slice();
+    return data.filter((item) => item[field] === value);
+  }
+
+  private addToIndex(collection: string, item: Record<string, unknown>): void {
+    const index = this.indexes.get(collection);
+    if (!index) return;
+    if (typeof item.id === 'string') index.byId.set(item.id, item);
+    if (typeof item.slug === 'string') index.bySlug.set(item.slug, item);
+    for (const [field, buckets] of index.byField) {
+      const value = item[field];
+      if (typeof value !== 'string') continue;
+      const bucket = buckets.get(value);
+      if (bucket) {
+        bucket.push(item);
+      } else {
+        buckets.set(value, [item]);
+      }
+    }
+  }
+
+  private removeFromIndex(collection: string, item: Record<string, unknown>): void {
+    const index = this.indexes.get(collection);
+    if (!index) return;
+    if (typeof item.id === 'string') index.byId.delete(item.id);
+    if (typeof item.slug === 'string') index.bySlug.delete(item.slug);
+    for (const [field, buckets] of index.byField) {
+      const value = item[field];
+      if (typeof value !== 'string') continue;
+      const bucket = buckets.get(value);
+      if (!bucket) continue;
+      const position = bucket.indexOf(item);
+      if (position !== -1) bucket.splice(position, 1);
+      if (bucket.length === 0) buckets.delete(value);
+    }
+  }
+
+  private rankTrending(points: PricePoint[]): string[] {
+    const counter = new TrendCounter();
+    for (const point of points) counter.addPoint(point);
+    return counter.result();
+  }
+
+  // Ranked once when indexes are on, on every call when DB_INDEXES=off
+  private async getTrendingRanking(): Promise<string[]> {
+    const points = await this.loadCollection<PricePoint>('priceHistory');
+    if (!this.indexesEnabled) return this.rankTrending(points);
+    if (!this.trending) this.trending = this.rankTrending(points);
+    return this.trending;
+  }
+
+  private buildListingStats(listings: Listing[]): ListingStats {
+    const stats: ListingStats = { byCard: new Map(), bySeller: new Map() };
+    for (const listing of listings) {
+      const card = stats.byCard.get(listing.cardId);
+      if (card) {
+        card.listingCount++;
+        if (listing.price < card.lowestPrice) card.lowestPrice = listing.price;
+      } else {
+        stats.byCard.set(listing.cardId, { lowestPrice: listing.price, listingCount: 1 });
+      }
+      stats.bySeller.set(listing.sellerId, (stats.bySeller.get(listing.sellerId) || 0) + 1);
+    }
+    return stats;
+  }
+
+  // Maintained incrementally when indexes are on; rebuilt by a full scan on
+  // every call when DB_INDEXES=off, like the other lookups
+  private async getListingStats(): Promise<ListingStats> {
+    const listings = await this.loadCollection<Listing>('listings');
+    if (!this.indexesEnabled) return this.buildListingStats(listings);
+    if (!this.listingStats) this.listingStats = this.buildListingStats(listings);
+    return this.listingStats;
+  }
+
+  // Cards never change, so the full-text index is built once on first use
+  private async getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      this.searchIndex = SearchIndex.build(await this.loadCollection<Card>('cards'));
+    }
+    return this.searchIndex;
+  }
+
+  // Recompute a card's aggregates from its remaining listings after a write
+  private async refreshCardStats(cardId: string): Promise<void> {
+    if (!this.listingStats) return;
+    const listings = await this.lookupByField<Listing>('listings', 'cardId', cardId);
+    if (listings.length === 0) {
+      this.listingStats.byCard.delete(cardId);
+      return;
+    }
+    let lowestPrice = Infinity;
+    for (const listing of listings) {
+      if (listing.price < lowestPrice) lowestPrice = listing.price;
+    }
+    this.listingStats.byCard.set(cardId, { lowestPrice, listingCount: listings.length });
+  }
+
+  // Listing mutations shared by the write methods and WAL replay. They change
+  // the collection and indexes synchronously; callers refresh listing stats.
+
+  private findListing(listings: Listing[], id: string): Listing | undefined {
+    const index = this.indexes.get('listings');
+    if (index) return index.byId.get(id) as Listing | undefined;
+    return listings.find((listing) => listing.id === id);
+  }
+
+  // Returns the stored listing, a view of its row with DB_LAYOUT=columnar
+  private insertListing(listings: Listing[], input: Listing): Listing {
+    const table = this.tables.get('listings') as ColumnarCollection<Listing> | undefined;
+    const listing = table ? table.append(input) : input;
+    listings.push(listing);
+    this.sequence.set(listing, this.nextListingSeq++);
+    this.addToIndex('listings', listing as unknown as Record<string, unknown>);
+    return listing;
+  }
+
+  // A listing already gone, e.g. from the copy a reload swapped out, is left alone
+  private removeListing(listings: Listing[], listing: Listing): void {
+    const position = listings.indexOf(listing);
+    if (position === -1) return;
+    listings.splice(position, 1);
+    this.removeFromIndex('listings', listing as unknown as Record<string, unknown>);
+  }
+
+  private recordOrder(order: Order): void {
+    this.orders.set(order.id, order);
+    const seq = parseInt(order.id.slice('order-'.length), 10);
+    if (seq > this.orderSeq) this.orderSeq = seq;
+  }
+
+  private applyWalEntry(listings: Listing[], entry: WalOperation): void {
+    switch (entry.op) {
+      case 'createListing':
+        if (!this.findListing(listings, entry.listing.id)) {
+          this.insertListing(listings, entry.listing);
+        }
+        break;
+      case 'updateListing': {
+        const listing = this.findListing(listings, entry.id);
+        if (listing) Object.assign(listing, entry.update);
+        break;
+      }
+      case 'deleteListing': {
+        const listing = this.findListing(listings, entry.id);
+        if (listing) this.removeListing(listings, listing);
+        break;
+      }
+      case 'checkout':
+        for (const { listingId, quantity } of entry.remaining) {
+          const listing = this.findListing(listings, listingId);
+          if (listing) listing.quantity = quantity;
+        }
+        this.recordOrder(entry.order);
+        break;
+    }
+  }
+
+  // Appends to the WAL when enabled and invalidates cached responses. Call it
+  // in the same tick as the in-memory change and await the result before
+  // acknowledging the write.
+  private log(operation: WalOperation): Promise<void> {
+    invalidateCache();
+    this.reloadWrites?.push(operation);
+    return this.wal ? this.wal.append(operation) : Promise.resolve();
+  }
+
+  // Load the newest snapshot's orders and replay the log on top of the
+  // collections. Listings are read from the snapshot by loadCollection.
+  private async recover(wal: WriteAheadLog): Promise<void> {
+    const snapshot = await wal.latestSnapshot();
+    if (snapshot) {
+      if (snapshot.meta.scale !== this.scale) {
+        console.warn(
+          `Snapshot ${snapshot.dir} was taken with DB_SCALE=${snapshot.meta.scale}, using it as-is`
+        );
+      }
+      this.snapshotDir = snapshot.dir;
+      const orders = JSON.parse(
+        await fs.promises.readFile(path.join(snapshot.dir, 'orders.json'), 'utf-8')
+      ) as Order[];
+      for (const order of orders) this.recordOrder(order);
+    }
+
+    const listings = await this.loadCollection<Listing>('listings');
+    const start = performance.now();
+    const replayed = await wal.replay(snapshot?.meta.seq ?? 0, (entry) =>
+      this.applyWalEntry(listings, entry)
+    );
+    if (replayed > 0) {
+      const heapMb = process.memoryUsage().heapUsed / 1024 / 1024;
+      console.log(
+        `Replayed ${replayed} WAL entries in ${(performance.now() - start).toFixed(0)}ms (heap used ${heapMb.toFixed(1)} MB)`
+      );
+    }
+  }
+
   private applyFilter<T>(data: T[], filter: Partial<T>): T[] {
     return data.filter((item) => {
       for (const [key, value] of Object.entries(filter)) {
@@ -126,6 +659,17 @@ class JsonDatabase {
     });
   }
 
+  // `ordering` with positions keyed by `keyOf`, ties in insertion order
+  private withPositions<T>(
+    ordering: Ordering,
+    keyOf: (item: T) => CursorKey = () => null
+  ): CursorOrdering<T> {
+    return {
+      ...ordering,
+      position: (item) => ({ key: keyOf(item), seq: this.sequence.get(item as object)! }),
+    };
+  }
+
   private applyTextSearch<T>(data: T[], query: string, fields: (keyof T)[]): T[] {
     const lowerQuery = query.toLowerCase();
     return data.filter((item) => {
@@ -139,21 +683,153 @@ class JsonDatabase {
     });
   }
 
-  // Initialize (preload all data)
+  // Initialize (preload all data but the lazy collections and recover logged writes)
   async initialize(): Promise<void> {
-    if (this.initialized) return;
-    await this.loadCollection<Game>('games');
-    await this.loadCollection<CardSet>('sets');
-    await this.loadCollection<Card>('cards');
-    await this.loadCollection<Seller>('sellers');
-    await this.loadCollection<Listing>('listings');
-    await this.loadCollection<Featured>('featured');
-    this.initialized = true;
+    if (!this.initializing) this.initializing = this.load();
+    return this.initializing;
+  }
+
+  private async load(): Promise<void> {
+    if (this.wal) await this.recover(this.wal);
+    for (const name of COLLECTIONS) {
+      if (!LAZY_COLLECTIONS.includes(name)) await this.loadCollection(name);
+    }
+    // The price history is read and ranked in the background, so startup does
+    // not wait for it and neither does the first trending request once it is done
+    this.getTrendingRanking().catch((err) => console.error('Ranking trending cards failed:', err));
+
+    if (this.wal && this.snapshotInterval > 0) {
+      setInterval(() => {
+        this.compact().catch((err) => console.error('WAL compaction failed:', err));
+      }, this.snapshotInterval).unref();
+    }
+    if (this.watchEnabled) this.watchDataDir();
+  }
+
+  /**
+   * Re-reads collections from their files while requests continue to be
+   * served by the old copies. Each new copy is read and indexed aside, then
+   * swapped in synchronously while listing writes are held back. Listings
+   * are rebuilt the way startup recovers them: the latest snapshot (or the
+   * file) plus logged writes, plus the writes made during the rebuild. Without
+   * the WAL, earlier writes are lost, as they would be by a restart. Reloading
+   * every collection skips lazy ones not read yet.
+   */
+  async reload(collection?: CollectionName): Promise<ReloadReport[]> {
+    await this.initialize();
+    const reports: ReloadReport[] = [];
+    const names = collection
+      ? [collection]
+      : COLLECTIONS.filter((name) => !LAZY_COLLECTIONS.includes(name) || this.cache.has(name));
+    for (const name of names) {
+      reports.push(await this.queueReload(name));
+    }
+    return reports;
+  }
+
+  // Reloads of one collection run in turn, so a file changed during a reload
+  // is read again after it
+  private queueReload(name: CollectionName): Promise<ReloadReport> {
+    const previous = this.reloads.get(name) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.reloadCollection(name));
+    this.reloads.set(name, next);
+    return next;
+  }
+
+  private async reloadCollection(name: CollectionName): Promise<ReloadReport> {
+    const start = performance.now();
+    const heapUsedBefore = process.memoryUsage().heapUsed;
+    const isListings = name === 'listings';
+    if (isListings) this.reloadWrites = [];
+
+    try {
+      const snapshot = isListings && this.wal ? await this.wal.latestSnapshot() : undefined;
+      const { filePath, fromSnapshot } = this.collectionFile(name, snapshot?.dir);
+      const loaded = await this.readCollection(name, filePath, fromSnapshot);
+      const logged: WalOperation[] = [];
+      if (isListings && this.wal) {
+        // Writes from before the rebuild began are in the log once it is
+        // flushed; later ones are in reloadWrites
+        await this.wal.flush();
+        await this.wal.replay(snapshot?.meta.seq ?? 0, (entry) => logged.push(entry));
+      }
+      const searchIndex =
+        name === 'cards' && this.searchIndex ? SearchIndex.build(loaded.data as Card[]) : undefined;
+      const built = performance.now();
+
+      let replayedWrites = 0;
+      await this.listingWrites.exclusive(() => {
+        this.install(name, loaded);
+        if (name === 'cards') this.searchIndex = searchIndex;
+        if (isListings) {
+          this.snapshotDir = snapshot?.dir;
+          // Writes made during the rebuild may be in both lists; entries
+          // record resulting state, so applying one twice is harmless
+          const writes = [...logged, ...this.reloadWrites!];
+          for (const write of writes) this.applyWalEntry(loaded.data as Listing[], write);
+          replayedWrites = writes.length;
+          this.listingStats = undefined;
+        }
+        invalidateCache();
+      });
+      const end = performance.now();
+
+      const report: ReloadReport = {
+        collection: name,
+        records: Array.isArray(loaded.data) ? loaded.data.length : 1,
+        buildMs: Math.round(built - start),
+        swapMs: Math.round((end - built) * 10) / 10,
+        durationMs: Math.round(end - start),
+        replayedWrites,
+        heapUsedBefore,
+        heapUsedAfter: process.memoryUsage().heapUsed,
+      };
+      console.log(
+        `Reloaded ${name}: ${report.records} records in ${report.durationMs}ms (swap ${report.swapMs}ms, ${replayedWrites} writes replayed)`
+      );
+      return report;
+    } finally {
+      if (isListings) this.reloadWrites = undefined;
+    }
+  }
+
+  // Collections are reloaded only once loaded, which load() has done for all
+  // but the lazy ones
+  private watchDataDir(): void {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const watcher = fs.watch(this.dataDir, (_event, filename) => {
+      if (!filename?.endsWith('.json')) return;
+      const name = path.basename(filename, '.json') as CollectionName;
+      if (!COLLECTIONS.includes(name) || !this.cache.has(name)) return;
+
+      clearTimeout(timers.get(name));
+      const timer = setTimeout(() => {
+        timers.delete(name);
+        this.queueReload(name).catch((err) => console.error(`Reloading ${name}.json failed:`, err));
+      }, WATCH_DEBOUNCE_MS);
+      timers.set(name, timer.unref());
+    });
+    watcher.on('error', (err) => console.error(`Watching ${this.dataDir} failed:`, err));
+    watcher.unref();
+  }
+
+  // Write listings and orders to a new snapshot and drop the log it covers
+  async compact(): Promise<void> {
+    if (!this.wal) return;
+    const listings = await this.loadCollection<Listing>('listings');
+    const meta = await this.wal.compact(() => ({
+      listings,
+      orders: [...this.orders.values()],
+      scale: this.scale,
+    }));
+    if (meta) {
+      console.log(`Compacted WAL into snapshot at seq ${meta.seq}: ${meta.listingCount} listings, ${meta.orderCount} orders`);
+    }
   }
 
   // Generic query methods
   async query<T>(collection: string, filter?: Partial<T>): Promise<T[]> {
-    await this.delay();
+    await this.delay('query');
     const data = await this.loadCollection<T>(collection);
     return filter ? this.applyFilter(data, filter) : data;
   }
@@ -162,27 +838,34 @@ class JsonDatabase {
     collection: string,
     id: string
   ): Promise<T | undefined> {
-    await this.delay();
-    const data = await this.loadCollection<T>(collection);
-    return data.find((item) => item.id === id);
+    await this.delay('findById');
+    return this.lookupById<T>(collection, id);
   }
 
   async findBySlug<T extends { slug: string }>(
     collection: string,
     slug: string
   ): Promise<T | undefined> {
-    await this.delay();
-    const data = await this.loadCollection<T>(collection);
-    return data.find((item) => item.slug === slug);
+    await this.delay('findBySlug');
+    return this.lookupBySlug<T>(collection, slug);
   }
 
   async findMany<T extends { id: string }>(
     collection: string,
     ids: string[]
   ): Promise<T[]> {
-    await this.delay();
+    await this.delay('findMany');
     const data = await this.loadCollection<T>(collection);
     const idSet = new Set(ids);
+    const index = this.indexes.get(collection);
+    if (index) {
+      const items: T[] = [];
+      for (const id of idSet) {
+        const item = index.byId.get(id);
+        if (item) items.push(item as T);
+      }
+      return items;
+    }
     return data.filter((item) => idSet.has(item.id));
   }
 
@@ -190,8 +873,8 @@ class JsonDatabase {
     collection: string,
     options: PaginationOptions<T> = {}
   ): Promise<PaginatedResponse<T>> {
-    await this.delay();
-    const { page = 1, limit = 20, filter, sort } = options;
+    await this.delay('paginate');
+    const { page = 1, limit = 20, cursor, filter, sort } = options;
     let data = await this.loadCollection<T>(collection);
 
     if (filter) {
@@ -202,17 +885,11 @@ class JsonDatabase {
       data = this.applySort(data, sort);
     }
 
-    const total = data.length;
-    const start = (page - 1) * limit;
-    const items = data.slice(start, start + limit);
-
-    return {
-      items,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
+    const ordering = this.withPositions<T>(
+      fieldOrdering(collection, sort),
+      sort && ((item) => (item[sort.field] ?? null) as CursorKey)
+    );
+    return pageOfSorted(data, { page, limit, cursor }, ordering);
   }
 
   // Domain-specific methods
@@ -225,12 +902,11 @@ class JsonDatabase {
   }
 
   async getGameWithSets(slug: string): Promise<GameWithSets | undefined> {
-    await this.delay();
+    await this.delay('getGameWithSets');
     const game = await this.getGameBySlug(slug);
     if (!game) return undefined;
 
-    const allSets = await this.loadCollection<CardSet>('sets');
-    const sets = allSets.filter((s) => s.gameId === game.id);
+    const sets = await this.lookupByField<CardSet>('sets', 'gameId', game.id);
 
     return { ...game, sets };
   }
@@ -247,43 +923,45 @@ class JsonDatabase {
   async getSetWithCards(
     slug: string,
     page = 1,
-    limit = 20
+    limit = 20,
+    cursor?: string
   ): Promise<SetWithCards | undefined> {
-    await this.delay();
+    await this.delay('getSetWithCards');
     const set = await this.getSetBySlug(slug);
     if (!set) return undefined;
 
-    const games = await this.loadCollection<Game>('games');
-    const game = games.find((g) => g.id === set.gameId);
+    const game = await this.lookupById<Game>('games', set.gameId);
     if (!game) return undefined;
 
-    const allCards = await this.loadCollection<Card>('cards');
-    const setCards = allCards.filter((c) => c.setId === set.id);
-    const total = setCards.length;
-    const start = (page - 1) * limit;
-    const cards = setCards.slice(start, start + limit);
+    const setCards = await this.lookupByField<Card>('cards', 'setId', set.id);
+    const { items: cards, total, totalPages, nextCursor } = pageOfSorted(
+      setCards,
+      { page, limit, cursor },
+      this.withPositions(catalogueOrdering('cards'))
+    );
 
-    return { ...set, cards, game, total, totalPages: Math.ceil(total / limit) };
+    return { ...set, cards, game, total, totalPages, nextCursor };
   }
 
-  async searchCards(params: CardSearchParams): Promise<PaginatedResponse<Card>> {
-    await this.delay();
-    const { game, set, rarity, q, page = 1, limit = 20, sort, order = 'asc' } = params;
+  // Cards matching the filters of `params` in catalogue order, with the
+  // full-text scores they matched by when sorting by relevance
+  private async filterCards(
+    params: CardSearchParams
+  ): Promise<{ cards: Card[]; relevance?: Map<string, number> }> {
+    const { game, set, rarity, type, q, sort } = params;
 
     let cards = await this.loadCollection<Card>('cards');
 
     // Apply filters
     if (game) {
-      const games = await this.loadCollection<Game>('games');
-      const gameObj = games.find((g) => g.slug === game);
+      const gameObj = await this.lookupBySlug<Game>('games', game);
       if (gameObj) {
-        cards = cards.filter((c) => c.gameId === gameObj.id);
+        cards = await this.lookupByField<Card>('cards', 'gameId', gameObj.id);
       }
     }
 
     if (set) {
-      const sets = await this.loadCollection<CardSet>('sets');
-      const setObj = sets.find((s) => s.slug === set);
+      const setObj = await this.lookupBySlug<CardSet>('sets', set);
       if (setObj) {
         cards = cards.filter((c) => c.setId === setObj.id);
       }
@@ -293,24 +971,30 @@ class JsonDatabase {
       cards = cards.filter((c) => c.rarity === rarity);
     }
 
-    if (q) {
+    if (type) {
+      cards = cards.filter((c) => c.type === type);
+    }
+
+    if (params.attributes?.length) {
+      const filters = params.attributes;
+      cards = cards.filter((c) => matchesAttributes(c.attributes, filters));
+    }
+
+    // Relevance ranking matches through the full-text index instead
+    let relevance: Map<string, number> | undefined;
+    if (q && sort === 'relevance') {
+      relevance = (await this.getSearchIndex()).search(q);
+      cards = cards.filter((c) => relevance!.has(c.id));
+    } else if (q) {
       cards = this.applyTextSearch(cards, q, ['name', 'type', 'rarity']);
     }
 
     // Apply price filters if needed (requires joining with listings)
     if (params.minPrice !== undefined || params.maxPrice !== undefined) {
-      const listings = await this.loadCollection<Listing>('listings');
-      const cardPrices = new Map<string, number>();
-
-      for (const listing of listings) {
-        const existing = cardPrices.get(listing.cardId);
-        if (existing === undefined || listing.price < existing) {
-          cardPrices.set(listing.cardId, listing.price);
-        }
-      }
+      const { byCard } = await this.getListingStats();
 
       cards = cards.filter((card) => {
-        const price = cardPrices.get(card.id);
+        const price = byCard.get(card.id)?.lowestPrice;
         if (price === undefined) return false;
         if (params.minPrice !== undefined && price < params.minPrice) return false;
         if (params.maxPrice !== undefined && price > params.maxPrice) return false;
@@ -318,37 +1002,53 @@ class JsonDatabase {
       });
     }
 
+    return { cards, relevance };
+  }
+
+  async searchCards(params: CardSearchParams): Promise<CardSearchResponse> {
+    await this.delay('searchCards');
+    const { page = 1, limit = 20, cursor, sort, order = 'asc' } = params;
+
+    const filtered = await this.filterCards(params);
+    const { relevance } = filtered;
+    let cards = filtered.cards;
+
+    // Facets count every match, before the page is cut
+    const counter = params.facets ? new FacetCounter() : undefined;
+    if (counter) {
+      const { byCard } = await this.getListingStats();
+      for (const card of cards) counter.add(card, byCard.get(card.id)?.lowestPrice);
+    }
+
     // Apply sorting
+    let ordering = this.withPositions<Card>(catalogueOrdering('cards'));
     if (sort === 'name') {
       cards = this.applySort(cards, { field: 'name', order });
+      ordering = this.withPositions(
+        fieldOrdering<Card>('cards', { field: 'name', order }),
+        (c) => c.name ?? null
+      );
     } else if (sort === 'price') {
       // Sort by lowest listing price
-      const listings = await this.loadCollection<Listing>('listings');
-      const cardPrices = new Map<string, number>();
-      for (const listing of listings) {
-        const existing = cardPrices.get(listing.cardId);
-        if (existing === undefined || listing.price < existing) {
-          cardPrices.set(listing.cardId, listing.price);
-        }
-      }
+      const { byCard } = await this.getListingStats();
       cards = [...cards].sort((a, b) => {
-        const priceA = cardPrices.get(a.id) ?? Infinity;
-        const priceB = cardPrices.get(b.id) ?? Infinity;
+        const priceA = byCard.get(a.id)?.lowestPrice ?? Infinity;
+        const priceB = byCard.get(b.id)?.lowestPrice ?? Infinity;
         return order === 'asc' ? priceA - priceB : priceB - priceA;
       });
+      ordering = this.withPositions(
+        priceOrdering(order),
+        (c) => byCard.get(c.id)?.lowestPrice ?? null
+      );
+    } else if (relevance) {
+      // Best match first whatever the order, ties in catalogue order
+      cards = [...cards].sort((a, b) => relevance.get(b.id)! - relevance.get(a.id)!);
+      ordering = this.withPositions(RELEVANCE_ORDERING, (c) => relevance.get(c.id)!);
     }
 
-    const total = cards.length;
-    const start = (page - 1) * limit;
-    const items = cards.slice(start, start + limit);
-
-    return {
-      items,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
+    const result: CardSearchResponse = pageOfSorted(cards, { page, limit, cursor }, ordering);
+    if (counter) result.facets = counter.result();
+    return result;
   }
 
   async getCardById(id: string): Promise<Card | undefined> {
@@ -356,12 +1056,11 @@ class JsonDatabase {
   }
 
   async getCardWithListings(id: string): Promise<CardWithListings | undefined> {
-    await this.delay();
+    await this.delay('getCardWithListings');
     const card = await this.getCardById(id);
     if (!card) return undefined;
 
-    const allListings = await this.loadCollection<Listing>('listings');
-    const listings = allListings.filter((l) => l.cardId === id);
+    const listings = await this.lookupByField<Listing>('listings', 'cardId', id);
 
     const lowestPrice = listings.length > 0
       ? Math.min(...listings.map((l) => l.price))
@@ -375,15 +1074,22 @@ class JsonDatabase {
     };
   }
 
-  async getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>> {
-    await this.delay();
-    const { cardId, sellerId, condition, minPrice, maxPrice, page = 1, limit = 20 } = params;
+  async getPriceHistory(cardId: string, params?: PriceHistoryParams): Promise<PriceHistory | undefined> {
+    await this.delay('getPriceHistory');
+    const card = await this.lookupById<Card>('cards', cardId);
+    if (!card) return undefined;
 
-    let listings = await this.loadCollection<Listing>('listings');
+    const points = await this.lookupByField<PricePoint>('priceHistory', 'cardId', cardId);
+    return selectHistory(cardId, points, params);
+  }
 
-    if (cardId) {
-      listings = listings.filter((l) => l.cardId === cardId);
-    }
+  // Listings matching the filters of `params`, in catalogue order
+  private async filterListings(params: ListingSearchParams): Promise<Listing[]> {
+    const { cardId, sellerId, condition, minPrice, maxPrice } = params;
+
+    let listings = cardId
+      ? await this.lookupByField<Listing>('listings', 'cardId', cardId)
+      : await this.loadCollection<Listing>('listings');
 
     if (sellerId) {
       listings = listings.filter((l) => l.sellerId === sellerId);
@@ -401,20 +1107,32 @@ class JsonDatabase {
       listings = listings.filter((l) => l.price <= maxPrice);
     }
 
+    return listings;
+  }
+
+  async getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>> {
+    await this.delay('getListings');
+    const { page = 1, limit = 20, cursor } = params;
+
     // Sort by price ascending by default
-    listings = this.applySort(listings, { field: 'price', order: 'asc' });
+    const sort: SortOptions<Listing> = { field: 'price', order: 'asc' };
+    const listings = this.applySort(await this.filterListings(params), sort);
 
-    const total = listings.length;
-    const start = (page - 1) * limit;
-    const items = listings.slice(start, start + limit);
+    const ordering = this.withPositions<Listing>(fieldOrdering('listings', sort), (l) => l.price);
+    return pageOfSorted(listings, { page, limit, cursor }, ordering);
+  }
 
-    return {
-      items,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
+  async *exportCards(params: CardSearchParams): AsyncGenerator<Card> {
+    await this.delay('exportCards');
+    const { cards } = await this.filterCards(cardFilters(params));
+    yield* cards;
+  }
+
+  async *exportListings(params: ListingSearchParams): AsyncGenerator<Listing> {
+    await this.delay('exportListings');
+    // Copied, as writes during the export change the arrays filterListings may
+    // return in place; the copy only holds references to records in memory
+    yield* [...(await this.filterListings(params))];
   }
 
   async getListingById(id: string): Promise<Listing | undefined> {
@@ -422,14 +1140,12 @@ class JsonDatabase {
   }
 
   async getListingWithDetails(id: string): Promise<ListingWithDetails | undefined> {
-    await this.delay();
+    await this.delay('getListingWithDetails');
     const listing = await this.getListingById(id);
     if (!listing) return undefined;
 
-    const cards = await this.loadCollection<Card>('cards');
-    const sellers = await this.loadCollection<Seller>('sellers');
-    const card = cards.find((c) => c.id === listing.cardId);
-    const seller = sellers.find((s) => s.id === listing.sellerId);
+    const card = await this.lookupById<Card>('cards', listing.cardId);
+    const seller = await this.lookupById<Seller>('sellers', listing.sellerId);
 
     if (!card || !seller) return undefined;
 
@@ -447,23 +1163,25 @@ class JsonDatabase {
   async getSellerWithListings(
     slug: string,
     page = 1,
-    limit = 20
+    limit = 20,
+    cursor?: string
   ): Promise<SellerWithListings | undefined> {
-    await this.delay();
+    await this.delay('getSellerWithListings');
     const seller = await this.getSellerBySlug(slug);
     if (!seller) return undefined;
 
-    const allListings = await this.loadCollection<Listing>('listings');
-    const sellerListings = allListings.filter((l) => l.sellerId === seller.id);
-    const total = sellerListings.length;
-    const start = (page - 1) * limit;
-    const listings = sellerListings.slice(start, start + limit);
+    const sellerListings = await this.lookupByField<Listing>('listings', 'sellerId', seller.id);
+    const { items: listings, total, totalPages, nextCursor } = pageOfSorted(
+      sellerListings,
+      { page, limit, cursor },
+      this.withPositions(catalogueOrdering('listings'))
+    );
 
-    return { ...seller, listings, total, totalPages: Math.ceil(total / limit) };
+    return { ...seller, listings, total, totalPages, nextCursor };
   }
 
   async getFeatured(): Promise<Featured | null> {
-    await this.delay();
+    await this.delay('getFeatured');
     const data = await this.loadCollection<Featured>('featured');
     // Featured is stored as an array with one item or as the object directly
     if (Array.isArray(data)) {
@@ -474,7 +1192,7 @@ class JsonDatabase {
 
   // Special method for featured that loads the file differently
   async getFeaturedContent(): Promise<Featured | null> {
-    await this.delay();
+    await this.delay('getFeaturedContent');
     const filePath = path.join(this.dataDir, 'featured.json');
     if (!fs.existsSync(filePath)) {
       return null;
@@ -489,17 +1207,19 @@ class JsonDatabase {
   }
 
   async getTrendingCards(limit = 10): Promise<Card[]> {
-    await this.delay();
-    const featured = await this.getFeatured();
-    if (!featured) return [];
+    await this.delay('getTrendingCards');
+    const ids = trendingIds(await this.getTrendingRanking(), await this.getFeatured(), limit);
 
-    const trendingIds = featured.trendingCards.slice(0, limit);
-    const cards = await this.loadCollection<Card>('cards');
-    return cards.filter((c) => trendingIds.includes(c.id));
+    const cards: Card[] = [];
+    for (const id of ids) {
+      const card = await this.lookupById<Card>('cards', id);
+      if (card) cards.push(card);
+    }
+    return cards;
   }
 
   async getNewReleaseSets(limit = 5): Promise<CardSet[]> {
-    await this.delay();
+    await this.delay('getNewReleaseSets');
     const featured = await this.getFeatured();
     if (!featured) return [];
 
@@ -507,10 +1227,219 @@ class JsonDatabase {
     const sets = await this.loadCollection<CardSet>('sets');
     return sets.filter((s) => releaseIds.includes(s.id));
   }
+
+  // Cart sessions, kept in memory for the lifetime of the process
+  async getCartWithDetails(cartId: string): Promise<CartWithDetails> {
+    await this.delay('getCartWithDetails');
+    return resolveCart(this.carts.get(cartId), (id) => this.getListingWithDetails(id));
+  }
+
+  async addToCart(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    await this.delay('addToCart');
+    const listing = await this.getListingById(listingId);
+    if (!listing) return undefined;
+
+    let cart = this.carts.get(cartId);
+    if (!cart) {
+      cart = { items: [], updatedAt: new Date().toISOString() };
+      this.carts.set(cartId, cart);
+    }
+    addCartItem(cart, listingId, quantity);
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async updateCartItem(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    await this.delay('updateCartItem');
+    const cart = this.carts.get(cartId);
+    if (!cart || !setCartItemQuantity(cart, listingId, quantity)) return undefined;
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async removeFromCart(cartId: string, listingId?: string): Promise<CartWithDetails> {
+    await this.delay('removeFromCart');
+    const cart = this.carts.get(cartId);
+    if (cart && listingId) {
+      removeCartItem(cart, listingId);
+    } else if (cart) {
+      this.carts.delete(cartId);
+    }
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async getSellerListingCounts(): Promise<Map<string, number>> {
+    await this.delay('getSellerListingCounts');
+    const { bySeller } = await this.getListingStats();
+    return new Map(bySeller);
+  }
+
+  // Listing writes. Each keeps indexes and derived listing stats consistent.
+  async createListing(input: ListingInput): Promise<Listing> {
+    return this.listingWrites.run(async () => {
+      await this.delay('createListing');
+      const listings = await this.loadCollection<Listing>('listings');
+      const listing = this.insertListing(listings, { id: `listing-${randomUUID()}`, ...input });
+      const logged = this.log({ op: 'createListing', listing });
+      if (this.listingStats) {
+        const { bySeller } = this.listingStats;
+        bySeller.set(listing.sellerId, (bySeller.get(listing.sellerId) || 0) + 1);
+        await this.refreshCardStats(listing.cardId);
+      }
+
+      await logged;
+      return listing;
+    });
+  }
+
+  async updateListing(id: string, update: ListingUpdate): Promise<Listing | undefined> {
+    return this.listingWrites.run(() =>
+      this.listingLocks.withLocks([id], async () => {
+        await this.delay('updateListing');
+        const listing = await this.lookupById<Listing>('listings', id);
+        if (!listing) return undefined;
+
+        Object.assign(listing, update);
+        const logged = this.log({ op: 'updateListing', id, update });
+        if (update.price !== undefined) {
+          await this.refreshCardStats(listing.cardId);
+        }
+
+        await logged;
+        return listing;
+      })
+    );
+  }
+
+  async deleteListing(id: string): Promise<boolean> {
+    return this.listingWrites.run(() =>
+      this.listingLocks.withLocks([id], async () => {
+        await this.delay('deleteListing');
+        const listings = await this.loadCollection<Listing>('listings');
+        const listing = await this.lookupById<Listing>('listings', id);
+        if (!listing) return false;
+
+        this.removeListing(listings, listing);
+        const logged = this.log({ op: 'deleteListing', id });
+        if (this.listingStats) {
+          const { bySeller } = this.listingStats;
+          const count = (bySeller.get(listing.sellerId) || 1) - 1;
+          if (count > 0) {
+            bySeller.set(listing.sellerId, count);
+          } else {
+            bySeller.delete(listing.sellerId);
+          }
+          await this.refreshCardStats(listing.cardId);
+        }
+
+        await logged;
+        return true;
+      })
+    );
+  }
+
+  // Checkout: reserves listing quantity under per-listing locks so concurrent
+  // orders for the same listing cannot oversell it. The cart is taken out
+  // before anything awaits, so a second checkout of it finds it empty, and is
+  // put back unless the order goes through.
+  async checkout(cartId: string): Promise<CheckoutResult> {
+    const cart = this.carts.get(cartId);
+    if (!cart || cart.items.length === 0) {
+      return { ok: false, reason: 'empty_cart' };
+    }
+    this.carts.delete(cartId);
+
+    let result: CheckoutResult | undefined;
+    try {
+      result = await this.reserve(cart.items.map((item) => ({ ...item })));
+      return result;
+    } finally {
+      if (!result?.ok && !this.carts.has(cartId)) this.carts.set(cartId, cart);
+    }
+  }
+
+  private reserve(items: CartItem[]): Promise<CheckoutResult> {
+    return this.listingWrites.run(() =>
+      this.listingLocks.withLocks(
+        items.map((item) => item.listingId),
+        async () => {
+          await this.delay('checkout');
+
+          const conflicts: StockConflict[] = [];
+          const reserved: { listing: Listing; quantity: number }[] = [];
+          for (const item of items) {
+            const listing = await this.lookupById<Listing>('listings', item.listingId);
+            const available = listing?.quantity ?? 0;
+            if (!listing || available < item.quantity) {
+              conflicts.push({ listingId: item.listingId, requested: item.quantity, available });
+            } else {
+              reserved.push({ listing, quantity: item.quantity });
+            }
+          }
+
+          if (conflicts.length > 0) {
+            return { ok: false, reason: 'insufficient_stock', conflicts };
+          }
+
+          for (const { listing, quantity } of reserved) {
+            listing.quantity -= quantity;
+          }
+          const order = createOrder(formatOrderId(++this.orderSeq), reserved);
+          this.recordOrder(order);
+          await this.log({
+            op: 'checkout',
+            order,
+            remaining: reserved.map(({ listing }) => ({
+              listingId: listing.id,
+              quantity: listing.quantity,
+            })),
+          });
+
+          return { ok: true, order };
+        }
+      )
+    );
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    await this.delay('getOrder');
+    return this.orders.get(id);
+  }
 }
 
-// Export singleton instance
-export const db = new JsonDatabase();
+function createDataStore(): DataStore {
+  const backend = process.env.DB_BACKEND || 'json';
+  switch (backend) {
+    case 'json':
+      return new JsonDatabase();
+    case 'sqlite':
+      return new SqliteStore();
+    case 'ndjson':
+      return new NdjsonStore();
+    case 'shared':
+      return new SharedStore();
+    default:
+      throw new Error(`Unknown DB_BACKEND "${backend}": expected json, sqlite, ndjson or shared`);
+  }
+}
+
+// Export singleton instance. Next.js bundles instrumentation and route handlers
+// separately, so the instance lives on globalThis: initialize() then warms the
+// copy the routes use, and the write-ahead log has a single writer.
+const DB_KEY = Symbol.for('node-caged.db');
+
+type GlobalWithDb = typeof globalThis & { [DB_KEY]?: DataStore };
+
+export const db = ((globalThis as GlobalWithDb)[DB_KEY] ??= createDataStore());
 
 // Export class for custom instances
 export { JsonDatabase };
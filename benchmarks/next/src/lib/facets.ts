@@ -0,0 +1,58 @@
+/**
+ * Card Search Facets
+ *
+ * Counts the cards matching a search per game, set, rarity and type, and per
+ * bucket of lowest listing price, so the client can show how many results each
+ * filter value leaves. Every backend feeds its full match set through
+ * `FacetCounter`, which keeps the counting and ordering rules in one place.
+ */
+
+import type { Card, CardFacets, FacetCount } from './types';
+
+// Lower bounds of the price buckets; the last one is open-ended
+export const PRICE_BUCKETS = [0, 1, 5, 10, 25, 50, 100, 250];
+
+type FacetField = 'gameId' | 'setId' | 'rarity' | 'type';
+
+const FACET_FIELDS: FacetField[] = ['gameId', 'setId', 'rarity', 'type'];
+
+// Most frequent first, ties by value so the order is stable across backends
+function toFacetCounts(counts: Map<string, number>): FacetCount[] {
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+}
+
+export class FacetCounter {
+  private counts = new Map<FacetField, Map<string, number>>(
+    FACET_FIELDS.map((field) => [field, new Map()])
+  );
+  private priceCounts = new Array<number>(PRICE_BUCKETS.length).fill(0);
+
+  /** Counts one matching card; cards without listings have no price bucket */
+  add(card: Pick<Card, FacetField>, lowestPrice: number | undefined): void {
+    for (const field of FACET_FIELDS) {
+      const values = this.counts.get(field)!;
+      values.set(card[field], (values.get(card[field]) || 0) + 1);
+    }
+    if (lowestPrice === undefined) return;
+
+    let bucket = PRICE_BUCKETS.length - 1;
+    while (bucket > 0 && lowestPrice < PRICE_BUCKETS[bucket]) bucket--;
+    this.priceCounts[bucket]++;
+  }
+
+  result(): CardFacets {
+    return {
+      gameId: toFacetCounts(this.counts.get('gameId')!),
+      setId: toFacetCounts(this.counts.get('setId')!),
+      rarity: toFacetCounts(this.counts.get('rarity')!),
+      type: toFacetCounts(this.counts.get('type')!),
+      price: PRICE_BUCKETS.map((min, i) => ({
+        min,
+        ...(i + 1 < PRICE_BUCKETS.length ? { max: PRICE_BUCKETS[i + 1] } : {}),
+        count: this.priceCounts[i],
+      })),
+    };
+  }
+}
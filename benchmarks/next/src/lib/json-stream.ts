@@ -0,0 +1,168 @@
+/**
+ * Streaming JSON Collection Reader
+ *
+ * Reads the *.json collections without holding a whole file in the heap.
+ * `readFile` + `JSON.parse` keeps the file's string alive until the object
+ * graph is complete, so a collection briefly costs its text plus its records.
+ * Here the file is read in chunks and each element of the top-level array is
+ * parsed as soon as its closing bracket arrives, so at most one chunk and one
+ * record's text are held next to the records built so far.
+ *
+ * The scanner only tracks strings and bracket depth to find where elements
+ * end; each element's text is then handed to `JSON.parse`, which does the
+ * validation. Elements must be objects or arrays, as every collection's are.
+ * A file whose top-level value is not an array (featured.json may hold a
+ * single object) is parsed whole once it has been read.
+ *
+ * Environment variables:
+ * - DB_JSON_STREAMING: Parse collections incrementally, on|off (default: on).
+ *   With off, files are read whole and parsed with one JSON.parse.
+ */
+
+import * as fs from 'fs';
+import { samplePeakHeap } from './telemetry';
+
+const CHUNK_SIZE = 256 * 1024;
+
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COMMA = 0x2c; // ,
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+function streamingEnabled(): boolean {
+  return process.env.DB_JSON_STREAMING !== 'off';
+}
+
+class JsonStreamError extends Error {
+  constructor(filePath: string, message: string) {
+    super(`${filePath}: ${message}`);
+    this.name = 'JsonStreamError';
+  }
+}
+
+/**
+ * The records of a JSON file: each element of a top-level array as it is
+ * read, or the top-level value itself when it is not an array. Returns
+ * whether the file held an array.
+ */
+export async function* readJsonRecords<T>(filePath: string): AsyncGenerator<T, boolean> {
+  if (!streamingEnabled()) {
+    const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    samplePeakHeap();
+    if (!Array.isArray(parsed)) {
+      yield parsed as T;
+      return false;
+    }
+    yield* parsed as T[];
+    return true;
+  }
+
+  const input = fs.createReadStream(filePath, { encoding: 'utf-8', highWaterMark: CHUNK_SIZE });
+  // Text of a value that is not an array, or of an element begun in an earlier chunk
+  let pending = '';
+  let isArray: boolean | undefined;
+  let closed = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  try {
+    for await (const chunk of input as AsyncIterable<string>) {
+      if (isArray === false) {
+        pending += chunk;
+        continue;
+      }
+
+      // Start of the element in progress within this chunk, or -1 between elements
+      let start = depth > 0 ? 0 : -1;
+      for (let i = 0; i < chunk.length; i++) {
+        const code = chunk.charCodeAt(i);
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (code === BACKSLASH) escaped = true;
+          else if (code === QUOTE) inString = false;
+          continue;
+        }
+        if (isWhitespace(code)) continue;
+
+        if (isArray === undefined) {
+          isArray = code === OPEN_BRACKET;
+          if (!isArray) {
+            pending = chunk.slice(i);
+            break;
+          }
+          continue;
+        }
+        if (closed) {
+          throw new JsonStreamError(filePath, 'unexpected content after the array');
+        }
+
+        if (depth === 0) {
+          if (code === COMMA) continue;
+          if (code === CLOSE_BRACKET) {
+            closed = true;
+            continue;
+          }
+          if (code !== OPEN_BRACE && code !== OPEN_BRACKET) {
+            throw new JsonStreamError(filePath, 'array elements must be objects or arrays');
+          }
+          start = i;
+          depth = 1;
+          continue;
+        }
+
+        if (code === QUOTE) {
+          inString = true;
+        } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+          depth++;
+        } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+          depth--;
+          if (depth === 0) {
+            const text = pending + chunk.slice(start, i + 1);
+            pending = '';
+            start = -1;
+            yield JSON.parse(text) as T;
+          }
+        }
+      }
+
+      if (depth > 0) pending += chunk.slice(start);
+      samplePeakHeap();
+    }
+  } finally {
+    // Also runs when a caller stops early, so the file is not left open
+    input.destroy();
+  }
+
+  if (isArray === false) {
+    const parsed = JSON.parse(pending) as T;
+    samplePeakHeap();
+    yield parsed;
+    return false;
+  }
+  if (isArray === undefined) {
+    throw new JsonStreamError(filePath, 'no JSON value');
+  }
+  if (!closed) {
+    throw new JsonStreamError(filePath, 'unexpected end of the array');
+  }
+  return true;
+}
+
+/** The whole top-level value of a JSON file, arrays built record by record */
+export async function readJson<T>(filePath: string): Promise<T> {
+  const records: unknown[] = [];
+  const iterator = readJsonRecords<unknown>(filePath);
+  for (;;) {
+    const next = await iterator.next();
+    if (next.done) return (next.value ? records : records[0]) as T;
+    records.push(next.value);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Latency Models for the Simulated Database Delay
+ *
+ * A model is described by a spec string `<model>:<key>=<value>,...`:
+ * - fixed:ms=2
+ * - uniform:min=1,max=5
+ * - normal:mean=3,stddev=1
+ * - lognormal:median=2,sigma=0.8
+ * - histogram:file=./latency.json
+ *
+ * Histogram files are JSON arrays of `{ "ms": number, "count": number }`
+ * buckets, e.g. exported from production DB latency metrics. Each bucket covers
+ * the range above the previous bucket's `ms` up to its own `ms`, and samples are
+ * drawn proportionally to `count`.
+ *
+ * Per-method overrides are a `;`-separated list of `<method>=<spec>`, keyed by
+ * the JsonDatabase method that issues the delay, e.g.
+ * `searchCards=lognormal:median=8,sigma=0.9;findById=fixed:ms=1`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LatencyModel {
+  name: string;
+  /** Returns a delay in milliseconds */
+  sample(): number;
+}
+
+interface HistogramBucket {
+  ms: number;
+  count: number;
+}
+
+function fixed(ms: number): LatencyModel {
+  return { name: 'fixed', sample: () => ms };
+}
+
+function uniform(min: number, max: number): LatencyModel {
+  return {
+    name: 'uniform',
+    sample: () => Math.floor(Math.random() * (max - min + 1) + min),
+  };
+}
+
+// Box-Muller transform
+function standardNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function normal(mean: number, stddev: number): LatencyModel {
+  return {
+    name: 'normal',
+    sample: () => Math.max(0, mean + stddev * standardNormal()),
+  };
+}
+
+function logNormal(median: number, sigma: number): LatencyModel {
+  const mu = Math.log(median);
+  return {
+    name: 'lognormal',
+    sample: () => Math.exp(mu + sigma * standardNormal()),
+  };
+}
+
+function histogram(file: string): LatencyModel {
+  const filePath = path.resolve(process.cwd(), file);
+  const buckets = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as HistogramBucket[];
+  if (!Array.isArray(buckets) || buckets.length === 0) {
+    throw new Error(`Latency histogram ${filePath} has no buckets`);
+  }
+
+  const sorted = [...buckets].sort((a, b) => a.ms - b.ms);
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const bucket of sorted) {
+    total += bucket.count;
+    cumulative.push(total);
+  }
+
+  return {
+    name: 'histogram',
+    sample: () => {
+      const roll = Math.random() * total;
+      let i = 0;
+      while (i < cumulative.length - 1 && cumulative[i] <= roll) i++;
+      const low = i === 0 ? 0 : sorted[i - 1].ms;
+      return low + Math.random() * (sorted[i].ms - low);
+    },
+  };
+}
+
+export function parseLatencySpec(spec: string): LatencyModel {
+  const trimmed = spec.trim();
+  const colon = trimmed.indexOf(':');
+  const model = colon === -1 ? trimmed : trimmed.slice(0, colon);
+  const params = new Map<string, string>();
+  for (const pair of colon === -1 ? [] : trimmed.slice(colon + 1).split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+    params.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+  }
+
+  const num = (key: string): number => {
+    const value = Number(params.get(key));
+    if (!params.has(key) || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid latency spec "${spec}": ${key} must be a non-negative number`);
+    }
+    return value;
+  };
+
+  switch (model) {
+    case 'fixed':
+      return fixed(num('ms'));
+    case 'uniform':
+      return uniform(num('min'), num('max'));
+    case 'normal':
+      return normal(num('mean'), num('stddev'));
+    case 'lognormal':
+      return logNormal(num('median'), num('sigma'));
+    case 'histogram': {
+      const file = params.get('file');
+      if (!file) throw new Error(`Invalid latency spec "${spec}": file is required`);
+      return histogram(file);
+    }
+    default:
+      throw new Error(`Invalid latency spec "${spec}": unknown model "${model}"`);
+  }
+}
+
+export function parseLatencyOverrides(value: string): Map<string, LatencyModel> {
+  const overrides = new Map<string, LatencyModel>();
+  for (const entry of value.split(';')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      throw new Error(`Invalid latency override "${entry}": expected <method>=<spec>`);
+    }
+    overrides.set(entry.slice(0, separator).trim(), parseLatencySpec(entry.slice(separator + 1)));
+  }
+  return overrides;
+}
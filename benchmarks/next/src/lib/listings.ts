@@ -0,0 +1,103 @@
+/**
+ * Listing Write Validation
+ *
+ * Checks request bodies for the listing write API against the Listing and
+ * Condition types before they reach JsonDatabase.
+ */
+
+import type { InvalidParam } from './problem';
+import type { Condition, ListingInput, ListingUpdate } from './types';
+
+export const CONDITIONS: readonly Condition[] = [
+  'Near Mint',
+  'Lightly Played',
+  'Moderately Played',
+  'Heavily Played',
+  'Damaged',
+];
+
+// A fixed list, so writes cannot add languages without bound (SharedStore
+// keeps them in a dictionary of fixed size)
+export const LANGUAGES: readonly string[] = [
+  'English',
+  'Japanese',
+  'German',
+  'French',
+  'Italian',
+  'Spanish',
+  'Portuguese',
+  'Korean',
+  'Chinese',
+];
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: InvalidParam[] };
+
+type Body = Record<string, unknown>;
+
+function validateFields(body: Body, errors: InvalidParam[], required: boolean): ListingUpdate {
+  const update: ListingUpdate = {};
+  const check = (field: string, valid: boolean, reason: string) => {
+    if (body[field] === undefined) {
+      if (required) errors.push({ name: field, reason: 'is required' });
+      return false;
+    }
+    if (!valid) errors.push({ name: field, reason });
+    return valid;
+  };
+
+  if (check('condition', CONDITIONS.includes(body.condition as Condition), `must be one of: ${CONDITIONS.join(', ')}`)) {
+    update.condition = body.condition as Condition;
+  }
+  if (check('price', typeof body.price === 'number' && Number.isFinite(body.price) && body.price > 0, 'must be a positive number')) {
+    update.price = Math.round((body.price as number) * 100) / 100;
+  }
+  if (check('quantity', Number.isInteger(body.quantity) && (body.quantity as number) >= 0, 'must be a non-negative integer')) {
+    update.quantity = body.quantity as number;
+  }
+  if (check('language', LANGUAGES.includes(body.language as string), `must be one of: ${LANGUAGES.join(', ')}`)) {
+    update.language = body.language as string;
+  }
+  if (check('isFoil', typeof body.isFoil === 'boolean', 'must be a boolean')) {
+    update.isFoil = body.isFoil as boolean;
+  }
+
+  return update;
+}
+
+export function validateListingInput(body: unknown): ValidationResult<ListingInput> {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: [{ name: 'body', reason: 'must be a JSON object' }] };
+  }
+  const input = body as Body;
+  const errors: InvalidParam[] = [];
+
+  for (const field of ['cardId', 'sellerId']) {
+    if (typeof input[field] !== 'string' || !input[field]) errors.push({ name: field, reason: 'is required' });
+  }
+  const fields = validateFields(input, errors, true);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: { cardId: input.cardId as string, sellerId: input.sellerId as string, ...fields } as ListingInput,
+  };
+}
+
+export function validateListingUpdate(body: unknown): ValidationResult<ListingUpdate> {
+  if (!body || typeof body !== 'object') {
+    return { ok: false, errors: [{ name: 'body', reason: 'must be a JSON object' }] };
+  }
+  const input = body as Body;
+  const errors: InvalidParam[] = [];
+
+  for (const field of ['id', 'cardId', 'sellerId']) {
+    if (input[field] !== undefined) errors.push({ name: field, reason: 'cannot be changed' });
+  }
+  const update = validateFields(input, errors, false);
+  if (errors.length === 0 && Object.keys(update).length === 0) {
+    errors.push({ name: 'body', reason: 'has no updatable fields' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: update };
+}
@@ -0,0 +1,131 @@
+/**
+ * Request-Scoped Data Loader
+ *
+ * Batches `load()` calls for the same collection issued in the same tick into
+ * one `findMany`, and memoises lookups and read calls for the rest of the
+ * request, so a render that asks for the same records from several places
+ * pays one `delay()` instead of one per lookup.
+ *
+ * `getLoader()` is wrapped in React's `cache`, which scopes the loader to one
+ * server render. Outside a render (route handlers) every call returns a fresh
+ * loader, so handlers should call it once and reuse the result.
+ *
+ * Environment variables:
+ * - DB_LOADER: Batch and memoise lookups, on|off (default: on). With off,
+ *   every call goes straight to the store, so repeated lookups each pay a
+ *   `delay()`, and the card page makes the calls it made before the loader
+ *   (set and game by slug, every seller), so the two modes can be compared.
+ */
+
+import { cache } from 'react';
+import { db } from './db';
+import type { DataStore } from './store';
+
+// Read methods whose results can be memoised by their arguments
+type MemoisedMethod =
+  | 'getGames'
+  | 'getGameBySlug'
+  | 'getGameWithSets'
+  | 'getSets'
+  | 'getSetBySlug'
+  | 'getSetWithCards'
+  | 'searchCards'
+  | 'getCardById'
+  | 'getCardWithListings'
+  | 'getPriceHistory'
+  | 'getListings'
+  | 'getListingById'
+  | 'getListingWithDetails'
+  | 'getSellers'
+  | 'getSellerBySlug'
+  | 'getSellerWithListings'
+  | 'getSellerListingCounts'
+  | 'getFeatured'
+  | 'getTrendingCards'
+  | 'getNewReleaseSets';
+
+interface PendingLoad {
+  resolve: (item: unknown) => void;
+  reject: (err: unknown) => void;
+}
+
+export class DataLoader {
+  private memo = new Map<string, Promise<unknown>>();
+  private batches = new Map<string, Map<string, PendingLoad>>();
+
+  constructor(
+    private store: DataStore,
+    readonly enabled: boolean
+  ) {}
+
+  load<T extends { id: string }>(collection: string, id: string): Promise<T | undefined> {
+    if (!this.enabled) return this.store.findById<T>(collection, id);
+
+    const key = `${collection}\0${id}`;
+    let promise = this.memo.get(key);
+    if (!promise) {
+      promise = this.enqueue(collection, id);
+      this.memo.set(key, promise);
+    }
+    return promise as Promise<T | undefined>;
+  }
+
+  /** Records in `ids` order, skipping ids that do not resolve */
+  async loadMany<T extends { id: string }>(collection: string, ids: string[]): Promise<T[]> {
+    if (!this.enabled) return this.store.findMany<T>(collection, ids);
+
+    const items = await Promise.all([...new Set(ids)].map((id) => this.load<T>(collection, id)));
+    return items.filter((item): item is Awaited<T> => item !== undefined);
+  }
+
+  call<K extends MemoisedMethod>(method: K, ...args: Parameters<DataStore[K]>): ReturnType<DataStore[K]> {
+    const fn = this.store[method] as (...params: unknown[]) => Promise<unknown>;
+    if (!this.enabled) return fn.apply(this.store, args) as ReturnType<DataStore[K]>;
+
+    const key = `${method}\0${JSON.stringify(args)}`;
+    let promise = this.memo.get(key);
+    if (!promise) {
+      promise = fn.apply(this.store, args);
+      // Failed calls are retried by the next caller rather than memoised
+      promise.catch(() => this.memo.delete(key));
+      this.memo.set(key, promise);
+    }
+    return promise as ReturnType<DataStore[K]>;
+  }
+
+  private enqueue(collection: string, id: string): Promise<unknown> {
+    let batch = this.batches.get(collection);
+    if (!batch) {
+      batch = new Map();
+      this.batches.set(collection, batch);
+      // Dispatch once the current promise jobs have run, so loads issued after
+      // sibling awaits resolve in the same tick still join this batch
+      Promise.resolve().then(() => process.nextTick(() => this.dispatch(collection)));
+    }
+
+    const pending = batch;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+    });
+  }
+
+  private async dispatch(collection: string): Promise<void> {
+    const batch = this.batches.get(collection)!;
+    this.batches.delete(collection);
+
+    try {
+      const items = await this.store.findMany<{ id: string }>(collection, [...batch.keys()]);
+      const byId = new Map(items.map((item) => [item.id, item]));
+      for (const [id, { resolve }] of batch) resolve(byId.get(id));
+    } catch (err) {
+      for (const [id, { reject }] of batch) {
+        this.memo.delete(`${collection}\0${id}`);
+        reject(err);
+      }
+    }
+  }
+}
+
+export const getLoader = cache(
+  () => new DataLoader(db, process.env.DB_LOADER !== 'off')
+);
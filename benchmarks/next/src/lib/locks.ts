@@ -0,0 +1,105 @@
+/**
+ * Locks
+ *
+ * KeyedMutex serialises async critical sections per key (e.g. per listing id)
+ * within one thread. Multiple keys are always acquired in sorted order so
+ * overlapping lock sets cannot deadlock.
+ *
+ * OperationGate lets async operations overlap freely, except with an exclusive
+ * section, which waits for the operations in flight and holds new ones back.
+ *
+ * SharedMutex serialises synchronous critical sections across worker threads
+ * through a word of shared memory.
+ */
+
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  private async lock(key: string): Promise<() => void> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    return () => {
+      release();
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    };
+  }
+
+  async withLocks<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const sorted = [...new Set(keys)].sort();
+    const releases: (() => void)[] = [];
+    try {
+      for (const key of sorted) {
+        releases.push(await this.lock(key));
+      }
+      return await fn();
+    } finally {
+      for (const release of releases.reverse()) release();
+    }
+  }
+}
+
+export class OperationGate {
+  private active = 0;
+  // Set while an exclusive section waits or runs
+  private closed?: Promise<void>;
+  private drained?: () => void;
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    while (this.closed) await this.closed;
+    this.active++;
+    try {
+      return await fn();
+    } finally {
+      if (--this.active === 0) this.drained?.();
+    }
+  }
+
+  async exclusive<T>(fn: () => T): Promise<T> {
+    while (this.closed) await this.closed;
+    let open!: () => void;
+    this.closed = new Promise<void>((resolve) => {
+      open = resolve;
+    });
+    try {
+      if (this.active > 0) {
+        await new Promise<void>((resolve) => {
+          this.drained = resolve;
+        });
+      }
+      return fn();
+    } finally {
+      this.drained = undefined;
+      this.closed = undefined;
+      open();
+    }
+  }
+}
+
+export class SharedMutex {
+  /** `state[index]` is the lock word: 0 when free, 1 when held */
+  constructor(
+    private state: Int32Array,
+    private index = 0
+  ) {}
+
+  // The section must not await: the lock belongs to the thread, and another
+  // task on the same thread would deadlock waiting for it
+  withLock<T>(fn: () => T): T {
+    while (Atomics.compareExchange(this.state, this.index, 0, 1) !== 0) {
+      Atomics.wait(this.state, this.index, 1);
+    }
+    try {
+      return fn();
+    } finally {
+      Atomics.store(this.state, this.index, 0);
+      Atomics.notify(this.state, this.index, 1);
+    }
+  }
+}
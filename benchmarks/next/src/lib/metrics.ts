@@ -0,0 +1,209 @@
+/**
+ * Prometheus Metrics
+ *
+ * Per-route request duration histograms, data store call counts, response
+ * cache counters and V8 heap gauges, rendered in the Prometheus text exposition
+ * format on /metrics. This works the same whether the app runs under
+ * `next start` or Watt.
+ */
+
+import * as v8 from 'v8';
+import { isPointerCompressionEnabled } from './telemetry';
+
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricsState {
+  requests: Map<string, HistogramSeries>;
+  dbCalls: Map<string, number>;
+  cacheLookups: Map<string, number>;
+  notModified: number;
+  cacheSize?: () => number;
+}
+
+// Shared across the separately bundled copies of this module (see telemetry.ts)
+const STATE_KEY = Symbol.for('node-caged.metrics');
+
+type GlobalWithMetrics = typeof globalThis & { [STATE_KEY]?: MetricsState };
+
+function getState(): MetricsState {
+  const global = globalThis as GlobalWithMetrics;
+  if (!global[STATE_KEY]) {
+    global[STATE_KEY] = {
+      requests: new Map(),
+      dbCalls: new Map(),
+      cacheLookups: new Map(),
+      notModified: 0,
+    };
+  }
+  return global[STATE_KEY];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+export function observeRequest(
+  route: string,
+  method: string,
+  status: number,
+  seconds: number
+): void {
+  const key = JSON.stringify([route, method, String(status)]);
+  const { requests } = getState();
+  let series = requests.get(key);
+  if (!series) {
+    series = { buckets: new Array(DURATION_BUCKETS.length).fill(0), sum: 0, count: 0 };
+    requests.set(key, series);
+  }
+  for (let i = 0; i < DURATION_BUCKETS.length; i++) {
+    if (seconds <= DURATION_BUCKETS[i]) series.buckets[i]++;
+  }
+  series.sum += seconds;
+  series.count++;
+}
+
+export function countDbCall(method: string): void {
+  const { dbCalls } = getState();
+  dbCalls.set(method, (dbCalls.get(method) || 0) + 1);
+}
+
+export function countCacheLookup(result: 'hit' | 'miss'): void {
+  const { cacheLookups } = getState();
+  cacheLookups.set(result, (cacheLookups.get(result) || 0) + 1);
+}
+
+export function countNotModified(): void {
+  getState().notModified++;
+}
+
+/** Register the source of the cache size gauge */
+export function trackCacheSize(size: () => number): void {
+  getState().cacheSize = size;
+}
+
+// notFound() and redirect() throw errors tagged with a digest; map them to the
+// status Next.js will actually send
+function statusFromError(err: unknown): number {
+  const digest = (err as { digest?: unknown } | null)?.digest;
+  if (typeof digest === 'string') {
+    if (digest.startsWith('NEXT_HTTP_ERROR_FALLBACK;')) {
+      return parseInt(digest.split(';')[1], 10) || 500;
+    }
+    if (digest.startsWith('NEXT_REDIRECT')) return 307;
+  }
+  return 500;
+}
+
+/**
+ * Wrap an App Router route handler to record its duration and status.
+ */
+export function withRouteMetrics<Args extends unknown[]>(
+  route: string,
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args) => {
+    const start = performance.now();
+    const method = args[0] instanceof Request ? args[0].method : 'GET';
+    try {
+      const response = await handler(...args);
+      observeRequest(route, method, response.status, (performance.now() - start) / 1000);
+      return response;
+    } catch (err) {
+      observeRequest(route, method, statusFromError(err), (performance.now() - start) / 1000);
+      throw err;
+    }
+  };
+}
+
+/**
+ * Wrap an async page component to record its render duration and status.
+ */
+export function withPageMetrics<Props, Result>(
+  route: string,
+  page: (props: Props) => Promise<Result> | Result
+): (props: Props) => Promise<Result> {
+  return async (props: Props) => {
+    const start = performance.now();
+    try {
+      const result = await page(props);
+      observeRequest(route, 'GET', 200, (performance.now() - start) / 1000);
+      return result;
+    } catch (err) {
+      observeRequest(route, 'GET', statusFromError(err), (performance.now() - start) / 1000);
+      throw err;
+    }
+  };
+}
+
+export function renderMetrics(): string {
+  const { requests, dbCalls, cacheLookups, notModified, cacheSize } = getState();
+  const lines: string[] = [];
+
+  lines.push('# HELP http_request_duration_seconds Request duration by route and status');
+  lines.push('# TYPE http_request_duration_seconds histogram');
+  for (const [key, series] of requests) {
+    const [route, method, status] = JSON.parse(key) as string[];
+    const labels = { route, method, status };
+    for (let i = 0; i < DURATION_BUCKETS.length; i++) {
+      const bucketLabels = formatLabels({ ...labels, le: String(DURATION_BUCKETS[i]) });
+      lines.push(`http_request_duration_seconds_bucket${bucketLabels} ${series.buckets[i]}`);
+    }
+    lines.push(`http_request_duration_seconds_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`http_request_duration_seconds_sum${formatLabels(labels)} ${series.sum}`);
+    lines.push(`http_request_duration_seconds_count${formatLabels(labels)} ${series.count}`);
+  }
+
+  lines.push('# HELP db_calls_total Database calls by data store method');
+  lines.push('# TYPE db_calls_total counter');
+  for (const [method, count] of dbCalls) {
+    lines.push(`db_calls_total${formatLabels({ method })} ${count}`);
+  }
+
+  if (cacheSize) {
+    lines.push('# HELP cache_lookups_total Response cache lookups by result');
+    lines.push('# TYPE cache_lookups_total counter');
+    for (const [result, count] of cacheLookups) {
+      lines.push(`cache_lookups_total${formatLabels({ result })} ${count}`);
+    }
+    lines.push('# HELP cache_not_modified_total Responses answered with 304 Not Modified');
+    lines.push('# TYPE cache_not_modified_total counter');
+    lines.push(`cache_not_modified_total ${notModified}`);
+    lines.push('# HELP cache_size_bytes Serialised size of the response cache entries');
+    lines.push('# TYPE cache_size_bytes gauge');
+    lines.push(`cache_size_bytes ${cacheSize()}`);
+  }
+
+  const heap = v8.getHeapStatistics();
+  const gauges: [string, string, number][] = [
+    ['nodejs_heap_size_used_bytes', 'V8 used heap size', heap.used_heap_size],
+    ['nodejs_heap_size_total_bytes', 'V8 total heap size', heap.total_heap_size],
+    ['nodejs_heap_size_limit_bytes', 'V8 heap size limit', heap.heap_size_limit],
+    ['nodejs_external_memory_bytes', 'V8 external memory', heap.external_memory],
+    ['process_resident_memory_bytes', 'Resident set size', process.memoryUsage.rss()],
+    ['nodejs_pointer_compression_enabled', 'Whether the heap limit indicates pointer compression', isPointerCompressionEnabled() ? 1 : 0],
+  ];
+  for (const [name, help, value] of gauges) {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} gauge`);
+    lines.push(`${name} ${value}`);
+  }
+
+  lines.push('# HELP nodejs_heap_space_size_used_bytes V8 used size per heap space');
+  lines.push('# TYPE nodejs_heap_space_size_used_bytes gauge');
+  for (const space of v8.getHeapSpaceStatistics()) {
+    lines.push(`nodejs_heap_space_size_used_bytes${formatLabels({ space: space.space_name })} ${space.space_used_size}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
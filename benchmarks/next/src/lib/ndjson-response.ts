@@ -0,0 +1,54 @@
+/**
+ * NDJSON Export Responses
+ *
+ * Sends records as newline-delimited JSON, one record per line. Streamed
+ * responses read from the store through a ReadableStream whose `pull` only
+ * runs while the queue is below its high-water mark, so the export advances
+ * as fast as the client reads and a slow client holds back the store instead
+ * of the body piling up in the heap. Buffered responses build the whole body
+ * before sending it, as NextResponse.json does, for comparing the two.
+ */
+
+// Bytes queued ahead of the client before the stream stops pulling records
+const HIGH_WATER_MARK = 64 * 1024;
+// Lines are sent in chunks of about this many characters
+const CHUNK_SIZE = 16 * 1024;
+
+const HEADERS = { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' };
+
+export async function ndjsonResponse(
+  records: AsyncIterable<unknown>,
+  { buffered = false } = {}
+): Promise<Response> {
+  if (buffered) {
+    const lines: string[] = [];
+    for await (const record of records) lines.push(JSON.stringify(record));
+    return new Response(lines.map((line) => `${line}\n`).join(''), { headers: HEADERS });
+  }
+
+  const iterator = records[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        let chunk = '';
+        while (chunk.length < CHUNK_SIZE) {
+          const { value, done } = await iterator.next();
+          if (done) {
+            if (chunk) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+            return;
+          }
+          chunk += `${JSON.stringify(value)}\n`;
+        }
+        controller.enqueue(encoder.encode(chunk));
+      },
+      // The client went away: stop the store's iteration, closing its files
+      async cancel() {
+        await iterator.return?.();
+      },
+    },
+    new ByteLengthQueuingStrategy({ highWaterMark: HIGH_WATER_MARK })
+  );
+  return new Response(stream, { headers: HEADERS });
+}
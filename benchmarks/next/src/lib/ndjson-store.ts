@@ -0,0 +1,784 @@
+/**
+ * Line-Delimited JSON Data Store
+ *
+ * Answers every query by streaming `<collection>.ndjson` line by line and
+ * keeping only the matching records, so the heap holds result sets instead of
+ * whole collections. There are no indexes; every lookup is a scan, the way a
+ * flat-file store behaves.
+ *
+ * The files are converted from the *.json collections on first start. Listing
+ * writes are held in an in-memory overlay applied while streaming, and carts
+ * and orders live in memory, so none of them survive a restart.
+ *
+ * Environment variables:
+ * - DB_NDJSON_DIR: Directory for the *.ndjson files (default: <data dir>/ndjson)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { countDbCall } from './metrics';
+import { KeyedMutex } from './locks';
+import { invalidateCache } from './response-cache';
+import { SearchIndex } from './search-index';
+import { FacetCounter } from './facets';
+import { matchesAttributes } from './attribute-filters';
+import { readJsonRecords } from './json-stream';
+import { TrendCounter, selectHistory, trendingIds } from './price-history';
+import {
+  pageOfSorted,
+  decodeCursor,
+  encodeCursor,
+  catalogueOrdering,
+  fieldOrdering,
+  priceOrdering,
+  RELEVANCE_ORDERING,
+} from './cursor';
+import {
+  findDataDir,
+  toPage,
+  resolveCart,
+  addCartItem,
+  setCartItemQuantity,
+  removeCartItem,
+  createOrder,
+  formatOrderId,
+  matchesFilter,
+  compareBy,
+  cardFilters,
+} from './store';
+import type { DataStore, PaginationOptions, Predicate, SortOptions } from './store';
+import type { CursorKey, CursorOrdering, Ordering } from './cursor';
+import type {
+  Game,
+  CardSet,
+  Card,
+  Seller,
+  Listing,
+  ListingInput,
+  ListingUpdate,
+  Featured,
+  PaginatedResponse,
+  CardWithListings,
+  GameWithSets,
+  SetWithCards,
+  SellerWithListings,
+  ListingWithDetails,
+  Cart,
+  CartItem,
+  CartWithDetails,
+  Order,
+  StockConflict,
+  CheckoutResult,
+  CardSearchParams,
+  CardSearchResponse,
+  ListingSearchParams,
+  PriceHistory,
+  PriceHistoryParams,
+  PricePoint,
+} from './types';
+
+const COLLECTIONS = ['games', 'sets', 'cards', 'sellers', 'listings', 'priceHistory', 'featured'];
+
+// Sequence numbers of created listings start here, after every line of the file
+const CREATED_SEQ_BASE = 2 ** 40;
+
+interface Sequenced<T> {
+  items: T[];
+  sequence: Map<T, number>;
+}
+
+function listingFilter(params: ListingSearchParams): Predicate<Listing> {
+  const { cardId, sellerId, condition, minPrice, maxPrice } = params;
+  return (l) => {
+    if (cardId && l.cardId !== cardId) return false;
+    if (sellerId && l.sellerId !== sellerId) return false;
+    if (condition && l.condition !== condition) return false;
+    if (minPrice !== undefined && l.price < minPrice) return false;
+    if (maxPrice !== undefined && l.price > maxPrice) return false;
+    return true;
+  };
+}
+
+class NdjsonStore implements DataStore {
+  readonly backend = 'ndjson';
+  private dir: string;
+  private dataDir: string;
+  private carts = new Map<string, Cart>();
+  private orders = new Map<string, Order>();
+  private orderSeq = 0;
+  private listingLocks = new KeyedMutex();
+  // Listing overlay: replacements (or null for deletions) of records in the
+  // file, plus listings created since startup
+  private listingWrites = new Map<string, Listing | null>();
+  private createdListings = new Map<string, Listing>();
+  private createdSeq = new Map<string, number>();
+  private nextCreatedSeq = CREATED_SEQ_BASE;
+  private searchIndex?: Promise<SearchIndex>;
+  // Card ids ranked from the price history, which no request writes
+  private trending?: Promise<string[]>;
+  private initializing?: Promise<void>;
+
+  constructor(dataDir?: string) {
+    this.dataDir = dataDir || findDataDir();
+    this.dir = process.env.DB_NDJSON_DIR || path.join(this.dataDir, 'ndjson');
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initializing) this.initializing = this.convert();
+    return this.initializing;
+  }
+
+  // One-off conversion of each *.json collection into a .ndjson file
+  private async convert(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    for (const name of COLLECTIONS) {
+      const target = path.join(this.dir, `${name}.ndjson`);
+      if (fs.existsSync(target)) continue;
+
+      const source = path.join(this.dataDir, `${name}.json`);
+      if (!fs.existsSync(source)) {
+        console.warn(`Data file not found: ${source}`);
+        await fs.promises.writeFile(target, '');
+        continue;
+      }
+      // Records are written as they are parsed; featured.json holds a single
+      // object rather than an array, which comes through as one record
+      const tmp = `${target}.tmp`;
+      const out = fs.createWriteStream(tmp);
+      let count = 0;
+      for await (const record of readJsonRecords(source)) {
+        if (!out.write(JSON.stringify(record) + '\n')) await once(out, 'drain');
+        count++;
+      }
+      out.end();
+      await finished(out);
+      await fs.promises.rename(tmp, target);
+      console.log(`Converted ${name}.json to ${target}: ${count} records`);
+    }
+    // Ranked in the background from startup, so the first trending request
+    // does not wait for a scan of the price history; the scan waits for
+    // convert() to finish
+    this.trending = this.rankTrending();
+    this.trending.catch((err) => console.error('Ranking trending cards failed:', err));
+  }
+
+  private async *scan<T>(collection: string): AsyncGenerator<T> {
+    for await (const [record] of this.entries<T>(collection)) yield record;
+  }
+
+  // Records with their sequence numbers: the line in the file, which overlay
+  // writes keep, or for created listings their order of creation
+  private async *entries<T>(collection: string): AsyncGenerator<[T, number]> {
+    if (!COLLECTIONS.includes(collection)) {
+      throw new Error(`Unknown collection "${collection}"`);
+    }
+    await this.initialize();
+
+    const input = fs.createReadStream(path.join(this.dir, `${collection}.ndjson`), 'utf-8');
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    const overlay = collection === 'listings' ? this.listingWrites : undefined;
+    let seq = 0;
+    try {
+      for await (const line of lines) {
+        if (!line) continue;
+        const record = JSON.parse(line) as T & { id?: string };
+        const recordSeq = seq++;
+        if (overlay && record.id !== undefined && overlay.has(record.id)) {
+          const written = overlay.get(record.id);
+          if (written) yield [written as T, recordSeq];
+          continue;
+        }
+        yield [record as T, recordSeq];
+      }
+    } finally {
+      // Also runs when a caller stops early, so the file is not left open
+      lines.close();
+      input.destroy();
+    }
+
+    if (overlay) {
+      for (const listing of this.createdListings.values()) {
+        yield [listing as T, this.createdSeq.get(listing.id)!];
+      }
+    }
+  }
+
+  private async collect<T>(collection: string, predicate: Predicate<T> = () => true): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.scan<T>(collection)) {
+      if (predicate(item)) items.push(item);
+    }
+    return items;
+  }
+
+  private async first<T>(collection: string, predicate: Predicate<T>): Promise<T | undefined> {
+    for await (const item of this.scan<T>(collection)) {
+      if (predicate(item)) return item;
+    }
+    return undefined;
+  }
+
+  private async collectSequenced<T>(
+    collection: string,
+    predicate: Predicate<T>
+  ): Promise<Sequenced<T>> {
+    const items: T[] = [];
+    const sequence = new Map<T, number>();
+    for await (const [item, seq] of this.entries<T>(collection)) {
+      if (!predicate(item)) continue;
+      items.push(item);
+      sequence.set(item, seq);
+    }
+    return { items, sequence };
+  }
+
+  // `ordering` over collected matches, keyed by `keyOf`
+  private withPositions<T>(
+    ordering: Ordering,
+    { sequence }: Sequenced<T>,
+    keyOf: (item: T) => CursorKey = () => null
+  ): CursorOrdering<T> {
+    return { ...ordering, position: (item) => ({ key: keyOf(item), seq: sequence.get(item)! }) };
+  }
+
+  // Counts every match in catalogue order but only keeps the requested page.
+  // A cursor's position there is just a sequence number.
+  private async pageOf<T>(
+    collection: string,
+    predicate: Predicate<T>,
+    { page, limit, cursor }: { page: number; limit: number; cursor?: string }
+  ): Promise<PaginatedResponse<T>> {
+    const ordering = catalogueOrdering(collection);
+    const after = cursor === undefined ? undefined : decodeCursor(cursor, ordering.name).seq;
+    const items: T[] = [];
+    let lastSeq = 0;
+    let skipped = 0;
+    let total = 0;
+    for await (const [item, seq] of this.entries<T>(collection)) {
+      if (!predicate(item)) continue;
+      total++;
+      if (after !== undefined ? seq <= after : skipped < (page - 1) * limit) {
+        skipped++;
+      } else if (items.length < limit) {
+        items.push(item);
+        lastSeq = seq;
+      }
+    }
+
+    const pageNumber = after === undefined ? page : Math.floor(skipped / limit) + 1;
+    const result = toPage(items, total, pageNumber, limit);
+    if (items.length > 0 && skipped + items.length < total) {
+      result.nextCursor = encodeCursor(ordering.name, { key: null, seq: lastSeq });
+    }
+    return result;
+  }
+
+  private async lowestPrices(): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    for await (const listing of this.scan<Listing>('listings')) {
+      const lowest = prices.get(listing.cardId);
+      if (lowest === undefined || listing.price < lowest) prices.set(listing.cardId, listing.price);
+    }
+    return prices;
+  }
+
+  // Cards never change, so the full-text index is built once on first use
+  private getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      this.searchIndex = this.collect<Card>('cards').then((cards) => SearchIndex.build(cards));
+    }
+    return this.searchIndex;
+  }
+
+  private writeListing(listing: Listing): void {
+    if (this.createdListings.has(listing.id)) {
+      this.createdListings.set(listing.id, listing);
+    } else {
+      this.listingWrites.set(listing.id, listing);
+    }
+  }
+
+  // Generic query methods
+  async query<T>(collection: string, filter?: Partial<T>): Promise<T[]> {
+    countDbCall('query');
+    return this.collect<T>(collection, matchesFilter(filter));
+  }
+
+  async findById<T extends { id: string }>(collection: string, id: string): Promise<T | undefined> {
+    countDbCall('findById');
+    return this.first<T>(collection, (item) => item.id === id);
+  }
+
+  async findBySlug<T extends { slug: string }>(
+    collection: string,
+    slug: string
+  ): Promise<T | undefined> {
+    countDbCall('findBySlug');
+    return this.first<T>(collection, (item) => item.slug === slug);
+  }
+
+  async findMany<T extends { id: string }>(collection: string, ids: string[]): Promise<T[]> {
+    countDbCall('findMany');
+    const idSet = new Set(ids);
+    return this.collect<T>(collection, (item) => idSet.has(item.id));
+  }
+
+  async paginate<T>(
+    collection: string,
+    options: PaginationOptions<T> = {}
+  ): Promise<PaginatedResponse<T>> {
+    countDbCall('paginate');
+    const { page = 1, limit = 20, cursor, filter, sort } = options;
+    if (!sort) return this.pageOf<T>(collection, matchesFilter(filter), { page, limit, cursor });
+
+    const matches = await this.collectSequenced<T>(collection, matchesFilter(filter));
+    const ordering = this.withPositions(
+      fieldOrdering(collection, sort),
+      matches,
+      (item) => (item[sort.field] ?? null) as CursorKey
+    );
+    return pageOfSorted(matches.items.sort(compareBy(sort)), { page, limit, cursor }, ordering);
+  }
+
+  // Domain-specific methods
+  async getGames(): Promise<Game[]> {
+    return this.query<Game>('games');
+  }
+
+  async getGameBySlug(slug: string): Promise<Game | undefined> {
+    return this.findBySlug<Game>('games', slug);
+  }
+
+  async getGameWithSets(slug: string): Promise<GameWithSets | undefined> {
+    countDbCall('getGameWithSets');
+    const game = await this.getGameBySlug(slug);
+    if (!game) return undefined;
+
+    const sets = await this.collect<CardSet>('sets', (s) => s.gameId === game.id);
+    return { ...game, sets };
+  }
+
+  async getSets(gameId?: string): Promise<CardSet[]> {
+    const filter = gameId ? { gameId } : undefined;
+    return this.query<CardSet>('sets', filter as Partial<CardSet>);
+  }
+
+  async getSetBySlug(slug: string): Promise<CardSet | undefined> {
+    return this.findBySlug<CardSet>('sets', slug);
+  }
+
+  async getSetWithCards(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SetWithCards | undefined> {
+    countDbCall('getSetWithCards');
+    const set = await this.getSetBySlug(slug);
+    if (!set) return undefined;
+
+    const game = await this.first<Game>('games', (g) => g.id === set.gameId);
+    if (!game) return undefined;
+
+    const { items: cards, total, totalPages, nextCursor } = await this.pageOf<Card>(
+      'cards',
+      (c) => c.setId === set.id,
+      { page, limit, cursor }
+    );
+
+    return { ...set, cards, game, total, totalPages, nextCursor };
+  }
+
+  // The filters of `params` as a predicate, with the lowest listing prices
+  // when they are needed and the full-text scores when sorting by relevance
+  private async cardFilter(params: CardSearchParams): Promise<{
+    predicate: Predicate<Card>;
+    prices?: Map<string, number>;
+    relevance?: Map<string, number>;
+  }> {
+    const { game, set, rarity, type, q, sort } = params;
+
+    // Unknown game or set slugs leave the filter off, as in JsonDatabase
+    const gameObj = game ? await this.first<Game>('games', (g) => g.slug === game) : undefined;
+    const setObj = set ? await this.first<CardSet>('sets', (s) => s.slug === set) : undefined;
+    // Relevance ranking matches through the full-text index instead
+    const relevance = q && sort === 'relevance' ? (await this.getSearchIndex()).search(q) : undefined;
+    const needle = relevance ? undefined : q?.toLowerCase();
+    const pricing =
+      params.minPrice !== undefined || params.maxPrice !== undefined || sort === 'price' || params.facets;
+    const prices = pricing ? await this.lowestPrices() : undefined;
+
+    const predicate: Predicate<Card> = (card) => {
+      if (gameObj && card.gameId !== gameObj.id) return false;
+      if (setObj && card.setId !== setObj.id) return false;
+      if (rarity && card.rarity !== rarity) return false;
+      if (type && card.type !== type) return false;
+      if (params.attributes && !matchesAttributes(card.attributes, params.attributes)) return false;
+      if (relevance && !relevance.has(card.id)) return false;
+      if (needle) {
+        const matched = [card.name, card.type, card.rarity].some(
+          (value) => typeof value === 'string' && value.toLowerCase().includes(needle)
+        );
+        if (!matched) return false;
+      }
+      if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+        const price = prices!.get(card.id);
+        if (price === undefined) return false;
+        if (params.minPrice !== undefined && price < params.minPrice) return false;
+        if (params.maxPrice !== undefined && price > params.maxPrice) return false;
+      }
+      return true;
+    };
+
+    return { predicate, prices, relevance };
+  }
+
+  async searchCards(params: CardSearchParams): Promise<CardSearchResponse> {
+    countDbCall('searchCards');
+    const { page = 1, limit = 20, cursor, sort, order = 'asc' } = params;
+    const { predicate, prices, relevance } = await this.cardFilter(params);
+
+    if (sort !== 'name' && sort !== 'price' && !relevance && !params.facets) {
+      return this.pageOf<Card>('cards', predicate, { page, limit, cursor });
+    }
+
+    const matches = await this.collectSequenced<Card>('cards', predicate);
+    const cards = matches.items;
+    const counter = params.facets ? new FacetCounter() : undefined;
+    if (counter) {
+      for (const card of cards) counter.add(card, prices!.get(card.id));
+    }
+
+    let ordering = this.withPositions(catalogueOrdering('cards'), matches);
+    if (sort === 'name') {
+      cards.sort(compareBy<Card>({ field: 'name', order }));
+      ordering = this.withPositions(
+        fieldOrdering<Card>('cards', { field: 'name', order }),
+        matches,
+        (c) => c.name ?? null
+      );
+    } else if (relevance) {
+      // Best match first whatever the order, ties in catalogue order
+      cards.sort((a, b) => relevance.get(b.id)! - relevance.get(a.id)!);
+      ordering = this.withPositions(RELEVANCE_ORDERING, matches, (c) => relevance.get(c.id)!);
+    } else if (sort === 'price') {
+      cards.sort((a, b) => {
+        const priceA = prices!.get(a.id) ?? Infinity;
+        const priceB = prices!.get(b.id) ?? Infinity;
+        return order === 'asc' ? priceA - priceB : priceB - priceA;
+      });
+      ordering = this.withPositions(
+        priceOrdering(order),
+        matches,
+        (c) => prices!.get(c.id) ?? null
+      );
+    }
+
+    const result: CardSearchResponse = pageOfSorted(cards, { page, limit, cursor }, ordering);
+    if (counter) result.facets = counter.result();
+    return result;
+  }
+
+  async getCardById(id: string): Promise<Card | undefined> {
+    return this.findById<Card>('cards', id);
+  }
+
+  async getCardWithListings(id: string): Promise<CardWithListings | undefined> {
+    countDbCall('getCardWithListings');
+    const card = await this.getCardById(id);
+    if (!card) return undefined;
+
+    const listings = await this.collect<Listing>('listings', (l) => l.cardId === id);
+    const lowestPrice = listings.length > 0
+      ? Math.min(...listings.map((l) => l.price))
+      : undefined;
+
+    return { ...card, listings, lowestPrice, listingCount: listings.length };
+  }
+
+  async getPriceHistory(cardId: string, params?: PriceHistoryParams): Promise<PriceHistory | undefined> {
+    countDbCall('getPriceHistory');
+    const card = await this.getCardById(cardId);
+    if (!card) return undefined;
+
+    const points = await this.collect<PricePoint>('priceHistory', (p) => p.cardId === cardId);
+    return selectHistory(cardId, points, params);
+  }
+
+  async getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>> {
+    countDbCall('getListings');
+    const { page = 1, limit = 20, cursor } = params;
+
+    const matches = await this.collectSequenced<Listing>('listings', listingFilter(params));
+    const sort: SortOptions<Listing> = { field: 'price', order: 'asc' };
+    const listings = matches.items.sort(compareBy(sort));
+
+    const ordering = this.withPositions(fieldOrdering('listings', sort), matches, (l) => l.price);
+    return pageOfSorted(listings, { page, limit, cursor }, ordering);
+  }
+
+  // Streamed straight from the files, so only the record being sent is parsed
+  async *exportCards(params: CardSearchParams): AsyncGenerator<Card> {
+    countDbCall('exportCards');
+    const { predicate } = await this.cardFilter(cardFilters(params));
+    for await (const card of this.scan<Card>('cards')) {
+      if (predicate(card)) yield card;
+    }
+  }
+
+  async *exportListings(params: ListingSearchParams): AsyncGenerator<Listing> {
+    countDbCall('exportListings');
+    const predicate = listingFilter(params);
+    for await (const listing of this.scan<Listing>('listings')) {
+      if (predicate(listing)) yield listing;
+    }
+  }
+
+  async getListingById(id: string): Promise<Listing | undefined> {
+    return this.findById<Listing>('listings', id);
+  }
+
+  async getListingWithDetails(id: string): Promise<ListingWithDetails | undefined> {
+    countDbCall('getListingWithDetails');
+    const listing = await this.getListingById(id);
+    if (!listing) return undefined;
+
+    const [card, seller] = await Promise.all([
+      this.first<Card>('cards', (c) => c.id === listing.cardId),
+      this.first<Seller>('sellers', (s) => s.id === listing.sellerId),
+    ]);
+    if (!card || !seller) return undefined;
+
+    return { ...listing, card, seller };
+  }
+
+  async getSellers(): Promise<Seller[]> {
+    return this.query<Seller>('sellers');
+  }
+
+  async getSellerBySlug(slug: string): Promise<Seller | undefined> {
+    return this.findBySlug<Seller>('sellers', slug);
+  }
+
+  async getSellerWithListings(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SellerWithListings | undefined> {
+    countDbCall('getSellerWithListings');
+    const seller = await this.getSellerBySlug(slug);
+    if (!seller) return undefined;
+
+    const { items: listings, total, totalPages, nextCursor } = await this.pageOf<Listing>(
+      'listings',
+      (l) => l.sellerId === seller.id,
+      { page, limit, cursor }
+    );
+
+    return { ...seller, listings, total, totalPages, nextCursor };
+  }
+
+  async getSellerListingCounts(): Promise<Map<string, number>> {
+    countDbCall('getSellerListingCounts');
+    const counts = new Map<string, number>();
+    for await (const listing of this.scan<Listing>('listings')) {
+      counts.set(listing.sellerId, (counts.get(listing.sellerId) || 0) + 1);
+    }
+    return counts;
+  }
+
+  async getFeatured(): Promise<Featured | null> {
+    countDbCall('getFeatured');
+    return (await this.first<Featured>('featured', () => true)) || null;
+  }
+
+  // The featured file holds a single record, the same content
+  async getFeaturedContent(): Promise<Featured | null> {
+    countDbCall('getFeaturedContent');
+    return this.getFeatured();
+  }
+
+  async getTrendingCards(limit = 10): Promise<Card[]> {
+    countDbCall('getTrendingCards');
+    if (!this.trending) this.trending = this.rankTrending();
+    const ids = trendingIds(await this.trending, await this.getFeatured(), limit);
+
+    // The scan finds the cards in catalogue order
+    const idSet = new Set(ids);
+    const found = await this.collect<Card>('cards', (c) => idSet.has(c.id));
+    const cards = new Map(found.map((card) => [card.id, card]));
+    return ids.flatMap((id) => cards.get(id) || []);
+  }
+
+  private async rankTrending(): Promise<string[]> {
+    const counter = new TrendCounter();
+    for await (const point of this.scan<PricePoint>('priceHistory')) counter.addPoint(point);
+    return counter.result();
+  }
+
+  async getNewReleaseSets(limit = 5): Promise<CardSet[]> {
+    countDbCall('getNewReleaseSets');
+    const featured = await this.getFeatured();
+    if (!featured) return [];
+
+    const releaseIds = new Set(featured.newReleases.slice(0, limit));
+    return this.collect<CardSet>('sets', (s) => releaseIds.has(s.id));
+  }
+
+  // Cart sessions, kept in memory for the lifetime of the process
+  async getCartWithDetails(cartId: string): Promise<CartWithDetails> {
+    countDbCall('getCartWithDetails');
+    return resolveCart(this.carts.get(cartId), (id) => this.getListingWithDetails(id));
+  }
+
+  async addToCart(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('addToCart');
+    const listing = await this.getListingById(listingId);
+    if (!listing) return undefined;
+
+    let cart = this.carts.get(cartId);
+    if (!cart) {
+      cart = { items: [], updatedAt: new Date().toISOString() };
+      this.carts.set(cartId, cart);
+    }
+    addCartItem(cart, listingId, quantity);
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async updateCartItem(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('updateCartItem');
+    const cart = this.carts.get(cartId);
+    if (!cart || !setCartItemQuantity(cart, listingId, quantity)) return undefined;
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async removeFromCart(cartId: string, listingId?: string): Promise<CartWithDetails> {
+    countDbCall('removeFromCart');
+    const cart = this.carts.get(cartId);
+    if (cart && listingId) {
+      removeCartItem(cart, listingId);
+    } else if (cart) {
+      this.carts.delete(cartId);
+    }
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  // Listing writes, applied to the overlay
+  async createListing(input: ListingInput): Promise<Listing> {
+    countDbCall('createListing');
+    await this.initialize();
+    const listing: Listing = { id: `listing-${randomUUID()}`, ...input };
+    this.createdListings.set(listing.id, listing);
+    this.createdSeq.set(listing.id, this.nextCreatedSeq++);
+    invalidateCache();
+    return listing;
+  }
+
+  async updateListing(id: string, update: ListingUpdate): Promise<Listing | undefined> {
+    return this.listingLocks.withLocks([id], async () => {
+      countDbCall('updateListing');
+      const listing = await this.getListingById(id);
+      if (!listing) return undefined;
+
+      Object.assign(listing, update);
+      this.writeListing(listing);
+      invalidateCache();
+      return listing;
+    });
+  }
+
+  async deleteListing(id: string): Promise<boolean> {
+    return this.listingLocks.withLocks([id], async () => {
+      countDbCall('deleteListing');
+      if (this.createdListings.delete(id)) {
+        this.createdSeq.delete(id);
+        invalidateCache();
+        return true;
+      }
+
+      const listing = await this.getListingById(id);
+      if (!listing) return false;
+
+      this.listingWrites.set(id, null);
+      invalidateCache();
+      return true;
+    });
+  }
+
+  // Checkout: reserves listing quantity under per-listing locks so concurrent
+  // orders for the same listing cannot oversell it. As in JsonDatabase, the
+  // cart is taken out while the order is placed and put back if it fails.
+  async checkout(cartId: string): Promise<CheckoutResult> {
+    const cart = this.carts.get(cartId);
+    if (!cart || cart.items.length === 0) {
+      return { ok: false, reason: 'empty_cart' };
+    }
+    this.carts.delete(cartId);
+
+    let result: CheckoutResult | undefined;
+    try {
+      result = await this.reserve(cart.items.map((item) => ({ ...item })));
+      return result;
+    } finally {
+      if (!result?.ok && !this.carts.has(cartId)) this.carts.set(cartId, cart);
+    }
+  }
+
+  private reserve(items: CartItem[]): Promise<CheckoutResult> {
+    return this.listingLocks.withLocks(
+      items.map((item) => item.listingId),
+      async () => {
+        countDbCall('checkout');
+
+        const conflicts: StockConflict[] = [];
+        const reserved: { listing: Listing; quantity: number }[] = [];
+        for (const item of items) {
+          const listing = await this.getListingById(item.listingId);
+          const available = listing?.quantity ?? 0;
+          if (!listing || available < item.quantity) {
+            conflicts.push({ listingId: item.listingId, requested: item.quantity, available });
+          } else {
+            reserved.push({ listing, quantity: item.quantity });
+          }
+        }
+
+        if (conflicts.length > 0) {
+          return { ok: false, reason: 'insufficient_stock', conflicts };
+        }
+
+        for (const { listing, quantity } of reserved) {
+          listing.quantity -= quantity;
+          this.writeListing(listing);
+        }
+        const order = createOrder(formatOrderId(++this.orderSeq), reserved);
+        this.orders.set(order.id, order);
+        invalidateCache();
+
+        return { ok: true, order };
+      }
+    );
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    countDbCall('getOrder');
+    return this.orders.get(id);
+  }
+}
+
+export { NdjsonStore };
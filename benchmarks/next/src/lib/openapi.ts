@@ -0,0 +1,732 @@
+/**
+ * OpenAPI Document
+ *
+ * The OpenAPI 3.1 description of the `/api/*` routes, served at
+ * `/api/openapi.json` for generating load-test clients and contract tests.
+ * Component schemas are declared against the interfaces in types.ts:
+ * `object<T>()` takes a schema for every property of T, so adding a field to
+ * a type fails the build until the document describes it. Query parameters
+ * are named by the keys of CardSearchParams, ListingSearchParams and
+ * PriceHistoryParams and take
+ * their limits and allowed values from the parsers in query-params.ts.
+ *
+ * /api/_internal/memory and /api/_internal/reload are left out, as they are
+ * diagnostics endpoints and not part of the marketplace API.
+ */
+
+import { PARAM_PATTERN } from './attribute-filters';
+import { CART_COOKIE } from './cart';
+import type { CartItemInput } from './cart';
+import { CONDITIONS, LANGUAGES } from './listings';
+import { MAX_HISTORY_DAYS } from './price-history';
+import { PROBLEM_TYPES } from './problem';
+import type { InvalidParam } from './problem';
+import { CARD_SORTS, DEFAULT_LIMIT, MAX_LIMIT, ORDERS } from './query-params';
+import type {
+  Banner,
+  Card,
+  CardAttributes,
+  CardFacets,
+  CardSearchParams,
+  CardSearchResponse,
+  CardSet,
+  CardWithListings,
+  CartItem,
+  CartItemWithDetails,
+  CartWithDetails,
+  FacetCount,
+  FeaturedWithData,
+  Game,
+  GameWithSets,
+  Listing,
+  ListingInput,
+  ListingSearchParams,
+  ListingUpdate,
+  ListingWithDetails,
+  Order,
+  OrderLineItem,
+  PaginatedResponse,
+  PriceBucketCount,
+  PriceHistory,
+  PriceHistoryParams,
+  PricePoint,
+  Seller,
+  SellerWithListings,
+  SetWithCards,
+  StockConflict,
+} from './types';
+
+type Schema = Record<string, unknown>;
+
+// Keys of T whose value may be undefined, i.e. optional properties
+type OptionalKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? K : never }[keyof T];
+
+function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function arrayOf(items: Schema): Schema {
+  return { type: 'array', items };
+}
+
+const STRING: Schema = { type: 'string' };
+const INTEGER: Schema = { type: 'integer' };
+const NUMBER: Schema = { type: 'number' };
+const BOOLEAN: Schema = { type: 'boolean' };
+const DATE_TIME: Schema = { type: 'string', format: 'date-time' };
+const DATE: Schema = { type: 'string', format: 'date' };
+const PRICE: Schema = { type: 'number', minimum: 0 };
+const QUANTITY: Schema = { type: 'integer', minimum: 0 };
+
+/** A schema for T with a property for every key; those in `optional` may be absent */
+function object<T>(properties: { [K in keyof T]-?: Schema }, optional: OptionalKeys<T>[] = []): Schema {
+  const required = Object.keys(properties).filter(
+    (key) => !(optional as string[]).includes(key)
+  );
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/** T's own properties on top of the schema it extends */
+function extending<T, Base>(
+  base: string,
+  properties: { [K in Exclude<keyof T, keyof Base>]-?: Schema },
+  optional: OptionalKeys<Omit<T, keyof Base>>[] = []
+): Schema {
+  return { allOf: [ref(base), object<Omit<T, keyof Base>>(properties as never, optional)] };
+}
+
+function paginated(items: Schema): Schema {
+  return object<PaginatedResponse<unknown>>(
+    {
+      items: arrayOf(items),
+      total: INTEGER,
+      page: INTEGER,
+      limit: INTEGER,
+      totalPages: INTEGER,
+      nextCursor: { type: 'string', description: 'Pass as `cursor` for the next page; absent on the last page' },
+    },
+    ['nextCursor']
+  );
+}
+
+const schemas: Record<string, Schema> = {
+  Game: object<Game>({
+    id: STRING,
+    name: STRING,
+    slug: STRING,
+    description: STRING,
+    imageUrl: STRING,
+    cardCount: INTEGER,
+  }),
+  CardSet: object<CardSet>({
+    id: STRING,
+    gameId: STRING,
+    name: STRING,
+    slug: STRING,
+    releaseDate: { type: 'string', format: 'date' },
+    totalCards: INTEGER,
+    imageUrl: STRING,
+  }),
+  CardAttributes: {
+    ...object<CardAttributes>(
+      {
+        hp: INTEGER,
+        types: arrayOf(STRING),
+        artist: STRING,
+        attack: STRING,
+        defense: STRING,
+        level: INTEGER,
+      },
+      ['hp', 'types', 'artist', 'attack', 'defense', 'level']
+    ),
+    // Games carry attributes of their own beyond the common ones
+    additionalProperties: { oneOf: [STRING, NUMBER, arrayOf(STRING)] },
+  },
+  Card: object<Card>({
+    id: STRING,
+    setId: STRING,
+    gameId: STRING,
+    name: STRING,
+    number: STRING,
+    rarity: STRING,
+    type: STRING,
+    imageUrl: STRING,
+    attributes: ref('CardAttributes'),
+  }),
+  Condition: { type: 'string', enum: CONDITIONS },
+  // What writes accept; listings from the data files may carry other languages
+  Language: { type: 'string', enum: LANGUAGES },
+  Seller: object<Seller>({
+    id: STRING,
+    name: STRING,
+    slug: STRING,
+    rating: NUMBER,
+    salesCount: INTEGER,
+    location: STRING,
+  }),
+  Listing: object<Listing>({
+    id: STRING,
+    cardId: STRING,
+    sellerId: STRING,
+    condition: ref('Condition'),
+    price: PRICE,
+    quantity: QUANTITY,
+    language: STRING,
+    isFoil: BOOLEAN,
+  }),
+  PricePoint: object<PricePoint>({
+    cardId: STRING,
+    condition: ref('Condition'),
+    date: DATE,
+    min: PRICE,
+    median: PRICE,
+    max: PRICE,
+    volume: { type: 'integer', minimum: 1 },
+  }),
+  PriceHistory: object<PriceHistory>({
+    cardId: STRING,
+    points: { ...arrayOf(ref('PricePoint')), description: 'By condition, then date' },
+  }),
+  ListingInput: object<ListingInput>({
+    cardId: STRING,
+    sellerId: STRING,
+    condition: ref('Condition'),
+    price: { type: 'number', exclusiveMinimum: 0 },
+    quantity: QUANTITY,
+    language: ref('Language'),
+    isFoil: BOOLEAN,
+  }),
+  ListingUpdate: {
+    ...object<ListingUpdate>(
+      {
+        condition: ref('Condition'),
+        price: { type: 'number', exclusiveMinimum: 0 },
+        quantity: QUANTITY,
+        language: ref('Language'),
+        isFoil: BOOLEAN,
+      },
+      ['condition', 'price', 'quantity', 'language', 'isFoil']
+    ),
+    minProperties: 1,
+  },
+  ListingPage: paginated(ref('Listing')),
+  ListingWithDetails: extending<ListingWithDetails, Listing>('Listing', {
+    card: ref('Card'),
+    seller: ref('Seller'),
+  }),
+  CardWithListings: extending<CardWithListings, Card>(
+    'Card',
+    {
+      listings: arrayOf(ref('Listing')),
+      lowestPrice: PRICE,
+      listingCount: INTEGER,
+    },
+    ['lowestPrice']
+  ),
+  GameWithSets: extending<GameWithSets, Game>('Game', {
+    sets: arrayOf(ref('CardSet')),
+  }),
+  SetWithCards: extending<SetWithCards, CardSet>(
+    'CardSet',
+    {
+      cards: arrayOf(ref('Card')),
+      game: ref('Game'),
+      total: INTEGER,
+      totalPages: INTEGER,
+      nextCursor: STRING,
+    },
+    ['nextCursor']
+  ),
+  SellerWithListings: extending<SellerWithListings, Seller>(
+    'Seller',
+    {
+      listings: arrayOf(ref('Listing')),
+      total: INTEGER,
+      totalPages: INTEGER,
+      nextCursor: STRING,
+    },
+    ['nextCursor']
+  ),
+  FacetCount: object<FacetCount>({ value: STRING, count: INTEGER }),
+  PriceBucketCount: object<PriceBucketCount>(
+    {
+      min: PRICE,
+      max: { ...PRICE, description: 'Exclusive; absent on the top bucket' },
+      count: INTEGER,
+    },
+    ['max']
+  ),
+  CardFacets: object<CardFacets>({
+    gameId: arrayOf(ref('FacetCount')),
+    setId: arrayOf(ref('FacetCount')),
+    rarity: arrayOf(ref('FacetCount')),
+    type: arrayOf(ref('FacetCount')),
+    price: arrayOf(ref('PriceBucketCount')),
+  }),
+  CardSearchResponse: extending<CardSearchResponse, PaginatedResponse<Card>>(
+    'CardPage',
+    { facets: ref('CardFacets') },
+    ['facets']
+  ),
+  CardPage: paginated(ref('Card')),
+  Banner: object<Banner>({ id: STRING, imageUrl: STRING, link: STRING, title: STRING }),
+  FeaturedWithData: object<FeaturedWithData>(
+    {
+      banners: arrayOf(ref('Banner')),
+      trendingCards: arrayOf(STRING),
+      newReleases: arrayOf(STRING),
+      popularGames: arrayOf(STRING),
+      trendingCardsData: arrayOf(ref('Card')),
+      newReleasesData: arrayOf(ref('CardSet')),
+      popularGamesData: arrayOf(ref('Game')),
+    },
+    ['banners', 'trendingCards', 'newReleases', 'popularGames']
+  ),
+  CartItemInput: object<CartItemInput>(
+    { listingId: STRING, quantity: { type: 'integer', minimum: 0, default: 1 } },
+    ['quantity']
+  ),
+  CartItemWithDetails: {
+    allOf: [
+      object<CartItem>({ listingId: STRING, quantity: { type: 'integer', minimum: 1 }, addedAt: DATE_TIME }),
+      object<Omit<CartItemWithDetails, keyof CartItem>>({ listing: ref('ListingWithDetails') }),
+    ],
+  },
+  CartWithDetails: object<CartWithDetails>({
+    items: arrayOf(ref('CartItemWithDetails')),
+    subtotal: PRICE,
+    itemCount: INTEGER,
+    updatedAt: DATE_TIME,
+  }),
+  OrderLineItem: object<OrderLineItem>({
+    listingId: STRING,
+    cardId: STRING,
+    sellerId: STRING,
+    condition: ref('Condition'),
+    quantity: { type: 'integer', minimum: 1 },
+    unitPrice: PRICE,
+  }),
+  Order: object<Order>({
+    id: STRING,
+    items: arrayOf(ref('OrderLineItem')),
+    total: PRICE,
+    itemCount: INTEGER,
+    createdAt: DATE_TIME,
+  }),
+  StockConflict: object<StockConflict>({ listingId: STRING, requested: INTEGER, available: INTEGER }),
+  InvalidParam: object<InvalidParam>({ name: STRING, reason: STRING }),
+  Problem: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: Object.keys(PROBLEM_TYPES).map((type) => `/problems/${type}`) },
+      title: STRING,
+      status: INTEGER,
+      detail: STRING,
+      'invalid-params': arrayOf(ref('InvalidParam')),
+    },
+    required: ['type', 'title', 'status'],
+  },
+  StockProblem: {
+    allOf: [
+      ref('Problem'),
+      object<{ conflicts: StockConflict[] }>({ conflicts: arrayOf(ref('StockConflict')) }),
+    ],
+  },
+};
+
+// Parameters
+
+interface Parameter {
+  name: string;
+  in: 'query' | 'path' | 'cookie';
+  description?: string;
+  required?: boolean;
+  schema: Schema;
+  style?: string;
+  explode?: boolean;
+}
+
+function query<Params>(name: keyof Params & string, schema: Schema, description?: string): Parameter {
+  return { name, in: 'query', schema, ...(description ? { description } : {}) };
+}
+
+function parameterRef(name: string): Schema {
+  return { $ref: `#/components/parameters/${name}` };
+}
+
+const parameters: Record<string, Parameter> = {
+  page: query<CardSearchParams>('page', { type: 'integer', minimum: 1, default: 1 }),
+  limit: query<CardSearchParams>('limit', {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_LIMIT,
+    default: DEFAULT_LIMIT,
+  }),
+  cursor: query<CardSearchParams>(
+    'cursor',
+    STRING,
+    '`nextCursor` of the previous page; takes precedence over `page`. Cursors are only valid with the sort order that issued them.'
+  ),
+  minPrice: query<CardSearchParams>('minPrice', PRICE),
+  maxPrice: query<CardSearchParams>('maxPrice', PRICE, 'Must not be below `minPrice`'),
+  cartCookie: { name: CART_COOKIE, in: 'cookie', schema: STRING },
+};
+
+const PAGINATION = ['page', 'limit', 'cursor'].map(parameterRef);
+
+function pathParameter(name: 'id' | 'slug'): Parameter {
+  return { name, in: 'path', required: true, schema: STRING };
+}
+
+const CARD_FILTER_PARAMETERS = [
+  query<CardSearchParams>('game', STRING, 'Game slug'),
+  query<CardSearchParams>('set', STRING, 'Set slug'),
+  query<CardSearchParams>('rarity', STRING),
+  query<CardSearchParams>('type', STRING),
+  parameterRef('minPrice'),
+  parameterRef('maxPrice'),
+  {
+    name: 'attributes',
+    in: 'query',
+    style: 'form',
+    explode: true,
+    description:
+      'Card attribute filters as `attr.<attribute>.<op>=<value>` parameters, with op one of gt, gte, lt, lte (numbers), eq, prefix, or in (a comma-separated list), e.g. `attr.hp.gte=200&attr.types.in=Fire,Water`',
+    schema: {
+      type: 'object',
+      patternProperties: { [PARAM_PATTERN.source]: STRING },
+      additionalProperties: false,
+    },
+  } satisfies Parameter,
+];
+
+const CARD_SEARCH_PARAMETERS = [
+  ...CARD_FILTER_PARAMETERS,
+  ...PAGINATION,
+  query<CardSearchParams>(
+    'sort',
+    { type: 'string', enum: CARD_SORTS },
+    'Catalogue order without one; `relevance` needs `q`'
+  ),
+  query<CardSearchParams>('order', { type: 'string', enum: ORDERS, default: 'asc' }),
+  query<CardSearchParams>('facets', { ...BOOLEAN, default: false }, 'Also count the matches per facet value'),
+];
+
+const LISTING_FILTER_PARAMETERS = [
+  query<ListingSearchParams>('cardId', STRING),
+  query<ListingSearchParams>('sellerId', STRING),
+  query<ListingSearchParams>('condition', ref('Condition')),
+  parameterRef('minPrice'),
+  parameterRef('maxPrice'),
+];
+
+const BUFFERED: Parameter = {
+  name: 'buffered',
+  in: 'query',
+  description: 'Build the whole body before sending it instead of streaming it',
+  schema: { ...BOOLEAN, default: false },
+};
+
+// Responses
+
+function json(schema: Schema, description: string, headers?: Schema): Schema {
+  return {
+    description,
+    content: { 'application/json': { schema } },
+    ...(headers ? { headers } : {}),
+  };
+}
+
+function problem(description: string, schema = ref('Problem')): Schema {
+  return { description, content: { 'application/problem+json': { schema } } };
+}
+
+// One record per line; OpenAPI 3.1 can only describe the schema of a line
+function ndjson(line: Schema, description: string): Schema {
+  return { description, content: { 'application/x-ndjson': { schema: line } } };
+}
+
+function responseRef(name: string): Schema {
+  return { $ref: `#/components/responses/${name}` };
+}
+
+const responses: Record<string, Schema> = {
+  NotModified: {
+    description: 'Matches `If-None-Match`; sent when the response cache is on',
+  },
+  NotFound: problem('Not found'),
+  InvalidParameters: problem('A query parameter is malformed'),
+  UnprocessableParameters: problem('Query parameters are out of range or contradict each other'),
+  InvalidBody: problem('The request body is malformed'),
+  StorageFull: problem('The data store has no room left for the write'),
+  FormRedirect: {
+    description: 'Form posts are redirected back to the cart page',
+    headers: { Location: { schema: STRING } },
+  },
+};
+
+// GET routes served through the response cache, which may answer 304
+function cachedGet(
+  operationId: string,
+  tag: string,
+  summary: string,
+  ok: Schema,
+  extra: { parameters?: (Parameter | Schema)[]; responses?: Record<string, Schema> } = {}
+): Schema {
+  return {
+    operationId,
+    tags: [tag],
+    summary,
+    ...(extra.parameters ? { parameters: extra.parameters } : {}),
+    responses: {
+      '200': json(ok, 'OK'),
+      '304': responseRef('NotModified'),
+      ...extra.responses,
+    },
+  };
+}
+
+const QUERY_PROBLEMS = {
+  '400': responseRef('InvalidParameters'),
+  '422': responseRef('UnprocessableParameters'),
+};
+
+const paths: Record<string, Schema> = {
+  '/api/games': {
+    get: cachedGet('listGames', 'games', 'All games', arrayOf(ref('Game'))),
+  },
+  '/api/games/{slug}': {
+    parameters: [pathParameter('slug')],
+    get: cachedGet('getGame', 'games', 'A game with its sets', ref('GameWithSets'), {
+      responses: { '404': responseRef('NotFound') },
+    }),
+  },
+  '/api/sets': {
+    get: cachedGet('listSets', 'sets', 'All sets, or those of one game', arrayOf(ref('CardSet')), {
+      parameters: [{ name: 'game', in: 'query', description: 'Game slug', schema: STRING }],
+    }),
+  },
+  '/api/sets/{slug}': {
+    parameters: [pathParameter('slug')],
+    get: cachedGet('getSet', 'sets', 'A set with a page of its cards', ref('SetWithCards'), {
+      parameters: PAGINATION,
+      responses: { ...QUERY_PROBLEMS, '404': responseRef('NotFound') },
+    }),
+  },
+  '/api/cards': {
+    get: cachedGet('searchCards', 'cards', 'Search and filter cards', ref('CardSearchResponse'), {
+      parameters: [query<CardSearchParams>('q', STRING, 'Full-text query'), ...CARD_SEARCH_PARAMETERS],
+      responses: QUERY_PROBLEMS,
+    }),
+  },
+  '/api/search': {
+    get: cachedGet('fullTextSearch', 'cards', 'Full-text card search', ref('CardSearchResponse'), {
+      parameters: [
+        { ...query<CardSearchParams>('q', STRING, 'Full-text query'), required: true },
+        ...CARD_SEARCH_PARAMETERS,
+      ],
+      responses: QUERY_PROBLEMS,
+    }),
+  },
+  '/api/cards/{id}': {
+    parameters: [pathParameter('id')],
+    get: cachedGet('getCard', 'cards', 'A card with its listings', ref('CardWithListings'), {
+      responses: { '404': responseRef('NotFound') },
+    }),
+  },
+  '/api/cards/{id}/history': {
+    parameters: [pathParameter('id')],
+    get: cachedGet('getPriceHistory', 'cards', "A card's daily prices and sales", ref('PriceHistory'), {
+      parameters: [
+        query<PriceHistoryParams>('condition', ref('Condition')),
+        query<PriceHistoryParams>(
+          'days',
+          { type: 'integer', minimum: 1, maximum: MAX_HISTORY_DAYS },
+          "Only the last `days` days up to the card's latest; all of them without one"
+        ),
+      ],
+      responses: { ...QUERY_PROBLEMS, '404': responseRef('NotFound') },
+    }),
+  },
+  '/api/listings': {
+    get: cachedGet('listListings', 'listings', 'Filter listings', ref('ListingPage'), {
+      parameters: [...LISTING_FILTER_PARAMETERS, ...PAGINATION],
+      responses: QUERY_PROBLEMS,
+    }),
+    post: {
+      operationId: 'createListing',
+      tags: ['listings'],
+      summary: 'Create a listing',
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref('ListingInput') } },
+      },
+      responses: {
+        '201': json(ref('Listing'), 'Created'),
+        '400': responseRef('InvalidBody'),
+        '422': problem('The card or seller does not exist'),
+        '507': responseRef('StorageFull'),
+      },
+    },
+  },
+  '/api/listings/{id}': {
+    parameters: [pathParameter('id')],
+    get: cachedGet(
+      'getListing',
+      'listings',
+      'A listing with its card and seller',
+      ref('ListingWithDetails'),
+      { responses: { '404': responseRef('NotFound') } }
+    ),
+    patch: {
+      operationId: 'updateListing',
+      tags: ['listings'],
+      summary: 'Update a listing; its card and seller are fixed',
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref('ListingUpdate') } },
+      },
+      responses: {
+        '200': json(ref('Listing'), 'Updated'),
+        '400': responseRef('InvalidBody'),
+        '404': responseRef('NotFound'),
+        '507': responseRef('StorageFull'),
+      },
+    },
+    delete: {
+      operationId: 'deleteListing',
+      tags: ['listings'],
+      summary: 'Delete a listing',
+      responses: {
+        '204': { description: 'Deleted' },
+        '404': responseRef('NotFound'),
+      },
+    },
+  },
+  '/api/export/cards': {
+    get: {
+      operationId: 'exportCards',
+      tags: ['export'],
+      summary: 'Every card matching the filters, as NDJSON in catalogue order',
+      parameters: [
+        query<CardSearchParams>('q', STRING, 'Substring of the name, type or rarity'),
+        ...CARD_FILTER_PARAMETERS,
+        BUFFERED,
+      ],
+      responses: { '200': ndjson(ref('Card'), 'One Card per line'), ...QUERY_PROBLEMS },
+    },
+  },
+  '/api/export/listings': {
+    get: {
+      operationId: 'exportListings',
+      tags: ['export'],
+      summary: 'Every listing matching the filters, as NDJSON in catalogue order',
+      parameters: [...LISTING_FILTER_PARAMETERS, BUFFERED],
+      responses: { '200': ndjson(ref('Listing'), 'One Listing per line'), ...QUERY_PROBLEMS },
+    },
+  },
+  '/api/sellers': {
+    get: cachedGet('listSellers', 'sellers', 'All sellers', arrayOf(ref('Seller'))),
+  },
+  '/api/sellers/{slug}': {
+    parameters: [pathParameter('slug')],
+    get: cachedGet(
+      'getSeller',
+      'sellers',
+      'A seller with a page of their listings',
+      ref('SellerWithListings'),
+      { parameters: PAGINATION, responses: { ...QUERY_PROBLEMS, '404': responseRef('NotFound') } }
+    ),
+  },
+  '/api/featured': {
+    get: cachedGet(
+      'getFeatured',
+      'featured',
+      'Homepage content: banners, trending cards, new releases and popular games',
+      ref('FeaturedWithData')
+    ),
+  },
+  '/api/cart': {
+    parameters: [parameterRef('cartCookie')],
+    get: {
+      operationId: 'getCart',
+      tags: ['cart'],
+      summary: 'The cart of the `cart_id` cookie; empty without one',
+      responses: { '200': json(ref('CartWithDetails'), 'OK') },
+    },
+    post: {
+      operationId: 'addToCart',
+      tags: ['cart'],
+      summary: 'Add a listing to the cart, starting a cart without a `cart_id` cookie',
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: ref('CartItemInput') },
+          'application/x-www-form-urlencoded': { schema: ref('CartItemInput') },
+        },
+      },
+      responses: {
+        '201': json(ref('CartWithDetails'), 'Added', {
+          'Set-Cookie': { description: `Sets \`${CART_COOKIE}\` for a new cart`, schema: STRING },
+        }),
+        '303': responseRef('FormRedirect'),
+        '400': responseRef('InvalidBody'),
+        '404': responseRef('NotFound'),
+      },
+    },
+    patch: {
+      operationId: 'updateCartItem',
+      tags: ['cart'],
+      summary: 'Set the quantity of a cart item; 0 removes it',
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref('CartItemInput') } },
+      },
+      responses: {
+        '200': json(ref('CartWithDetails'), 'Updated'),
+        '400': responseRef('InvalidBody'),
+        '404': responseRef('NotFound'),
+      },
+    },
+    delete: {
+      operationId: 'removeFromCart',
+      tags: ['cart'],
+      summary: 'Remove a listing from the cart, or clear it without `listingId`',
+      parameters: [{ name: 'listingId', in: 'query', schema: STRING }],
+      responses: {
+        '200': json(ref('CartWithDetails'), 'Removed'),
+        '404': responseRef('NotFound'),
+      },
+    },
+  },
+  '/api/checkout': {
+    post: {
+      operationId: 'checkout',
+      tags: ['checkout'],
+      summary: 'Place an order for the cart',
+      parameters: [parameterRef('cartCookie')],
+      responses: {
+        '201': json(ref('Order'), 'Ordered'),
+        '303': responseRef('FormRedirect'),
+        '400': problem('The cart is empty'),
+        '409': problem('Listings lack the stock for the cart', ref('StockProblem')),
+      },
+    },
+  },
+};
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Card Marketplace API',
+    version: '1.0.0',
+    description:
+      'Errors are `application/problem+json` bodies (RFC 7807). With the response cache on, cached GET responses carry an ETag and answer a matching If-None-Match with 304.',
+  },
+  paths,
+  components: { schemas, parameters, responses },
+};
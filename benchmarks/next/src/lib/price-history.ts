@@ -0,0 +1,126 @@
+/**
+ * Price History and Market Trends
+ *
+ * priceHistory.json holds a PricePoint per card, condition and day: the
+ * lowest, median and highest sale price and the number of copies sold.
+ * Every backend narrows a card's points with `selectHistory` and ranks
+ * trending cards by feeding sales through `TrendCounter`, so the windowing
+ * and scoring rules are the same whichever store answers.
+ *
+ * A card trends when it sells more copies, at higher prices, in the last
+ * week than in the week before. Its score is the log of the volume ratio
+ * plus the log of the ratio of volume-weighted median prices, so doubling
+ * sales counts as much as doubling the price. Weeks are counted back from
+ * the latest day in the data rather than from today, as the history is a
+ * fixed dataset.
+ */
+
+import type { Featured, PriceHistory, PriceHistoryParams, PricePoint } from './types';
+
+export const TREND_WINDOW_DAYS = 7;
+export const MAX_HISTORY_DAYS = 365;
+// Cards ranked and kept, enough for any trending list a page shows
+export const TRENDING_LIMIT = 100;
+// Fewer sales in the last week make the ratios noise rather than a trend
+const MIN_TREND_VOLUME = 5;
+
+/** The YYYY-MM-DD date `days` days after `date` */
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+/** A card's points narrowed to one condition and to the last `days` days it has */
+export function selectHistory(
+  cardId: string,
+  points: PricePoint[],
+  { condition, days }: PriceHistoryParams = {}
+): PriceHistory {
+  let selected = condition ? points.filter((point) => point.condition === condition) : points;
+  if (days !== undefined && selected.length > 0) {
+    const latest = selected.reduce((max, point) => (point.date > max ? point.date : max), '');
+    const first = addDays(latest, 1 - days);
+    selected = selected.filter((point) => point.date >= first);
+  }
+  return { cardId, points: selected };
+}
+
+/**
+ * `ranked` trending card ids, or the static list in featured.json when there
+ * is no price history to rank by
+ */
+export function trendingIds(ranked: string[], featured: Featured | null, limit: number): string[] {
+  return (ranked.length > 0 ? ranked : featured?.trendingCards || []).slice(0, limit);
+}
+
+interface WindowTotals {
+  volume: number;
+  // Sum of median price times volume, for the volume-weighted price
+  turnover: number;
+}
+
+export class TrendCounter {
+  // Per card, sales in the last two weeks by day
+  private sales = new Map<string, Map<string, WindowTotals>>();
+  private latest = '';
+  private cutoff = '';
+
+  /** Counts one card's sales on one day; may be called more than once per day */
+  add(cardId: string, date: string, volume: number, turnover: number): void {
+    if (date > this.latest) {
+      this.latest = date;
+      this.cutoff = addDays(date, 1 - 2 * TREND_WINDOW_DAYS);
+    }
+    // Days before both windows can never be counted, as `latest` only grows
+    if (date < this.cutoff) return;
+
+    let days = this.sales.get(cardId);
+    if (!days) {
+      days = new Map();
+      this.sales.set(cardId, days);
+    }
+    const totals = days.get(date);
+    if (totals) {
+      totals.volume += volume;
+      totals.turnover += turnover;
+    } else {
+      days.set(date, { volume, turnover });
+    }
+  }
+
+  addPoint(point: PricePoint): void {
+    this.add(point.cardId, point.date, point.volume, point.median * point.volume);
+  }
+
+  /** Card ids by descending score, ties by id so every backend agrees */
+  result(limit = TRENDING_LIMIT): string[] {
+    if (!this.latest) return [];
+    const recentStart = addDays(this.latest, 1 - TREND_WINDOW_DAYS);
+
+    const scores: { cardId: string; score: number }[] = [];
+    for (const [cardId, days] of this.sales) {
+      const recent: WindowTotals = { volume: 0, turnover: 0 };
+      const previous: WindowTotals = { volume: 0, turnover: 0 };
+      for (const [date, totals] of days) {
+        // Days before the cutoff of the final `latest` are still here
+        if (date < this.cutoff) continue;
+        const window = date >= recentStart ? recent : previous;
+        window.volume += totals.volume;
+        window.turnover += totals.turnover;
+      }
+      if (recent.volume < MIN_TREND_VOLUME) continue;
+
+      let score = Math.log((recent.volume + 1) / (previous.volume + 1));
+      if (previous.volume > 0 && previous.turnover > 0) {
+        score += Math.log(recent.turnover / recent.volume / (previous.turnover / previous.volume));
+      }
+      scores.push({ cardId, score });
+    }
+
+    return scores
+      .sort((a, b) => b.score - a.score || (a.cardId < b.cardId ? -1 : a.cardId > b.cardId ? 1 : 0))
+      .slice(0, limit)
+      .map(({ cardId }) => cardId);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Problem Details Error Responses
+ *
+ * Every API error is an RFC 7807 `application/problem+json` body:
+ *
+ *   { "type": "/problems/invalid-parameters", "title": "Invalid query parameters",
+ *     "status": 400, "detail": "...", "invalid-params": [{ "name": "limit", "reason": "..." }] }
+ *
+ * `type` names the kind of problem and fixes its `title` and status; `detail`
+ * describes this occurrence. Validation problems list every rejected
+ * parameter or body field in `invalid-params`, as in the RFC's example.
+ */
+
+import { NextResponse } from 'next/server';
+import { InvalidCursorError } from './cursor';
+import { TableFullError } from './columnar';
+
+export interface InvalidParam {
+  name: string;
+  reason: string;
+}
+
+export const PROBLEM_TYPES = {
+  // A query parameter is not of its type: not a number, not one of the allowed values
+  'invalid-parameters': { status: 400, title: 'Invalid query parameters' },
+  // Query parameters are well-formed but out of range or contradict each other
+  'unprocessable-parameters': { status: 422, title: 'Query parameters cannot be processed' },
+  'invalid-body': { status: 400, title: 'Invalid request body' },
+  'not-found': { status: 404, title: 'Resource not found' },
+  // An internal route called without its token
+  'unauthorized': { status: 401, title: 'Authentication required' },
+  // A write refers to a card or seller that does not exist
+  'unknown-reference': { status: 422, title: 'Referenced resource not found' },
+  'empty-cart': { status: 400, title: 'Cart is empty' },
+  'insufficient-stock': { status: 409, title: 'Insufficient stock' },
+  // The data store has no room left for the write
+  'storage-full': { status: 507, title: 'Insufficient storage' },
+  // The configured DB_BACKEND lacks the operation
+  'not-supported': { status: 501, title: 'Not supported by this data store' },
+} as const;
+
+export type ProblemType = keyof typeof PROBLEM_TYPES;
+
+export function problemResponse(
+  type: ProblemType,
+  detail?: string,
+  extensions: Record<string, unknown> = {}
+): NextResponse {
+  const { status, title } = PROBLEM_TYPES[type];
+  return NextResponse.json(
+    { type: `/problems/${type}`, title, status, ...(detail ? { detail } : {}), ...extensions },
+    { status, headers: { 'Content-Type': 'application/problem+json' } }
+  );
+}
+
+/** A validation problem listing the rejected parameters or fields */
+export function invalidParamsResponse(type: ProblemType, errors: InvalidParam[]): NextResponse {
+  const detail = errors.map((error) => `${error.name}: ${error.reason}`).join('; ');
+  return problemResponse(type, detail, { 'invalid-params': errors });
+}
+
+/**
+ * `respond()`'s response, or an invalid-parameters problem naming `cursor`
+ * when the data store rejects the cursor it was given
+ */
+export async function withCursorProblem<T extends Response | undefined>(
+  respond: () => Promise<T>
+): Promise<T | NextResponse> {
+  try {
+    return await respond();
+  } catch (err) {
+    if (!(err instanceof InvalidCursorError)) throw err;
+    return invalidParamsResponse('invalid-parameters', [{ name: 'cursor', reason: err.message }]);
+  }
+}
+
+/**
+ * `respond()`'s response, or a storage-full problem when a write finds a
+ * columnar table out of rows, text or dictionary entries
+ */
+export async function withStorageProblem<T extends Response>(
+  respond: () => Promise<T>
+): Promise<T | NextResponse> {
+  try {
+    return await respond();
+  } catch (err) {
+    if (!(err instanceof TableFullError)) throw err;
+    return problemResponse('storage-full', err.message);
+  }
+}
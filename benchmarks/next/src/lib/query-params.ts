@@ -0,0 +1,207 @@
+/**
+ * Query Parameter Validation
+ *
+ * Parses API query strings into CardSearchParams, ListingSearchParams and
+ * page/limit/cursor, checking each value instead of casting it. A value that
+ * is not of its parameter's type (`page=abc`, `sort=rating`) makes the request
+ * invalid (400); well-formed values out of range or contradicting each other
+ * (`limit=1000000`, `minPrice` above `maxPrice`) make it unprocessable (422).
+ * Unknown parameters are ignored, so cache-busting parameters still work.
+ */
+
+import { parseAttributeFilters, AttributeFilterError } from './attribute-filters';
+import { CONDITIONS } from './listings';
+import { COLLECTIONS } from './store';
+import { MAX_HISTORY_DAYS } from './price-history';
+import type { InvalidParam } from './problem';
+import type { CollectionName } from './store';
+import type { CardSearchParams, Condition, ListingSearchParams, PriceHistoryParams } from './types';
+
+export const DEFAULT_LIMIT = 20;
+// Caps a page, so that no single request can read out a whole collection
+export const MAX_LIMIT = 100;
+
+type CardSort = NonNullable<CardSearchParams['sort']>;
+
+export const CARD_SORTS: readonly CardSort[] = ['price', 'name', 'date', 'relevance'];
+export const ORDERS: readonly NonNullable<CardSearchParams['order']>[] = ['asc', 'desc'];
+
+const INTEGER_PATTERN = /^-?[0-9]+$/;
+const NUMBER_PATTERN = /^-?[0-9]+(\.[0-9]+)?$/;
+
+export type QueryResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; problem: 'invalid-parameters' | 'unprocessable-parameters'; errors: InvalidParam[] };
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  cursor?: string;
+}
+
+// Reads typed values from a query string, collecting what is wrong with them
+class QueryReader {
+  readonly invalid: InvalidParam[] = [];
+  readonly unprocessable: InvalidParam[] = [];
+
+  constructor(private query: URLSearchParams) {}
+
+  string(name: string): string | undefined {
+    return this.query.get(name) || undefined;
+  }
+
+  integer(name: string, min: number, max = Infinity): number | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    if (!INTEGER_PATTERN.test(raw)) {
+      this.invalid.push({ name, reason: 'must be an integer' });
+      return undefined;
+    }
+    const value = Number(raw);
+    if (value < min || value > max) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      this.unprocessable.push({ name, reason: `must be ${range}` });
+      return undefined;
+    }
+    return value;
+  }
+
+  price(name: string): number | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    if (!NUMBER_PATTERN.test(raw)) {
+      this.invalid.push({ name, reason: 'must be a number' });
+      return undefined;
+    }
+    const value = Number(raw);
+    if (value < 0) {
+      this.unprocessable.push({ name, reason: 'must not be negative' });
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[]): T | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    if (!values.includes(raw as T)) {
+      this.invalid.push({ name, reason: `must be one of: ${values.join(', ')}` });
+      return undefined;
+    }
+    return raw as T;
+  }
+
+  boolean(name: string): boolean | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    if (raw !== 'true' && raw !== 'false') {
+      this.invalid.push({ name, reason: 'must be true or false' });
+      return undefined;
+    }
+    return raw === 'true';
+  }
+
+  pagination(): Pagination {
+    return {
+      page: this.integer('page', 1) ?? 1,
+      limit: this.integer('limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT,
+      cursor: this.string('cursor'),
+    };
+  }
+
+  // Invalid values take precedence, as the request cannot be read at all
+  result<T>(value: T): QueryResult<T> {
+    if (this.invalid.length > 0) {
+      return { ok: false, problem: 'invalid-parameters', errors: this.invalid };
+    }
+    if (this.unprocessable.length > 0) {
+      return { ok: false, problem: 'unprocessable-parameters', errors: this.unprocessable };
+    }
+    return { ok: true, value };
+  }
+}
+
+function checkPriceRange(reader: QueryReader, minPrice?: number, maxPrice?: number): void {
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    reader.unprocessable.push({ name: 'minPrice', reason: 'must not be above maxPrice' });
+  }
+}
+
+export function parsePagination(query: URLSearchParams): QueryResult<Pagination> {
+  const reader = new QueryReader(query);
+  return reader.result(reader.pagination());
+}
+
+/** CardSearchParams, including `attr.*` filters. `requireQuery` makes `q` mandatory. */
+export function parseCardSearchParams(
+  query: URLSearchParams,
+  { requireQuery = false } = {}
+): QueryResult<CardSearchParams> {
+  const reader = new QueryReader(query);
+  const params: CardSearchParams = {
+    game: reader.string('game'),
+    set: reader.string('set'),
+    rarity: reader.string('rarity'),
+    type: reader.string('type'),
+    q: reader.string('q'),
+    ...reader.pagination(),
+    sort: reader.oneOf('sort', CARD_SORTS),
+    order: reader.oneOf('order', ORDERS) ?? 'asc',
+    facets: reader.boolean('facets') ?? false,
+    minPrice: reader.price('minPrice'),
+    maxPrice: reader.price('maxPrice'),
+  };
+
+  if (requireQuery && !params.q) {
+    reader.invalid.push({ name: 'q', reason: 'is required' });
+  }
+  if (params.sort === 'relevance' && !params.q) {
+    reader.unprocessable.push({ name: 'sort', reason: 'relevance needs a search query (q)' });
+  }
+  checkPriceRange(reader, params.minPrice, params.maxPrice);
+
+  try {
+    const attributes = parseAttributeFilters(query);
+    if (attributes.length > 0) params.attributes = attributes;
+  } catch (err) {
+    if (!(err instanceof AttributeFilterError)) throw err;
+    reader.invalid.push({ name: err.param, reason: err.reason });
+  }
+
+  return reader.result(params);
+}
+
+export function parseListingSearchParams(query: URLSearchParams): QueryResult<ListingSearchParams> {
+  const reader = new QueryReader(query);
+  const params: ListingSearchParams = {
+    cardId: reader.string('cardId'),
+    sellerId: reader.string('sellerId'),
+    condition: reader.oneOf<Condition>('condition', CONDITIONS),
+    ...reader.pagination(),
+    minPrice: reader.price('minPrice'),
+    maxPrice: reader.price('maxPrice'),
+  };
+  checkPriceRange(reader, params.minPrice, params.maxPrice);
+
+  return reader.result(params);
+}
+
+export function parsePriceHistoryParams(query: URLSearchParams): QueryResult<PriceHistoryParams> {
+  const reader = new QueryReader(query);
+  return reader.result({
+    condition: reader.oneOf<Condition>('condition', CONDITIONS),
+    days: reader.integer('days', 1, MAX_HISTORY_DAYS),
+  });
+}
+
+/** `buffered`, which makes an export build its whole body before sending it */
+export function parseExportOptions(query: URLSearchParams): QueryResult<{ buffered: boolean }> {
+  const reader = new QueryReader(query);
+  return reader.result({ buffered: reader.boolean('buffered') ?? false });
+}
+
+/** `collection`, the one collection to reload; all of them when absent */
+export function parseReloadParams(query: URLSearchParams): QueryResult<{ collection?: CollectionName }> {
+  const reader = new QueryReader(query);
+  return reader.result({ collection: reader.oneOf('collection', COLLECTIONS) });
+}
@@ -0,0 +1,496 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache in front of the data store for the `/api/*` route handlers
+ * (`cachedJson`, with ETag and If-None-Match) and for page data
+ * (`cachedData`). Entries expire after a per-route TTL and every data store
+ * write invalidates the whole cache by bumping a generation counter, so a
+ * response never outlives a write made through this process.
+ *
+ * Environment variables:
+ * - CACHE_MODE: off|lru|shared (default: off)
+ *   - lru: a bounded LRU per worker thread holding the values as returned by
+ *     the data store, i.e. object graphs in the V8 heap, next to their JSON
+ *   - shared: one cache for every worker thread of the process, serialised
+ *     into a SharedArrayBuffer ring outside the V8 heap (see ./shared-buffer.ts).
+ *     The oldest entries are overwritten first, and entries are parsed on read.
+ * - CACHE_MAX_BYTES: Size bound by serialised JSON size (default: 67108864)
+ * - CACHE_MAX_ENTRIES: Entry bound in lru mode (default: 10000)
+ * - CACHE_TTL_MS: TTL for routes not listed below (default: 30000)
+ * - CACHE_TTL_OVERRIDES: Per-route TTLs, e.g. `/api/games=600000;/cards/[id]=5000`
+ */
+
+import { createHash } from 'crypto';
+import { countCacheLookup, countNotModified, trackCacheSize } from './metrics';
+import { shareBuffer } from './shared-buffer';
+
+export type CacheMode = 'off' | 'lru' | 'shared';
+
+// Default TTLs in ms, keyed by the route label used for metrics. Writes made
+// through this process invalidate everything, so the TTL only bounds how stale
+// a response gets when another process (or, in lru mode, another worker
+// thread on a shared SQLite file) writes.
+const ROUTE_TTLS: Record<string, number> = {
+  '/api/games': 300_000,
+  '/api/games/[slug]': 300_000,
+  '/api/sets': 300_000,
+  '/api/sets/[slug]': 60_000,
+  '/api/sellers': 300_000,
+  '/api/sellers/[slug]': 30_000,
+  '/api/cards': 30_000,
+  '/api/cards/[id]': 10_000,
+  '/api/search': 30_000,
+  '/api/listings': 10_000,
+  '/api/listings/[id]': 10_000,
+  '/api/featured': 60_000,
+  '/': 60_000,
+  '/games': 300_000,
+  '/games/[slug]': 300_000,
+  '/sets/[slug]': 60_000,
+  '/search': 30_000,
+  '/sellers': 60_000,
+  '/sellers/[slug]': 30_000,
+  '/cards/[id]': 10_000,
+};
+
+interface CacheHit {
+  etag: string;
+  value(): unknown;
+  body(): string;
+}
+
+interface CacheBackend {
+  readonly mode: Exclude<CacheMode, 'off'>;
+  generation(): number;
+  get(key: string): CacheHit | undefined;
+  /** Dropped when `generation` is no longer current, i.e. a write raced the load */
+  set(key: string, value: unknown, body: string, etag: string, ttl: number, generation: number): void;
+  invalidate(): void;
+  /** Bytes held, by serialised size */
+  size(): number;
+}
+
+interface LruEntry {
+  value: unknown;
+  // Serialised once by set(), so hits do not pay for JSON.stringify
+  body: string;
+  etag: string;
+  bytes: number;
+  expires: number;
+  generation: number;
+}
+
+class LruCache implements CacheBackend {
+  readonly mode = 'lru';
+  // Map iteration order doubles as recency order: hits are moved to the end
+  private entries = new Map<string, LruEntry>();
+  private bytes = 0;
+  private currentGeneration = 0;
+
+  constructor(
+    private maxBytes: number,
+    private maxEntries: number
+  ) {}
+
+  generation(): number {
+    return this.currentGeneration;
+  }
+
+  get(key: string): CacheHit | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.delete(key, entry);
+    if (entry.expires <= Date.now() || entry.generation !== this.currentGeneration) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    this.bytes += entry.bytes;
+
+    return {
+      etag: entry.etag,
+      value: () => entry.value,
+      body: () => entry.body,
+    };
+  }
+
+  set(key: string, value: unknown, body: string, etag: string, ttl: number, generation: number): void {
+    const bytes = Buffer.byteLength(body);
+    if (generation !== this.currentGeneration || bytes > this.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) this.delete(key, existing);
+    this.entries.set(key, { value, body, etag, bytes, expires: Date.now() + ttl, generation });
+    this.bytes += bytes;
+
+    while (this.bytes > this.maxBytes || this.entries.size > this.maxEntries) {
+      const [oldestKey, oldest] = this.entries.entries().next().value!;
+      this.delete(oldestKey, oldest);
+    }
+  }
+
+  invalidate(): void {
+    this.currentGeneration++;
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  size(): number {
+    return this.bytes;
+  }
+
+  private delete(key: string, entry: LruEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
+
+// Shared cache layout: a small Int32 header (lock word and generation, then
+// the ring's write position as a float64), an open-addressed index of
+// [hash, position, expires, generation] float64 buckets, and the ring itself.
+// Records are [keyBytes, etagBytes, bodyBytes] as uint32 followed by the
+// three UTF-8 strings, and never wrap around the end of the ring.
+const LOCK = 0;
+const GENERATION = 1;
+const HEADER_BYTES = 64;
+const BUCKET_FIELDS = 4;
+const PROBES = 8;
+const RECORD_HEADER_BYTES = 12;
+
+interface SharedLayout {
+  header: Int32Array;
+  head: Float64Array;
+  index: Float64Array;
+  ring: Buffer;
+}
+
+function fnv1a(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+class SharedCache implements CacheBackend {
+  readonly mode = 'shared';
+  private layout: SharedLayout;
+  private buckets: number;
+
+  constructor(maxBytes: number) {
+    // One bucket per 2 KiB of ring, rounded down to a power of two
+    this.buckets = Math.max(256, 2 ** Math.floor(Math.log2(maxBytes / 2048)));
+    const byteLength = Math.max(maxBytes, HEADER_BYTES + this.buckets * BUCKET_FIELDS * 8 * 2);
+    this.layout = this.map(
+      shareBuffer('response-cache', byteLength, (buffer) => {
+        this.layout = this.map(buffer);
+      })
+    );
+  }
+
+  generation(): number {
+    return Atomics.load(this.layout.header, GENERATION);
+  }
+
+  get(key: string): CacheHit | undefined {
+    const layout = this.layout;
+    const hash = fnv1a(key);
+    let etag: string | undefined;
+    let body: string | undefined;
+
+    if (!this.lock(layout)) return undefined;
+    try {
+      const generation = Atomics.load(layout.header, GENERATION);
+      const now = Date.now();
+      for (let probe = 0; probe < PROBES; probe++) {
+        const slot = ((hash + probe) & (this.buckets - 1)) * BUCKET_FIELDS;
+        const { index } = layout;
+        if (
+          index[slot] !== hash ||
+          index[slot + 2] <= now ||
+          index[slot + 3] !== generation ||
+          !this.isLive(layout, index[slot + 1])
+        ) {
+          continue;
+        }
+
+        const { ring } = layout;
+        const offset = index[slot + 1] % ring.length;
+        const keyBytes = ring.readUInt32LE(offset);
+        const etagBytes = ring.readUInt32LE(offset + 4);
+        const bodyBytes = ring.readUInt32LE(offset + 8);
+        let cursor = offset + RECORD_HEADER_BYTES;
+        if (ring.toString('utf8', cursor, cursor + keyBytes) !== key) continue;
+        cursor += keyBytes;
+        etag = ring.toString('utf8', cursor, cursor + etagBytes);
+        cursor += etagBytes;
+        body = ring.toString('utf8', cursor, cursor + bodyBytes);
+        break;
+      }
+    } finally {
+      this.unlock(layout);
+    }
+
+    if (etag === undefined || body === undefined) return undefined;
+    const json = body;
+    return { etag, value: () => JSON.parse(json), body: () => json };
+  }
+
+  set(key: string, _value: unknown, body: string, etag: string, ttl: number, generation: number): void {
+    const layout = this.layout;
+    const { ring, index, head } = layout;
+    const keyBytes = Buffer.byteLength(key);
+    const etagBytes = Buffer.byteLength(etag);
+    const bodyBytes = Buffer.byteLength(body);
+    const recordBytes = RECORD_HEADER_BYTES + keyBytes + etagBytes + bodyBytes;
+    if (recordBytes > ring.length) return;
+
+    if (!this.lock(layout)) return;
+    try {
+      if (Atomics.load(layout.header, GENERATION) !== generation) return;
+
+      let position = head[0];
+      let offset = position % ring.length;
+      if (offset + recordBytes > ring.length) {
+        position += ring.length - offset;
+        offset = 0;
+      }
+      ring.writeUInt32LE(keyBytes, offset);
+      ring.writeUInt32LE(etagBytes, offset + 4);
+      ring.writeUInt32LE(bodyBytes, offset + 8);
+      let cursor = offset + RECORD_HEADER_BYTES;
+      cursor += ring.write(key, cursor, 'utf8');
+      cursor += ring.write(etag, cursor, 'utf8');
+      ring.write(body, cursor, 'utf8');
+      head[0] = position + recordBytes;
+
+      const hash = fnv1a(key);
+      const now = Date.now();
+      let target = -1;
+      let oldest = Infinity;
+      for (let probe = 0; probe < PROBES; probe++) {
+        const slot = ((hash + probe) & (this.buckets - 1)) * BUCKET_FIELDS;
+        // Reuse the bucket of this key (or one colliding with it), or any dead one
+        if (
+          index[slot] === hash ||
+          index[slot + 2] <= now ||
+          index[slot + 3] !== generation ||
+          !this.isLive(layout, index[slot + 1])
+        ) {
+          target = slot;
+          break;
+        }
+        if (index[slot + 1] < oldest) {
+          oldest = index[slot + 1];
+          target = slot;
+        }
+      }
+      index[target] = hash;
+      index[target + 1] = position;
+      index[target + 2] = now + ttl;
+      index[target + 3] = generation;
+    } finally {
+      this.unlock(layout);
+    }
+  }
+
+  invalidate(): void {
+    Atomics.add(this.layout.header, GENERATION, 1);
+  }
+
+  size(): number {
+    return Math.min(this.layout.head[0], this.layout.ring.length);
+  }
+
+  private map(buffer: SharedArrayBuffer): SharedLayout {
+    const indexBytes = this.buckets * BUCKET_FIELDS * 8;
+    return {
+      header: new Int32Array(buffer, 0, 4),
+      head: new Float64Array(buffer, 16, 1),
+      index: new Float64Array(buffer, HEADER_BYTES, this.buckets * BUCKET_FIELDS),
+      ring: Buffer.from(buffer, HEADER_BYTES + indexBytes),
+    };
+  }
+
+  // A record is live until the ring has wrapped past it
+  private isLive(layout: SharedLayout, position: number): boolean {
+    return layout.head[0] - position <= layout.ring.length;
+  }
+
+  // Critical sections only copy bytes, so waiting long means a thread died
+  // holding the lock; give up and treat the call as a miss rather than hang
+  private lock(layout: SharedLayout): boolean {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if (Atomics.compareExchange(layout.header, LOCK, 0, 1) === 0) return true;
+      Atomics.wait(layout.header, LOCK, 1, 1);
+    }
+    return false;
+  }
+
+  private unlock(layout: SharedLayout): void {
+    Atomics.store(layout.header, LOCK, 0);
+    Atomics.notify(layout.header, LOCK, 1);
+  }
+}
+
+function parseTtlOverrides(value: string): Map<string, number> {
+  const overrides = new Map<string, number>();
+  for (const entry of value.split(';')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf('=');
+    const ttl = Number(entry.slice(separator + 1));
+    if (separator === -1 || !Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(`Invalid cache TTL override "${entry}": expected <route>=<ms>`);
+    }
+    overrides.set(entry.slice(0, separator).trim(), ttl);
+  }
+  return overrides;
+}
+
+interface CacheState {
+  backend?: CacheBackend;
+  ttls: Map<string, number>;
+  defaultTtl: number;
+}
+
+function createCacheState(): CacheState {
+  const mode = process.env.CACHE_MODE || 'off';
+  const maxBytes = parseInt(process.env.CACHE_MAX_BYTES || String(64 * 1024 * 1024), 10);
+  const maxEntries = parseInt(process.env.CACHE_MAX_ENTRIES || '10000', 10);
+
+  let backend: CacheBackend | undefined;
+  switch (mode) {
+    case 'off':
+      break;
+    case 'lru':
+      backend = new LruCache(maxBytes, maxEntries);
+      break;
+    case 'shared':
+      backend = new SharedCache(maxBytes);
+      break;
+    default:
+      throw new Error(`Unknown CACHE_MODE "${mode}": expected off, lru or shared`);
+  }
+  if (backend) trackCacheSize(() => backend.size());
+
+  const ttls = new Map(Object.entries(ROUTE_TTLS));
+  for (const [route, ttl] of parseTtlOverrides(process.env.CACHE_TTL_OVERRIDES || '')) {
+    ttls.set(route, ttl);
+  }
+  return { backend, ttls, defaultTtl: parseInt(process.env.CACHE_TTL_MS || '30000', 10) };
+}
+
+// Shared across the separately bundled copies of this module (see telemetry.ts),
+// so that a write seen by the data store invalidates what the routes serve
+const STATE_KEY = Symbol.for('node-caged.response-cache');
+
+type GlobalWithCache = typeof globalThis & { [STATE_KEY]?: CacheState };
+
+function getState(): CacheState {
+  return ((globalThis as GlobalWithCache)[STATE_KEY] ??= createCacheState());
+}
+
+function computeEtag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  // Weak comparison, as If-None-Match requires
+  return header.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
+
+async function lookup<T>(
+  route: string,
+  key: string,
+  load: () => Promise<T | undefined>,
+  withEtag: boolean
+): Promise<{ hit: CacheHit; cached: boolean } | undefined> {
+  const { backend, ttls, defaultTtl } = getState();
+  const cacheKey = `${route}\0${key}`;
+
+  const hit = backend!.get(cacheKey);
+  if (hit) {
+    countCacheLookup('hit');
+    return { hit, cached: true };
+  }
+  countCacheLookup('miss');
+
+  const generation = backend!.generation();
+  const value = await load();
+  if (value === undefined) return undefined;
+
+  const body = JSON.stringify(value);
+  const etag = withEtag ? computeEtag(body) : '';
+  backend!.set(cacheKey, value, body, etag, ttls.get(route) ?? defaultTtl, generation);
+  return { hit: { etag, value: () => value, body: () => body }, cached: false };
+}
+
+/**
+ * Cache the data behind a page render under `route` and `key`. Values must
+ * survive a JSON round trip, as they do in shared mode.
+ */
+export async function cachedData<T>(
+  route: string,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  if (!getState().backend) return load();
+
+  const result = await lookup(route, key, load, false);
+  return result?.hit.value() as T;
+}
+
+/**
+ * Respond with `load()`'s result as JSON, cached under `route` and the request
+ * URL. Returns undefined when `load()` does, for the caller's 404. With the
+ * cache on, responses carry an ETag and a matching If-None-Match gets a 304.
+ */
+export async function cachedJson<T>(
+  request: Request,
+  route: string,
+  load: () => Promise<T>
+): Promise<undefined extends T ? Response | undefined : Response>;
+export async function cachedJson<T>(
+  request: Request,
+  route: string,
+  load: () => Promise<T | undefined>
+): Promise<Response | undefined> {
+  if (!getState().backend) {
+    const value = await load();
+    return value === undefined ? undefined : Response.json(value);
+  }
+
+  const url = new URL(request.url);
+  const result = await lookup(route, `${url.pathname}${url.search}`, load, true);
+  if (!result) return undefined;
+
+  const { hit, cached } = result;
+  const headers = {
+    ETag: hit.etag,
+    'Cache-Control': 'no-cache',
+    'X-Cache': cached ? 'HIT' : 'MISS',
+  };
+  if (matchesEtag(request.headers.get('if-none-match'), hit.etag)) {
+    countNotModified();
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(hit.body(), {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Create the cache at startup, so that in shared mode the worker threads have
+ * settled on one buffer before the first request fills it.
+ */
+export function startResponseCache(): void {
+  getState();
+}
+
+/** Called by the data stores on every write */
+export function invalidateCache(): void {
+  getState().backend?.invalidate();
+}
@@ -0,0 +1,225 @@
+/**
+ * Full-Text Card Search Index
+ *
+ * An inverted index over card names, types, rarities and text attributes
+ * (artist, energy types, ...) behind `sort=relevance`. Text is lowercased,
+ * stripped of accents and split on anything that is not a letter or digit.
+ * Each query token matches the exact term, terms it is a prefix of, and, for
+ * longer tokens, terms within one or two edits; a card has to match every
+ * token. Matches are scored with BM25 over per-field weighted term counts, and
+ * prefix and typo matches count for less than exact ones.
+ *
+ * Postings are plain objects in arrays per term, the pointer-dense shape a
+ * search engine's in-memory index has. Cards never change, so each store
+ * builds the index once from the full catalogue.
+ */
+
+import type { Card } from './types';
+
+interface Posting {
+  doc: number;
+  /** Term count in the card, weighted by the field it appears in */
+  tf: number;
+}
+
+// Weights per field, so a name match outranks one in the artist's name
+const FIELD_WEIGHTS = {
+  name: 3,
+  type: 1.5,
+  rarity: 1,
+  attributes: 1,
+};
+
+const EXACT_WEIGHT = 1;
+const PREFIX_WEIGHT = 0.7;
+const TYPO_WEIGHT = 0.4;
+// Cap on the terms one query token expands to through prefixes or typos
+const MAX_EXPANSIONS = 50;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function attributeText(attributes: Card['attributes']): string[] {
+  const texts: string[] = [];
+  for (const value of Object.values(attributes || {})) {
+    if (typeof value === 'string') {
+      texts.push(value);
+    } else if (Array.isArray(value)) {
+      texts.push(...value);
+    }
+  }
+  return texts;
+}
+
+/** Levenshtein distance, or `max + 1` as soon as it must exceed `max` */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (current[j] < rowMin) rowMin = current[j];
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class SearchIndex {
+  private ids: string[] = [];
+  private lengths: number[] = [];
+  private averageLength = 0;
+  private postings = new Map<string, Posting[]>();
+  // Vocabulary, sorted for prefix lookups and bucketed by length for typo lookups
+  private terms: string[] = [];
+  private termsByLength = new Map<number, string[]>();
+
+  static build(cards: Iterable<Card>): SearchIndex {
+    const index = new SearchIndex();
+    for (const card of cards) index.add(card);
+    index.finish();
+    return index;
+  }
+
+  private add(card: Card): void {
+    const doc = this.ids.length;
+    const counts = new Map<string, number>();
+    const fields: [number, string[]][] = [
+      [FIELD_WEIGHTS.name, [card.name]],
+      [FIELD_WEIGHTS.type, [card.type]],
+      [FIELD_WEIGHTS.rarity, [card.rarity]],
+      [FIELD_WEIGHTS.attributes, attributeText(card.attributes)],
+    ];
+
+    let length = 0;
+    for (const [weight, texts] of fields) {
+      for (const text of texts) {
+        if (typeof text !== 'string') continue;
+        for (const term of tokenize(text)) {
+          counts.set(term, (counts.get(term) || 0) + weight);
+          length += weight;
+        }
+      }
+    }
+
+    for (const [term, tf] of counts) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = [];
+        this.postings.set(term, postings);
+      }
+      postings.push({ doc, tf });
+    }
+    this.ids.push(card.id);
+    this.lengths.push(length);
+  }
+
+  private finish(): void {
+    const total = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.ids.length > 0 ? total / this.ids.length : 0;
+    this.terms = [...this.postings.keys()].sort();
+    for (const term of this.terms) {
+      let bucket = this.termsByLength.get(term.length);
+      if (!bucket) {
+        bucket = [];
+        this.termsByLength.set(term.length, bucket);
+      }
+      bucket.push(term);
+    }
+  }
+
+  /** BM25 scores of the cards matching every token of `query`, by card id */
+  search(query: string): Map<string, number> {
+    const tokens = [...new Set(tokenize(query))];
+    let scores: Map<number, number> | undefined;
+
+    for (const token of tokens) {
+      const tokenScores = new Map<number, number>();
+      for (const [term, weight] of this.expand(token)) {
+        const postings = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.ids.length - postings.length + 0.5) / (postings.length + 0.5));
+        for (const { doc, tf } of postings) {
+          const norm = K1 * (1 - B + (B * this.lengths[doc]) / this.averageLength);
+          const score = (weight * idf * tf * (K1 + 1)) / (tf + norm);
+          // A card matching a token several ways counts its best match
+          if (score > (tokenScores.get(doc) ?? 0)) tokenScores.set(doc, score);
+        }
+      }
+
+      if (!scores) {
+        scores = tokenScores;
+      } else {
+        const matched = new Map<number, number>();
+        for (const [doc, score] of scores) {
+          const tokenScore = tokenScores.get(doc);
+          if (tokenScore !== undefined) matched.set(doc, score + tokenScore);
+        }
+        scores = matched;
+      }
+      if (scores.size === 0) break;
+    }
+
+    const results = new Map<string, number>();
+    for (const [doc, score] of scores || []) results.set(this.ids[doc], score);
+    return results;
+  }
+
+  // Terms a query token matches, with the weight of each kind of match
+  private expand(token: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(token)) matches.set(token, EXACT_WEIGHT);
+
+    let expansions = 0;
+    if (token.length >= 2) {
+      for (let i = this.lowerBound(token); i < this.terms.length && expansions < MAX_EXPANSIONS; i++) {
+        const term = this.terms[i];
+        if (!term.startsWith(token)) break;
+        if (term === token) continue;
+        matches.set(term, PREFIX_WEIGHT);
+        expansions++;
+      }
+    }
+
+    if (token.length >= 4) {
+      const maxEdits = token.length >= 8 ? 2 : 1;
+      for (let length = token.length - maxEdits; length <= token.length + maxEdits; length++) {
+        for (const term of this.termsByLength.get(length) || []) {
+          if (expansions >= MAX_EXPANSIONS) return matches;
+          if (matches.has(term) || editDistance(token, term, maxEdits) > maxEdits) continue;
+          matches.set(term, TYPO_WEIGHT);
+          expansions++;
+        }
+      }
+    }
+    return matches;
+  }
+
+  private lowerBound(token: string): number {
+    let low = 0;
+    let high = this.terms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.terms[mid] < token) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
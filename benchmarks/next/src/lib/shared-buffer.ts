@@ -0,0 +1,156 @@
+/**
+ * SharedArrayBuffers Shared Across Worker Threads
+ *
+ * Watt runs each application worker as a thread of one process, with no hook
+ * to hand them memory up front, so the threads agree on shared memory over a
+ * BroadcastChannel per name:
+ *
+ * - `shareBuffer()`: every thread starts on a buffer of its own and announces
+ *   it, and a thread that hears of an older buffer adopts it and answers newer
+ *   ones with its own. All threads settle on the oldest live buffer. Data
+ *   written before a thread adopts an older buffer is dropped, so this suits
+ *   caches and other state that can be rebuilt.
+ * - `buildOnce()`: the oldest thread asking builds a value (typically a set of
+ *   SharedArrayBuffers too large to build per thread) and hands it to every
+ *   other thread, including ones started later.
+ *
+ * Under `next start` there is a single thread and everything stays local.
+ */
+
+import { BroadcastChannel, threadId } from 'worker_threads';
+
+interface Claim {
+  createdAt: number;
+  threadId: number;
+}
+
+interface Offer extends Claim {
+  buffer: SharedArrayBuffer;
+}
+
+function isOlder(a: Claim, b: Claim): boolean {
+  return a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.threadId < b.threadId);
+}
+
+/**
+ * Returns this thread's buffer for `name` and calls `onAdopt` whenever the
+ * thread switches to an older buffer offered by a peer.
+ */
+export function shareBuffer(
+  name: string,
+  byteLength: number,
+  onAdopt: (buffer: SharedArrayBuffer) => void
+): SharedArrayBuffer {
+  let current: Offer = { buffer: new SharedArrayBuffer(byteLength), createdAt: Date.now(), threadId };
+
+  const channel = new BroadcastChannel(`node-caged:${name}`);
+  channel.onmessage = (event) => {
+    const offer = event.data as Offer;
+    if (!(offer.buffer instanceof SharedArrayBuffer) || offer.buffer.byteLength !== byteLength) return;
+
+    if (isOlder(offer, current)) {
+      current = offer;
+      onAdopt(offer.buffer);
+    } else if (isOlder(current, offer)) {
+      channel.postMessage(current);
+    }
+  };
+  // The channel only serves peers, it must not keep the process alive
+  channel.unref();
+  channel.postMessage(current);
+
+  return current.buffer;
+}
+
+type BuildMessage<T> =
+  | ({ type: 'claim' } & Claim)
+  | { type: 'building' }
+  | { type: 'ready'; value: T };
+
+export interface BuildOnceOptions {
+  /** How long to listen for older threads before building */
+  settleMs: number;
+  /** How long to wait for another thread's build before building anyway */
+  waitMs: number;
+}
+
+/**
+ * Resolves to the value for `name` built by a single thread. A thread builds
+ * it unless it hears, within `settleMs`, of an older thread asking or of one
+ * already building; otherwise it waits for that thread's value, and builds its
+ * own after `waitMs` in case the builder died. Threads holding the value hand
+ * it to any thread that asks later.
+ */
+export function buildOnce<T>(
+  name: string,
+  build: () => Promise<T>,
+  { settleMs, waitMs }: BuildOnceOptions
+): Promise<T> {
+  const claim: Claim = { createdAt: Date.now(), threadId };
+  const channel = new BroadcastChannel(`node-caged:${name}`);
+  channel.unref();
+
+  return new Promise((resolve, reject) => {
+    let value: T | undefined;
+    let building = false;
+    let olderPeer = false;
+    let waitTimer: NodeJS.Timeout | undefined;
+
+    const finish = (result: T) => {
+      value = result;
+      clearTimeout(waitTimer);
+      resolve(result);
+    };
+
+    const startBuild = () => {
+      if (value !== undefined || building) return;
+      building = true;
+      channel.postMessage({ type: 'building' } satisfies BuildMessage<T>);
+      build().then(
+        (result) => {
+          building = false;
+          channel.postMessage({ type: 'ready', value: result } satisfies BuildMessage<T>);
+          finish(result);
+        },
+        (err) => {
+          building = false;
+          reject(err);
+        }
+      );
+    };
+
+    channel.onmessage = (event) => {
+      const message = event.data as BuildMessage<T>;
+      switch (message.type) {
+        case 'claim':
+          if (value !== undefined) {
+            channel.postMessage({ type: 'ready', value } satisfies BuildMessage<T>);
+          } else if (building) {
+            channel.postMessage({ type: 'building' } satisfies BuildMessage<T>);
+          } else if (isOlder(message, claim)) {
+            olderPeer = true;
+          } else {
+            // Tell the newer thread it is not the oldest
+            channel.postMessage({ type: 'claim', ...claim } satisfies BuildMessage<T>);
+          }
+          break;
+        case 'building':
+          olderPeer = true;
+          break;
+        case 'ready':
+          if (value === undefined && !building) finish(message.value);
+          break;
+      }
+    };
+    channel.postMessage({ type: 'claim', ...claim } satisfies BuildMessage<T>);
+
+    setTimeout(() => {
+      if (value !== undefined) return;
+      if (!olderPeer) {
+        startBuild();
+      } else {
+        waitTimer = setTimeout(startBuild, waitMs);
+      }
+    }, settleMs);
+  });
+}
@@ -0,0 +1,1312 @@
+/**
+ * Shared-Memory Columnar Data Store
+ *
+ * Keeps cards and listings once per process in SharedArrayBuffer-backed
+ * columnar tables (see ./columnar.ts) instead of once per Watt worker. The
+ * first worker to start builds the tables and every other worker attaches to
+ * them (see `buildOnce()` in ./shared-buffer.ts), so the dataset lives outside
+ * each worker's V8 heap and its pointer-compression cage. Records are decoded
+ * from the tables per query.
+ *
+ * The price history is built into tables of its own the same way, in the
+ * background once the other tables are ready, so startup does not wait for it.
+ * Trending cards are ranked once, by the building worker, as the history is
+ * never written.
+ *
+ * Games, sets, sellers and featured content are small and stay parsed in each
+ * worker. Listing writes and checkout run in one cross-thread critical section
+ * (SharedMutex) and are visible to every worker; readers do not lock, so a
+ * concurrent read may see a listing midway through an update. Carts and orders
+ * live in the memory of the worker that served them, and nothing survives a
+ * restart.
+ *
+ * When created listings fill the listings table, the worker writing copies it
+ * into one with twice the rows and announces the new buffers to the others,
+ * which switch over before their next write (see growListings()).
+ *
+ * Environment variables:
+ * - DB_SCALE: Integer factor of synthetic card/listing copies, as in JsonDatabase (default: 1)
+ * - DB_SHARED_HEADROOM: Listing rows reserved for created listings before the table grows (default: 10% of the listings, at least 10000)
+ * - DB_SHARED_WAIT_MS: How long a worker waits for another worker's build before building its own (default: 120000)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { BroadcastChannel, threadId } from 'worker_threads';
+import { countDbCall } from './metrics';
+import { SharedMutex } from './locks';
+import { buildOnce } from './shared-buffer';
+import { invalidateCache } from './response-cache';
+import { SearchIndex } from './search-index';
+import { FacetCounter } from './facets';
+import { matchesAttributes } from './attribute-filters';
+import { readJson } from './json-stream';
+import { TrendCounter, selectHistory, trendingIds } from './price-history';
+import { ColumnarTable, HashIndex, ChainIndex } from './columnar';
+import {
+  pageOfSorted,
+  catalogueOrdering,
+  fieldOrdering,
+  priceOrdering,
+  RELEVANCE_ORDERING,
+} from './cursor';
+import type { Schema, TableLayout, IndexLayout } from './columnar';
+import type { CursorKey, CursorOrdering, Ordering } from './cursor';
+import {
+  findDataDir,
+  resolveCart,
+  addCartItem,
+  setCartItemQuantity,
+  removeCartItem,
+  createOrder,
+  formatOrderId,
+  matchesFilter,
+  compareBy,
+  cardFilters,
+} from './store';
+import type { DataStore, PaginationOptions, SortOptions } from './store';
+import type {
+  Game,
+  CardSet,
+  Card,
+  CardAttributes,
+  Seller,
+  Listing,
+  ListingInput,
+  ListingUpdate,
+  Featured,
+  PaginatedResponse,
+  CardWithListings,
+  GameWithSets,
+  SetWithCards,
+  SellerWithListings,
+  ListingWithDetails,
+  Cart,
+  CartItem,
+  CartWithDetails,
+  Order,
+  StockConflict,
+  CheckoutResult,
+  CardSearchParams,
+  CardSearchResponse,
+  ListingSearchParams,
+  Condition,
+  PriceHistory,
+  PriceHistoryParams,
+  PricePoint,
+} from './types';
+
+const CARD_SCHEMA: Schema = {
+  id: 'string',
+  setId: 'dict',
+  gameId: 'dict',
+  name: 'string',
+  number: 'string',
+  rarity: 'dict',
+  type: 'dict',
+  imageUrl: 'string',
+  attributes: 'json',
+  // NaN while the card has no listings
+  lowestPrice: 'f64',
+};
+
+const LISTING_SCHEMA: Schema = {
+  id: 'string',
+  // Row of the card in the cards table
+  card: 'i32',
+  sellerId: 'dict',
+  condition: 'dict',
+  price: 'f64',
+  quantity: 'i32',
+  language: 'dict',
+  isFoil: 'bool',
+  deleted: 'bool',
+};
+
+const HISTORY_SCHEMA: Schema = {
+  // Row of the card in the cards table
+  card: 'i32',
+  condition: 'dict',
+  date: 'dict',
+  min: 'f64',
+  median: 'f64',
+  max: 'f64',
+  volume: 'i32',
+};
+
+// Spare dictionary entries and heap bytes for values first seen in writes
+const DICT_HEADROOM = 256;
+const DICT_VALUE_BYTES = 64;
+const CREATED_ID_BYTES = Buffer.byteLength(`listing-${randomUUID()}`);
+
+// Control words: the write lock, the order counter, the number of times the
+// listings table has grown, then listings per seller code
+const LOCK = 0;
+const ORDER_SEQ = 1;
+const LISTINGS_GENERATION = 2;
+const SELLER_COUNTS = 3;
+
+type ChainLayout = ChainIndex['layout'];
+
+// What the building worker hands to the others; every buffer is shared
+interface SharedDataset {
+  cards: TableLayout;
+  listings: TableLayout;
+  cardIds: IndexLayout;
+  listingIds: IndexLayout;
+  cardsBySet: ChainLayout;
+  cardsByGame: ChainLayout;
+  listingsByCard: ChainLayout;
+  listingsBySeller: ChainLayout;
+  control: SharedArrayBuffer;
+  builtBy: number;
+  buildMs: number;
+}
+
+interface Tables {
+  cards: ColumnarTable;
+  listings: ColumnarTable;
+  cardIds: HashIndex;
+  listingIds: HashIndex;
+  cardsBySet: ChainIndex;
+  cardsByGame: ChainIndex;
+  listingsByCard: ChainIndex;
+  listingsBySeller: ChainIndex;
+  control: Int32Array;
+}
+
+// The listing tables after a grow, which replace those in SharedDataset
+interface GrownListings {
+  generation: number;
+  listings: TableLayout;
+  listingIds: IndexLayout;
+  listingsByCard: ChainLayout;
+  listingsBySeller: ChainLayout;
+}
+
+type GrowthMessage = ({ type: 'grown' } & GrownListings) | { type: 'ask' };
+
+// The price history, handed over like SharedDataset
+interface SharedHistory {
+  history: TableLayout;
+  historyByCard: ChainLayout;
+  // Card ids ranked from the price history
+  trending: string[];
+  builtBy: number;
+  buildMs: number;
+}
+
+interface HistoryTables {
+  history: ColumnarTable;
+  historyByCard: ChainIndex;
+  trending: string[];
+}
+
+async function readCollection<T>(dataDir: string, name: string): Promise<T | undefined> {
+  const filePath = path.join(dataDir, `${name}.json`);
+  if (!fs.existsSync(filePath)) {
+    console.warn(`Data file not found: ${filePath}`);
+    return undefined;
+  }
+  return readJson<T>(filePath);
+}
+
+function textBytes(values: Iterable<string>): number {
+  let bytes = 0;
+  for (const value of values) bytes += Buffer.byteLength(value);
+  return bytes;
+}
+
+function distinct<T>(records: T[], field: keyof T): Set<string> {
+  return new Set(records.map((record) => String(record[field])));
+}
+
+class SharedStore implements DataStore {
+  readonly backend = 'shared';
+  private dataDir: string;
+  private scale: number;
+  private headroom?: number;
+  private waitMs: number;
+  private games: Game[] = [];
+  private sets: CardSet[] = [];
+  private sellers: Seller[] = [];
+  private featured: Featured | null = null;
+  private tables!: Tables;
+  // Times the listings table had grown when this worker last switched to it
+  private listingsGeneration = 0;
+  private growth!: BroadcastChannel;
+  private adopting?: Promise<void>;
+  private adopted?: () => void;
+  private historyTables?: Promise<HistoryTables>;
+  private mutex!: SharedMutex;
+  private searchIndex?: SearchIndex;
+  private carts = new Map<string, Cart>();
+  private orders = new Map<string, Order>();
+  private initializing?: Promise<void>;
+
+  constructor(dataDir?: string) {
+    this.dataDir = dataDir || findDataDir();
+    this.scale = Math.max(1, parseInt(process.env.DB_SCALE || '1', 10) || 1);
+    if (process.env.DB_SHARED_HEADROOM) {
+      this.headroom = Math.max(0, parseInt(process.env.DB_SHARED_HEADROOM, 10) || 0);
+    }
+    this.waitMs = parseInt(process.env.DB_SHARED_WAIT_MS || '120000', 10);
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initializing) this.initializing = this.load();
+    return this.initializing;
+  }
+
+  private async load(): Promise<void> {
+    const [games, sets, sellers, featured] = await Promise.all([
+      readCollection<Game[]>(this.dataDir, 'games'),
+      readCollection<CardSet[]>(this.dataDir, 'sets'),
+      readCollection<Seller[]>(this.dataDir, 'sellers'),
+      readCollection<Featured>(this.dataDir, 'featured'),
+    ]);
+    this.games = games || [];
+    this.sets = sets || [];
+    this.sellers = sellers || [];
+    this.featured = featured || null;
+
+    const dataset = await buildOnce('shared-store', () => this.build(), {
+      settleMs: 250,
+      waitMs: this.waitMs,
+    });
+    const cards = ColumnarTable.attach(dataset.cards);
+    const listings = ColumnarTable.attach(dataset.listings);
+    this.tables = {
+      cards,
+      listings,
+      cardIds: HashIndex.attach(cards, 'id', dataset.cardIds),
+      listingIds: HashIndex.attach(listings, 'id', dataset.listingIds),
+      cardsBySet: ChainIndex.attach(dataset.cardsBySet),
+      cardsByGame: ChainIndex.attach(dataset.cardsByGame),
+      listingsByCard: ChainIndex.attach(dataset.listingsByCard),
+      listingsBySeller: ChainIndex.attach(dataset.listingsBySeller),
+      control: new Int32Array(dataset.control),
+    };
+    this.mutex = new SharedMutex(this.tables.control, LOCK);
+    this.watchGrowth();
+    this.getHistoryTables().catch((err) => console.error('Building the shared price history failed:', err));
+
+    const source = dataset.builtBy === threadId ? 'built' : `attached, built by thread ${dataset.builtBy}`;
+    console.log(
+      `Shared store ${source} in ${dataset.buildMs}ms: ${cards.length} cards and ` +
+        `${listings.length} listings in ${(this.sharedBytes(dataset) / 1048576).toFixed(1)}MB`
+    );
+  }
+
+  private sharedBytes(dataset: SharedDataset): number {
+    return [
+      dataset.cards,
+      dataset.listings,
+      dataset.cardIds,
+      dataset.listingIds,
+      dataset.cardsBySet,
+      dataset.cardsByGame,
+      dataset.listingsByCard,
+      dataset.listingsBySeller,
+    ].reduce((bytes, { buffer }) => bytes + buffer.byteLength, dataset.control.byteLength);
+  }
+
+  // Runs in one worker: parses cards and listings and copies them into shared tables
+  private async build(): Promise<SharedDataset> {
+    const started = Date.now();
+    const [sourceCards = [], sourceListings = []] = await Promise.all([
+      readCollection<Card[]>(this.dataDir, 'cards'),
+      readCollection<Listing[]>(this.dataDir, 'listings'),
+    ]);
+    const scale = this.scale;
+    const suffixBytes = Buffer.byteLength(`-x${scale}`);
+
+    const cardDicts = (['setId', 'gameId', 'rarity', 'type'] as const).map((field) =>
+      distinct(sourceCards, field)
+    );
+    const cardText = sourceCards.map(
+      (card) =>
+        textBytes([card.id, card.name, card.number, card.imageUrl, JSON.stringify(card.attributes) ?? '']) +
+        suffixBytes
+    );
+    const cards = ColumnarTable.create(CARD_SCHEMA, {
+      capacity: sourceCards.length * scale,
+      heapBytes:
+        cardText.reduce((sum, bytes) => sum + bytes, 0) * scale +
+        cardDicts.reduce((sum, values) => sum + textBytes(values), 0),
+      dictCapacity: Math.max(1, ...cardDicts.map((values) => values.size)),
+      shared: true,
+    });
+
+    const headroom = this.headroom ?? Math.max(10000, Math.ceil(sourceListings.length * scale * 0.1));
+    const sellerIds = distinct(sourceListings, 'sellerId');
+    for (const seller of this.sellers) sellerIds.add(seller.id);
+    const listingDicts = [sellerIds, distinct(sourceListings, 'condition'), distinct(sourceListings, 'language')];
+    const listings = ColumnarTable.create(LISTING_SCHEMA, {
+      capacity: sourceListings.length * scale + headroom,
+      heapBytes:
+        (textBytes(sourceListings.map((listing) => listing.id)) + sourceListings.length * suffixBytes) * scale +
+        headroom * CREATED_ID_BYTES +
+        listingDicts.reduce((sum, values) => sum + textBytes(values), 0) +
+        DICT_HEADROOM * DICT_VALUE_BYTES * listingDicts.length,
+      dictCapacity: Math.max(...listingDicts.map((values) => values.size)) + DICT_HEADROOM,
+      shared: true,
+    });
+
+    const tables: Tables = {
+      cards,
+      listings,
+      cardIds: HashIndex.create(cards, 'id', true),
+      listingIds: HashIndex.create(listings, 'id', true),
+      cardsBySet: ChainIndex.create(cards.layout.options.dictCapacity, cards.capacity, true),
+      cardsByGame: ChainIndex.create(cards.layout.options.dictCapacity, cards.capacity, true),
+      listingsByCard: ChainIndex.create(cards.capacity, listings.capacity, true),
+      listingsBySeller: ChainIndex.create(listings.layout.options.dictCapacity, listings.capacity, true),
+      control: new Int32Array(
+        new SharedArrayBuffer((SELLER_COUNTS + listings.layout.options.dictCapacity) * 4)
+      ),
+    };
+
+    // Copies follow JsonDatabase: originals first, ids suffixed with -x<copy>
+    const cardIndex = new Map(sourceCards.map((card, i) => [card.id, i]));
+    for (let copy = 0; copy < scale; copy++) {
+      const suffix = copy === 0 ? '' : `-x${copy}`;
+      for (const card of sourceCards) {
+        const row = cards.append({ ...card, id: card.id + suffix, lowestPrice: NaN });
+        tables.cardIds.insert(row);
+        tables.cardsBySet.append(cards.getCode('setId', row), row);
+        tables.cardsByGame.append(cards.getCode('gameId', row), row);
+      }
+    }
+
+    let orphans = 0;
+    for (let copy = 0; copy < scale; copy++) {
+      const suffix = copy === 0 ? '' : `-x${copy}`;
+      for (const listing of sourceListings) {
+        const index = cardIndex.get(listing.cardId);
+        if (index === undefined) {
+          orphans++;
+          continue;
+        }
+        this.insertListing(tables, { ...listing, id: listing.id + suffix }, copy * sourceCards.length + index);
+      }
+    }
+    if (orphans > 0) {
+      console.warn(`Shared store skipped ${orphans} listings of unknown cards`);
+    }
+
+    return {
+      cards: cards.layout,
+      listings: listings.layout,
+      cardIds: tables.cardIds.layout,
+      listingIds: tables.listingIds.layout,
+      cardsBySet: tables.cardsBySet.layout,
+      cardsByGame: tables.cardsByGame.layout,
+      listingsByCard: tables.listingsByCard.layout,
+      listingsBySeller: tables.listingsBySeller.layout,
+      control: tables.control.buffer as SharedArrayBuffer,
+      builtBy: threadId,
+      buildMs: Date.now() - started,
+    };
+  }
+
+  private getHistoryTables(): Promise<HistoryTables> {
+    if (!this.historyTables) this.historyTables = this.loadHistory();
+    return this.historyTables;
+  }
+
+  private async loadHistory(): Promise<HistoryTables> {
+    const shared = await buildOnce('shared-store-history', () => this.buildHistory(), {
+      settleMs: 250,
+      waitMs: this.waitMs,
+    });
+    const history = ColumnarTable.attach(shared.history);
+
+    const source = shared.builtBy === threadId ? 'built' : `attached, built by thread ${shared.builtBy}`;
+    const bytes = shared.history.buffer.byteLength + shared.historyByCard.buffer.byteLength;
+    console.log(
+      `Shared price history ${source} in ${shared.buildMs}ms: ${history.length} points in ${(bytes / 1048576).toFixed(1)}MB`
+    );
+    return { history, historyByCard: ChainIndex.attach(shared.historyByCard), trending: shared.trending };
+  }
+
+  // Runs in one worker, once the card tables exist
+  private async buildHistory(): Promise<SharedHistory> {
+    const started = Date.now();
+    const { cards, cardIds } = this.tables;
+    const sourceHistory = (await readCollection<PricePoint[]>(this.dataDir, 'priceHistory')) || [];
+    const scale = this.scale;
+
+    const dicts = [distinct(sourceHistory, 'condition'), distinct(sourceHistory, 'date')];
+    const history = ColumnarTable.create(HISTORY_SCHEMA, {
+      capacity: Math.max(1, sourceHistory.length * scale),
+      heapBytes: dicts.reduce((sum, values) => sum + textBytes(values), 0),
+      dictCapacity: Math.max(1, ...dicts.map((values) => values.size)),
+      shared: true,
+    });
+    const historyByCard = ChainIndex.create(cards.capacity, history.capacity, true);
+
+    // Each copy's points count towards the copy of their card, as when
+    // JsonDatabase ranks its scaled collection
+    const counter = new TrendCounter();
+    let orphans = 0;
+    for (let copy = 0; copy < scale; copy++) {
+      const suffix = copy === 0 ? '' : `-x${copy}`;
+      for (const point of sourceHistory) {
+        const cardId = point.cardId + suffix;
+        const cardRow = cardIds.find(cardId);
+        if (cardRow === -1) {
+          orphans++;
+          continue;
+        }
+        historyByCard.append(cardRow, history.append({ ...point, card: cardRow }));
+        counter.add(cardId, point.date, point.volume, point.median * point.volume);
+      }
+    }
+    if (orphans > 0) {
+      console.warn(`Shared store skipped ${orphans} price points of unknown cards`);
+    }
+
+    return {
+      history: history.layout,
+      historyByCard: historyByCard.layout,
+      trending: counter.result(),
+      builtBy: threadId,
+      buildMs: Date.now() - started,
+    };
+  }
+
+  // Appends a listing and keeps indexes and aggregates in step; callers hold the lock
+  private insertListing(tables: Tables, listing: Listing, cardRow: number): number {
+    const { cards, listings } = tables;
+    const row = listings.append({ ...listing, card: cardRow, deleted: false });
+    tables.listingIds.insert(row);
+    tables.listingsByCard.append(cardRow, row);
+
+    const sellerCode = listings.getCode('sellerId', row);
+    tables.listingsBySeller.append(sellerCode, row);
+    tables.control[SELLER_COUNTS + sellerCode]++;
+
+    const lowest = cards.getNumber('lowestPrice', cardRow);
+    if (Number.isNaN(lowest) || listing.price < lowest) {
+      cards.setNumber('lowestPrice', cardRow, listing.price);
+    }
+    return row;
+  }
+
+  // The tables with room for `listing`, grown if need be; callers hold the lock
+  private roomFor(listing: Listing): Tables {
+    const { listings } = this.tables;
+    const full =
+      listings.length >= listings.capacity ||
+      listings.heapUsed + Buffer.byteLength(listing.id) > listings.layout.options.heapBytes;
+    return full ? this.growListings() : this.tables;
+  }
+
+  // Copies the listing tables into ones with twice the rows and tells the
+  // other workers; callers hold the lock. Rows keep their numbers and sellers
+  // their codes, so the cards' lowest prices, seller counts and cursors hold.
+  private growListings(): Tables {
+    const { listings, listingsByCard, listingsBySeller } = this.tables;
+    const { options } = listings.layout;
+    const grown = listings.resize({
+      ...options,
+      capacity: options.capacity * 2,
+      heapBytes: options.heapBytes + options.capacity * CREATED_ID_BYTES,
+    });
+    const listingIds = HashIndex.create(grown, 'id', true);
+    for (let row = 0; row < grown.length; row++) {
+      if (!grown.getBool('deleted', row)) listingIds.insert(row);
+    }
+
+    this.tables = {
+      ...this.tables,
+      listings: grown,
+      listingIds,
+      listingsByCard: listingsByCard.resize(grown.capacity, true),
+      listingsBySeller: listingsBySeller.resize(grown.capacity, true),
+    };
+    this.listingsGeneration = Atomics.add(this.tables.control, LISTINGS_GENERATION, 1) + 1;
+    this.growth.postMessage(this.grownMessage());
+    console.log(`Shared store grew the listings table to ${grown.capacity} rows`);
+    return this.tables;
+  }
+
+  private grownMessage(): GrowthMessage {
+    const { listings, listingIds, listingsByCard, listingsBySeller } = this.tables;
+    return {
+      type: 'grown',
+      generation: this.listingsGeneration,
+      listings: listings.layout,
+      listingIds: listingIds.layout,
+      listingsByCard: listingsByCard.layout,
+      listingsBySeller: listingsBySeller.layout,
+    };
+  }
+
+  // Workers hear of grown listing tables here; one that missed the news, e.g.
+  // by starting later, asks and any worker on the latest tables answers
+  private watchGrowth(): void {
+    const channel = new BroadcastChannel('node-caged:shared-store-listings');
+    channel.unref();
+    channel.onmessage = (event) => {
+      const message = event.data as GrowthMessage;
+      if (message.type === 'ask') {
+        if (this.listingsGeneration > 0 && this.isCurrent()) channel.postMessage(this.grownMessage());
+      } else if (message.generation > this.listingsGeneration) {
+        const listings = ColumnarTable.attach(message.listings);
+        this.tables = {
+          ...this.tables,
+          listings,
+          listingIds: HashIndex.attach(listings, 'id', message.listingIds),
+          listingsByCard: ChainIndex.attach(message.listingsByCard),
+          listingsBySeller: ChainIndex.attach(message.listingsBySeller),
+        };
+        this.listingsGeneration = message.generation;
+        this.adopted?.();
+      }
+    };
+    this.growth = channel;
+  }
+
+  private isCurrent(): boolean {
+    return this.listingsGeneration === Atomics.load(this.tables.control, LISTINGS_GENERATION);
+  }
+
+  // Resolves once this worker has switched to the latest listing tables
+  private async current(): Promise<void> {
+    while (!this.isCurrent()) {
+      if (!this.adopting) {
+        this.adopting = new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(
+            () => reject(new Error('Timed out waiting for the grown listings table')),
+            this.waitMs
+          );
+          this.adopted = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        }).finally(() => {
+          this.adopting = undefined;
+          this.adopted = undefined;
+        });
+        this.growth.postMessage({ type: 'ask' } satisfies GrowthMessage);
+      }
+      await this.adopting;
+    }
+  }
+
+  // Runs a listing write in the critical section. Writes must land in the
+  // latest tables, so a worker that finds them grown by another since open()
+  // switches over and tries again.
+  private async write<T>(method: string, fn: (tables: Tables) => T): Promise<T> {
+    await this.open(method);
+    for (;;) {
+      const done = this.mutex.withLock(() => (this.isCurrent() ? { result: fn(this.tables) } : undefined));
+      if (done) return done.result;
+      await this.current();
+    }
+  }
+
+  // Recompute a card's lowest price from its remaining listings after a write
+  private refreshLowestPrice(cardRow: number): void {
+    const { listings } = this.tables;
+    let lowest = NaN;
+    for (const row of this.liveRows(this.tables.listingsByCard, cardRow)) {
+      const price = listings.getNumber('price', row);
+      if (Number.isNaN(lowest) || price < lowest) lowest = price;
+    }
+    this.tables.cards.setNumber('lowestPrice', cardRow, lowest);
+  }
+
+  // Built per worker on first use: the postings are JS objects, not shared memory
+  private getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) this.searchIndex = SearchIndex.build(this.records<Card>('cards'));
+    return this.searchIndex;
+  }
+
+  private async open(method: string): Promise<Tables> {
+    countDbCall(method);
+    await this.initialize();
+    if (!this.isCurrent()) await this.current();
+    return this.tables;
+  }
+
+  private *liveRows(chain: ChainIndex, group: number): Generator<number> {
+    for (const row of chain.rows(group)) {
+      if (!this.tables.listings.getBool('deleted', row)) yield row;
+    }
+  }
+
+  private allListingRows(): number[] {
+    const { listings } = this.tables;
+    const rows: number[] = [];
+    for (let row = 0, length = listings.length; row < length; row++) {
+      if (!listings.getBool('deleted', row)) rows.push(row);
+    }
+    return rows;
+  }
+
+  private cardAt(row: number): Card {
+    const { cards } = this.tables;
+    return {
+      id: cards.getString('id', row),
+      setId: cards.getString('setId', row),
+      gameId: cards.getString('gameId', row),
+      name: cards.getString('name', row),
+      number: cards.getString('number', row),
+      rarity: cards.getString('rarity', row),
+      type: cards.getString('type', row),
+      imageUrl: cards.getString('imageUrl', row),
+      attributes: cards.getJson('attributes', row)!,
+    };
+  }
+
+  private listingAt(row: number): Listing {
+    const { cards, listings } = this.tables;
+    return {
+      id: listings.getString('id', row),
+      cardId: cards.getString('id', listings.getNumber('card', row)),
+      sellerId: listings.getString('sellerId', row),
+      condition: listings.getString('condition', row) as Condition,
+      price: listings.getNumber('price', row),
+      quantity: listings.getNumber('quantity', row),
+      language: listings.getString('language', row),
+      isFoil: listings.getBool('isFoil', row),
+    };
+  }
+
+  private pointAt(history: ColumnarTable, row: number): PricePoint {
+    const { cards } = this.tables;
+    return {
+      cardId: cards.getString('id', history.getNumber('card', row)),
+      condition: history.getString('condition', row) as Condition,
+      date: history.getString('date', row),
+      min: history.getNumber('min', row),
+      median: history.getNumber('median', row),
+      max: history.getNumber('max', row),
+      volume: history.getNumber('volume', row),
+    };
+  }
+
+  private findListingRow(id: string): number {
+    return this.tables.listingIds.find(id);
+  }
+
+  // Every record of a collection, decoded from the tables for cards and listings
+  private records<T>(collection: string): T[] {
+    switch (collection) {
+      case 'games':
+        return this.games as T[];
+      case 'sets':
+        return this.sets as T[];
+      case 'sellers':
+        return this.sellers as T[];
+      case 'featured':
+        return (this.featured ? [this.featured] : []) as T[];
+      case 'cards':
+        return Array.from({ length: this.tables.cards.length }, (_, row) => this.cardAt(row) as T);
+      case 'listings':
+        return this.allListingRows().map((row) => this.listingAt(row) as T);
+      default:
+        return [];
+    }
+  }
+
+  // `ordering` over table rows, whose sequence number is the row itself
+  private rowOrdering(
+    ordering: Ordering,
+    keyOf: (row: number) => CursorKey = () => null
+  ): CursorOrdering<number> {
+    return { ...ordering, position: (row) => ({ key: keyOf(row), seq: row }) };
+  }
+
+  // Generic query methods
+  async query<T>(collection: string, filter?: Partial<T>): Promise<T[]> {
+    await this.open('query');
+    return this.records<T>(collection).filter(matchesFilter(filter));
+  }
+
+  async findById<T extends { id: string }>(collection: string, id: string): Promise<T | undefined> {
+    const { cardIds } = await this.open('findById');
+    if (collection === 'cards') {
+      const row = cardIds.find(id);
+      return row === -1 ? undefined : (this.cardAt(row) as unknown as T);
+    }
+    if (collection === 'listings') {
+      const row = this.findListingRow(id);
+      return row === -1 ? undefined : (this.listingAt(row) as unknown as T);
+    }
+    return this.records<T>(collection).find((item) => item.id === id);
+  }
+
+  async findBySlug<T extends { slug: string }>(
+    collection: string,
+    slug: string
+  ): Promise<T | undefined> {
+    await this.open('findBySlug');
+    return this.records<T>(collection).find((item) => item.slug === slug);
+  }
+
+  async findMany<T extends { id: string }>(collection: string, ids: string[]): Promise<T[]> {
+    const { cardIds } = await this.open('findMany');
+    const unique = [...new Set(ids)];
+    if (collection === 'cards') {
+      return unique
+        .map((id) => cardIds.find(id))
+        .filter((row) => row !== -1)
+        .map((row) => this.cardAt(row) as unknown as T);
+    }
+    if (collection === 'listings') {
+      return unique
+        .map((id) => this.findListingRow(id))
+        .filter((row) => row !== -1)
+        .map((row) => this.listingAt(row) as unknown as T);
+    }
+    const idSet = new Set(unique);
+    return this.records<T>(collection).filter((item) => idSet.has(item.id));
+  }
+
+  async paginate<T>(
+    collection: string,
+    options: PaginationOptions<T> = {}
+  ): Promise<PaginatedResponse<T>> {
+    await this.open('paginate');
+    const { page = 1, limit = 20, cursor, filter, sort } = options;
+
+    // Listing records skip deleted rows, so their sequence is the row, not the index
+    const records = this.records<T>(collection);
+    const rows = collection === 'listings' ? this.allListingRows() : undefined;
+    const sequence = new Map(records.map((record, i) => [record, rows ? rows[i] : i]));
+
+    const data = records.filter(matchesFilter(filter));
+    if (sort) data.sort(compareBy(sort));
+    const ordering: CursorOrdering<T> = {
+      ...fieldOrdering(collection, sort),
+      position: (item) => ({
+        key: sort ? ((item[sort.field] ?? null) as CursorKey) : null,
+        seq: sequence.get(item)!,
+      }),
+    };
+    return pageOfSorted(data, { page, limit, cursor }, ordering);
+  }
+
+  // Domain-specific methods
+  async getGames(): Promise<Game[]> {
+    return this.query<Game>('games');
+  }
+
+  async getGameBySlug(slug: string): Promise<Game | undefined> {
+    return this.findBySlug<Game>('games', slug);
+  }
+
+  async getGameWithSets(slug: string): Promise<GameWithSets | undefined> {
+    await this.open('getGameWithSets');
+    const game = await this.getGameBySlug(slug);
+    if (!game) return undefined;
+
+    const sets = this.sets.filter((s) => s.gameId === game.id);
+    return { ...game, sets };
+  }
+
+  async getSets(gameId?: string): Promise<CardSet[]> {
+    const filter = gameId ? { gameId } : undefined;
+    return this.query<CardSet>('sets', filter as Partial<CardSet>);
+  }
+
+  async getSetBySlug(slug: string): Promise<CardSet | undefined> {
+    return this.findBySlug<CardSet>('sets', slug);
+  }
+
+  async getSetWithCards(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SetWithCards | undefined> {
+    const { cards, cardsBySet } = await this.open('getSetWithCards');
+    const set = await this.getSetBySlug(slug);
+    if (!set) return undefined;
+
+    const game = this.games.find((g) => g.id === set.gameId);
+    if (!game) return undefined;
+
+    const rows = [...cardsBySet.rows(cards.codeOf('setId', set.id))];
+    const { items, total, totalPages, nextCursor } = pageOfSorted(
+      rows,
+      { page, limit, cursor },
+      this.rowOrdering(catalogueOrdering('cards'))
+    );
+
+    const setCards = items.map((row) => this.cardAt(row));
+    return { ...set, cards: setCards, game, total, totalPages, nextCursor };
+  }
+
+  // Rows of the cards matching the filters of `params` in catalogue order,
+  // with the full-text scores they matched by when sorting by relevance
+  private cardRows(
+    { cards, cardsByGame }: Tables,
+    params: CardSearchParams
+  ): { rows: number[]; relevance?: Map<number, number> } {
+    const { game, set, rarity, type, q, sort } = params;
+
+    // Unknown game or set slugs leave the filter off, as in JsonDatabase
+    const gameObj = game ? this.games.find((g) => g.slug === game) : undefined;
+    let rows = gameObj
+      ? [...cardsByGame.rows(cards.codeOf('gameId', gameObj.id))]
+      : Array.from({ length: cards.length }, (_, row) => row);
+
+    const setObj = set ? this.sets.find((s) => s.slug === set) : undefined;
+    if (setObj) {
+      const code = cards.codeOf('setId', setObj.id);
+      rows = rows.filter((row) => cards.getCode('setId', row) === code);
+    }
+
+    if (rarity) {
+      const code = cards.codeOf('rarity', rarity);
+      rows = rows.filter((row) => cards.getCode('rarity', row) === code);
+    }
+
+    if (type) {
+      const code = cards.codeOf('type', type);
+      rows = rows.filter((row) => cards.getCode('type', row) === code);
+    }
+
+    if (params.attributes?.length) {
+      const filters = params.attributes;
+      rows = rows.filter((row) =>
+        matchesAttributes(cards.getJson<CardAttributes>('attributes', row), filters)
+      );
+    }
+
+    // Relevance ranking matches through the full-text index instead
+    let relevance: Map<number, number> | undefined;
+    if (q && sort === 'relevance') {
+      const scores = this.getSearchIndex().search(q);
+      relevance = new Map();
+      for (const [id, score] of scores) relevance.set(this.tables.cardIds.find(id), score);
+      rows = rows.filter((row) => relevance!.has(row));
+    } else if (q) {
+      const needle = q.toLowerCase();
+      // Dictionary columns are matched once per distinct value
+      const matchingCodes = (column: string) => {
+        const codes = new Set<number>();
+        for (let code = 0; code < cards.dictSize(column); code++) {
+          if (cards.dictValue(column, code).toLowerCase().includes(needle)) codes.add(code);
+        }
+        return codes;
+      };
+      const types = matchingCodes('type');
+      const rarities = matchingCodes('rarity');
+      rows = rows.filter(
+        (row) =>
+          cards.getString('name', row).toLowerCase().includes(needle) ||
+          types.has(cards.getCode('type', row)) ||
+          rarities.has(cards.getCode('rarity', row))
+      );
+    }
+
+    if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+      rows = rows.filter((row) => {
+        const price = cards.getNumber('lowestPrice', row);
+        if (Number.isNaN(price)) return false;
+        if (params.minPrice !== undefined && price < params.minPrice) return false;
+        if (params.maxPrice !== undefined && price > params.maxPrice) return false;
+        return true;
+      });
+    }
+
+    return { rows, relevance };
+  }
+
+  async searchCards(params: CardSearchParams): Promise<CardSearchResponse> {
+    const tables = await this.open('searchCards');
+    const { cards } = tables;
+    const { page = 1, limit = 20, cursor, sort, order = 'asc' } = params;
+    const matches = this.cardRows(tables, params);
+    const { relevance } = matches;
+    let rows = matches.rows;
+
+    // Facets count every match, before the page is cut
+    const counter = params.facets ? new FacetCounter() : undefined;
+    if (counter) {
+      for (const row of rows) {
+        const lowestPrice = cards.getNumber('lowestPrice', row);
+        counter.add(
+          {
+            gameId: cards.getString('gameId', row),
+            setId: cards.getString('setId', row),
+            rarity: cards.getString('rarity', row),
+            type: cards.getString('type', row),
+          },
+          Number.isNaN(lowestPrice) ? undefined : lowestPrice
+        );
+      }
+    }
+
+    let ordering = this.rowOrdering(catalogueOrdering('cards'));
+    if (sort === 'name') {
+      rows = rows
+        .map((row) => ({ row, name: cards.getString('name', row) }))
+        .sort(compareBy({ field: 'name', order }))
+        .map(({ row }) => row);
+      ordering = this.rowOrdering(fieldOrdering<Card>('cards', { field: 'name', order }), (row) =>
+        cards.getString('name', row)
+      );
+    } else if (sort === 'price') {
+      const priceOf = (row: number) => {
+        const price = cards.getNumber('lowestPrice', row);
+        return Number.isNaN(price) ? Infinity : price;
+      };
+      rows.sort((a, b) => (order === 'asc' ? priceOf(a) - priceOf(b) : priceOf(b) - priceOf(a)));
+      ordering = this.rowOrdering(priceOrdering(order), (row) => {
+        const price = priceOf(row);
+        return price === Infinity ? null : price;
+      });
+    } else if (relevance) {
+      // Best match first whatever the order, ties in catalogue order
+      rows.sort((a, b) => relevance.get(b)! - relevance.get(a)!);
+      ordering = this.rowOrdering(RELEVANCE_ORDERING, (row) => relevance.get(row)!);
+    }
+
+    const rowPage = pageOfSorted(rows, { page, limit, cursor }, ordering);
+    const result: CardSearchResponse = { ...rowPage, items: rowPage.items.map((row) => this.cardAt(row)) };
+    if (counter) result.facets = counter.result();
+    return result;
+  }
+
+  async getCardById(id: string): Promise<Card | undefined> {
+    return this.findById<Card>('cards', id);
+  }
+
+  async getCardWithListings(id: string): Promise<CardWithListings | undefined> {
+    const { cardIds, listingsByCard } = await this.open('getCardWithListings');
+    const row = cardIds.find(id);
+    if (row === -1) return undefined;
+
+    const listings = [...this.liveRows(listingsByCard, row)].map((l) => this.listingAt(l));
+    const lowestPrice = listings.length > 0
+      ? Math.min(...listings.map((l) => l.price))
+      : undefined;
+
+    return { ...this.cardAt(row), listings, lowestPrice, listingCount: listings.length };
+  }
+
+  async getPriceHistory(cardId: string, params?: PriceHistoryParams): Promise<PriceHistory | undefined> {
+    const { cardIds } = await this.open('getPriceHistory');
+    const row = cardIds.find(cardId);
+    if (row === -1) return undefined;
+
+    const { history, historyByCard } = await this.getHistoryTables();
+    const points = [...historyByCard.rows(row)].map((point) => this.pointAt(history, point));
+    return selectHistory(cardId, points, params);
+  }
+
+  // Rows of the live listings matching the filters of `params`, in catalogue order
+  private listingRows({ cardIds, listings, listingsByCard }: Tables, params: ListingSearchParams): number[] {
+    const { cardId, sellerId, condition, minPrice, maxPrice } = params;
+
+    let rows: number[];
+    if (cardId) {
+      const cardRow = cardIds.find(cardId);
+      rows = cardRow === -1 ? [] : [...this.liveRows(listingsByCard, cardRow)];
+    } else {
+      rows = this.allListingRows();
+    }
+
+    if (sellerId) {
+      const code = listings.codeOf('sellerId', sellerId);
+      rows = rows.filter((row) => listings.getCode('sellerId', row) === code);
+    }
+
+    if (condition) {
+      const code = listings.codeOf('condition', condition);
+      rows = rows.filter((row) => listings.getCode('condition', row) === code);
+    }
+
+    if (minPrice !== undefined) {
+      rows = rows.filter((row) => listings.getNumber('price', row) >= minPrice);
+    }
+
+    if (maxPrice !== undefined) {
+      rows = rows.filter((row) => listings.getNumber('price', row) <= maxPrice);
+    }
+
+    return rows;
+  }
+
+  async getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>> {
+    const tables = await this.open('getListings');
+    const { listings } = tables;
+    const { page = 1, limit = 20, cursor } = params;
+    const rows = this.listingRows(tables, params);
+
+    // Sort by price ascending, ties in insertion order
+    rows.sort((a, b) => listings.getNumber('price', a) - listings.getNumber('price', b));
+
+    const sort: SortOptions<Listing> = { field: 'price', order: 'asc' };
+    const ordering = this.rowOrdering(fieldOrdering('listings', sort), (row) =>
+      listings.getNumber('price', row)
+    );
+    const rowPage = pageOfSorted(rows, { page, limit, cursor }, ordering);
+    return { ...rowPage, items: rowPage.items.map((row) => this.listingAt(row)) };
+  }
+
+  // Only the matching rows are collected; each record is decoded from the
+  // tables as it is sent
+  async *exportCards(params: CardSearchParams): AsyncGenerator<Card> {
+    const tables = await this.open('exportCards');
+    for (const row of this.cardRows(tables, cardFilters(params)).rows) {
+      yield this.cardAt(row);
+    }
+  }
+
+  async *exportListings(params: ListingSearchParams): AsyncGenerator<Listing> {
+    const tables = await this.open('exportListings');
+    for (const row of this.listingRows(tables, params)) {
+      // Skips listings deleted while the export runs
+      if (!tables.listings.getBool('deleted', row)) yield this.listingAt(row);
+    }
+  }
+
+  async getListingById(id: string): Promise<Listing | undefined> {
+    return this.findById<Listing>('listings', id);
+  }
+
+  async getListingWithDetails(id: string): Promise<ListingWithDetails | undefined> {
+    const { listings } = await this.open('getListingWithDetails');
+    const row = this.findListingRow(id);
+    if (row === -1) return undefined;
+
+    const listing = this.listingAt(row);
+    const card = this.cardAt(listings.getNumber('card', row));
+    const seller = this.sellers.find((s) => s.id === listing.sellerId);
+    if (!seller) return undefined;
+
+    return { ...listing, card, seller };
+  }
+
+  async getSellers(): Promise<Seller[]> {
+    return this.query<Seller>('sellers');
+  }
+
+  async getSellerBySlug(slug: string): Promise<Seller | undefined> {
+    return this.findBySlug<Seller>('sellers', slug);
+  }
+
+  async getSellerWithListings(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SellerWithListings | undefined> {
+    const { listings, listingsBySeller } = await this.open('getSellerWithListings');
+    const seller = await this.getSellerBySlug(slug);
+    if (!seller) return undefined;
+
+    const rows = [...this.liveRows(listingsBySeller, listings.codeOf('sellerId', seller.id))];
+    const { items, total, totalPages, nextCursor } = pageOfSorted(
+      rows,
+      { page, limit, cursor },
+      this.rowOrdering(catalogueOrdering('listings'))
+    );
+
+    const sellerListings = items.map((row) => this.listingAt(row));
+    return { ...seller, listings: sellerListings, total, totalPages, nextCursor };
+  }
+
+  async getSellerListingCounts(): Promise<Map<string, number>> {
+    const { listings, control } = await this.open('getSellerListingCounts');
+    const counts = new Map<string, number>();
+    for (let code = 0; code < listings.dictSize('sellerId'); code++) {
+      const count = Atomics.load(control, SELLER_COUNTS + code);
+      if (count > 0) counts.set(listings.dictValue('sellerId', code), count);
+    }
+    return counts;
+  }
+
+  async getFeatured(): Promise<Featured | null> {
+    await this.open('getFeatured');
+    return this.featured;
+  }
+
+  // The featured file is parsed once, the same content
+  async getFeaturedContent(): Promise<Featured | null> {
+    await this.open('getFeaturedContent');
+    return this.featured;
+  }
+
+  async getTrendingCards(limit = 10): Promise<Card[]> {
+    const { cardIds } = await this.open('getTrendingCards');
+    const { trending } = await this.getHistoryTables();
+    return trendingIds(trending, this.featured, limit)
+      .map((id) => cardIds.find(id))
+      .filter((row) => row !== -1)
+      .map((row) => this.cardAt(row));
+  }
+
+  async getNewReleaseSets(limit = 5): Promise<CardSet[]> {
+    await this.open('getNewReleaseSets');
+    if (!this.featured) return [];
+
+    const releaseIds = new Set(this.featured.newReleases.slice(0, limit));
+    return this.sets.filter((s) => releaseIds.has(s.id));
+  }
+
+  // Cart sessions, kept in memory for the lifetime of the worker
+  async getCartWithDetails(cartId: string): Promise<CartWithDetails> {
+    countDbCall('getCartWithDetails');
+    return resolveCart(this.carts.get(cartId), (id) => this.getListingWithDetails(id));
+  }
+
+  async addToCart(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('addToCart');
+    const listing = await this.getListingById(listingId);
+    if (!listing) return undefined;
+
+    let cart = this.carts.get(cartId);
+    if (!cart) {
+      cart = { items: [], updatedAt: new Date().toISOString() };
+      this.carts.set(cartId, cart);
+    }
+    addCartItem(cart, listingId, quantity);
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async updateCartItem(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('updateCartItem');
+    const cart = this.carts.get(cartId);
+    if (!cart || !setCartItemQuantity(cart, listingId, quantity)) return undefined;
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async removeFromCart(cartId: string, listingId?: string): Promise<CartWithDetails> {
+    countDbCall('removeFromCart');
+    const cart = this.carts.get(cartId);
+    if (cart && listingId) {
+      removeCartItem(cart, listingId);
+    } else if (cart) {
+      this.carts.delete(cartId);
+    }
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  // Listing writes, each one critical section across every worker
+  async createListing(input: ListingInput): Promise<Listing> {
+    const listing: Listing = { id: `listing-${randomUUID()}`, ...input };
+
+    await this.write('createListing', ({ cardIds }) => {
+      const cardRow = cardIds.find(listing.cardId);
+      if (cardRow === -1) throw new Error(`Unknown card "${listing.cardId}"`);
+      this.insertListing(this.roomFor(listing), listing, cardRow);
+    });
+    invalidateCache();
+    return listing;
+  }
+
+  async updateListing(id: string, update: ListingUpdate): Promise<Listing | undefined> {
+    const listing = await this.write('updateListing', ({ listings }) => {
+      const row = this.findListingRow(id);
+      if (row === -1) return undefined;
+
+      if (update.condition !== undefined) listings.setDict('condition', row, update.condition);
+      if (update.price !== undefined) listings.setNumber('price', row, update.price);
+      if (update.quantity !== undefined) listings.setNumber('quantity', row, update.quantity);
+      if (update.language !== undefined) listings.setDict('language', row, update.language);
+      if (update.isFoil !== undefined) listings.setBool('isFoil', row, update.isFoil);
+      if (update.price !== undefined) this.refreshLowestPrice(listings.getNumber('card', row));
+      return this.listingAt(row);
+    });
+    if (listing) invalidateCache();
+    return listing;
+  }
+
+  async deleteListing(id: string): Promise<boolean> {
+    const deleted = await this.write('deleteListing', ({ listings, listingIds, control }) => {
+      const row = this.findListingRow(id);
+      if (row === -1) return false;
+
+      listings.setBool('deleted', row, true);
+      listingIds.remove(row);
+      control[SELLER_COUNTS + listings.getCode('sellerId', row)]--;
+      this.refreshLowestPrice(listings.getNumber('card', row));
+      return true;
+    });
+    if (deleted) invalidateCache();
+    return deleted;
+  }
+
+  // Checkout: checks and reserves listing quantity in one critical section, so
+  // concurrent orders for the same listing cannot oversell it from any worker.
+  // The cart is taken out before open() awaits, so a second checkout of it
+  // finds it empty, and is put back if the order fails.
+  async checkout(cartId: string): Promise<CheckoutResult> {
+    const cart = this.carts.get(cartId);
+    if (!cart || cart.items.length === 0) {
+      return { ok: false, reason: 'empty_cart' };
+    }
+    this.carts.delete(cartId);
+
+    let result: CheckoutResult | undefined;
+    try {
+      result = await this.reserve(cart.items.map((item) => ({ ...item })));
+      return result;
+    } finally {
+      if (!result?.ok && !this.carts.has(cartId)) this.carts.set(cartId, cart);
+    }
+  }
+
+  private async reserve(items: CartItem[]): Promise<CheckoutResult> {
+    const result = await this.write('checkout', ({ listings, control }): CheckoutResult => {
+      const conflicts: StockConflict[] = [];
+      const reserved: { row: number; quantity: number }[] = [];
+      for (const item of items) {
+        const row = this.findListingRow(item.listingId);
+        const available = row === -1 ? 0 : listings.getNumber('quantity', row);
+        if (row === -1 || available < item.quantity) {
+          conflicts.push({ listingId: item.listingId, requested: item.quantity, available });
+        } else {
+          reserved.push({ row, quantity: item.quantity });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return { ok: false, reason: 'insufficient_stock', conflicts };
+      }
+
+      for (const { row, quantity } of reserved) {
+        listings.setNumber('quantity', row, listings.getNumber('quantity', row) - quantity);
+      }
+      const order = createOrder(
+        formatOrderId(Atomics.add(control, ORDER_SEQ, 1) + 1),
+        reserved.map(({ row, quantity }) => ({ listing: this.listingAt(row), quantity }))
+      );
+      return { ok: true, order };
+    });
+
+    if (result.ok) {
+      this.orders.set(result.order.id, result.order);
+      invalidateCache();
+    }
+    return result;
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    countDbCall('getOrder');
+    return this.orders.get(id);
+  }
+}
+
+export { SharedStore };
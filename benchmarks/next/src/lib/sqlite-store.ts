@@ -0,0 +1,1017 @@
+/**
+ * SQLite Data Store
+ *
+ * Keeps every collection in an SQLite file through the `sqlite3` driver. It is
+ * an N-API addon, so unlike better-sqlite3 it loads under pointer compression.
+ * Records are stored as JSON documents, with expression indexes on the same
+ * fields JsonDatabase indexes, so queries keep the JSON backend's semantics
+ * while the data lives outside the V8 heap.
+ *
+ * The file is created and filled from the *.json collections on first start,
+ * and collections added since are filled from theirs when the file next opens.
+ * Workers opening the file together queue on SQLite's write lock, so only the
+ * first fills it and the others wait for it (up to DB_SQLITE_BUSY_MS).
+ *
+ * Environment variables:
+ * - DB_SQLITE_FILE: Database file (default: <data dir>/marketplace.sqlite)
+ * - DB_SQLITE_BUSY_MS: How long to wait for another connection's write lock (default: 120000)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { countDbCall } from './metrics';
+import { KeyedMutex } from './locks';
+import { invalidateCache } from './response-cache';
+import { SearchIndex } from './search-index';
+import { FacetCounter } from './facets';
+import { readJsonRecords } from './json-stream';
+import { TrendCounter, TREND_WINDOW_DAYS, selectHistory, trendingIds } from './price-history';
+import {
+  decodeCursor,
+  encodeCursor,
+  catalogueOrdering,
+  fieldOrdering,
+  priceOrdering,
+  RELEVANCE_ORDERING,
+} from './cursor';
+import {
+  findDataDir,
+  toPage,
+  resolveCart,
+  addCartItem,
+  setCartItemQuantity,
+  removeCartItem,
+  createOrder,
+  formatOrderId,
+  cardFilters,
+} from './store';
+import type { Database } from 'sqlite3';
+import type { DataStore, PaginationOptions, SortOptions } from './store';
+import type { CursorKey, CursorPosition, Ordering } from './cursor';
+import type {
+  Game,
+  CardSet,
+  Card,
+  Seller,
+  Listing,
+  ListingInput,
+  ListingUpdate,
+  Featured,
+  PaginatedResponse,
+  CardWithListings,
+  GameWithSets,
+  SetWithCards,
+  SellerWithListings,
+  ListingWithDetails,
+  Cart,
+  CartWithDetails,
+  Order,
+  StockConflict,
+  CheckoutResult,
+  AttributeFilter,
+  CardSearchParams,
+  CardSearchResponse,
+  ListingSearchParams,
+  PriceHistory,
+  PriceHistoryParams,
+  PricePoint,
+} from './types';
+
+const SEEDED_TABLES = ['games', 'sets', 'cards', 'sellers', 'listings', 'priceHistory', 'featured'];
+const TABLES = [...SEEDED_TABLES, 'carts', 'orders'];
+
+// Expression indexes, mirroring JsonDatabase's slug and foreign-key indexes
+const INDEXED_FIELDS: Record<string, string[]> = {
+  games: ['slug'],
+  sets: ['slug', 'gameId'],
+  cards: ['setId', 'gameId'],
+  sellers: ['slug'],
+  listings: ['cardId', 'sellerId'],
+  priceHistory: ['cardId'],
+};
+
+interface DocumentRow {
+  data: string;
+}
+
+interface PageRow extends DocumentRow {
+  seq: number;
+  sortKey: CursorKey;
+}
+
+// The ordering of a paginated query: `key`, an SQL expression over the source,
+// sorted by `order` and then seq, or catalogue (seq) order without one
+interface SqlOrdering extends Ordering {
+  key?: string;
+}
+
+// Rows of `source` matching `conditions`, whose parameters `values` binds
+// after those of the source
+interface FilteredSource {
+  source: string;
+  conditions: string[];
+  values: unknown[];
+}
+
+// Rows fetched per query by the exports
+const EXPORT_BATCH = 500;
+
+const FACET_FIELDS = ['gameId', 'setId', 'rarity', 'type'] as const;
+
+type FacetRow = Pick<Card, (typeof FACET_FIELDS)[number]> & { lowestPrice: number | null };
+
+function field(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid field name "${name}"`);
+  }
+  return `json_extract(data, '$.${name}')`;
+}
+
+// Numbers, or text that reads as one, the way matchesAttributes compares ranges
+const NUMERIC_VALUE = `(attr.type IN ('integer', 'real') OR (attr.type = 'text'
+  AND ltrim(attr.value, '-') GLOB '[0-9]*' AND ltrim(attr.value, '-') NOT GLOB '*[^0-9.]*'))`;
+
+const RANGE_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+// An attribute filter as an EXISTS over json_each, which yields the elements of
+// an array attribute or the attribute itself, so either can match as in
+// matchesAttributes (see ./attribute-filters.ts)
+function attributeCondition(filter: AttributeFilter, values: unknown[]): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(filter.attribute)) {
+    throw new Error(`Invalid attribute name "${filter.attribute}"`);
+  }
+  let test: string;
+  switch (filter.op) {
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      test = `${NUMERIC_VALUE} AND CAST(attr.value AS REAL) ${RANGE_OPERATORS[filter.op]} ?`;
+      values.push(filter.value);
+      break;
+    case 'eq':
+      if (typeof filter.value === 'number') {
+        test = `${NUMERIC_VALUE} AND CAST(attr.value AS REAL) = ?`;
+        values.push(filter.value);
+      } else {
+        test = `attr.type = 'text' AND lower(attr.value) = ?`;
+        values.push(filter.value.toLowerCase());
+      }
+      break;
+    case 'prefix':
+      test = `attr.type = 'text' AND substr(lower(attr.value), 1, ?) = ?`;
+      values.push(filter.value.length, filter.value.toLowerCase());
+      break;
+    case 'in':
+      test = `attr.type = 'text' AND lower(attr.value) IN (${filter.value.map(() => '?').join(', ')})`;
+      values.push(...filter.value.map((item) => item.toLowerCase()));
+      break;
+  }
+  return `EXISTS (SELECT 1 FROM json_each(data, '$.attributes.${filter.attribute}') AS attr WHERE ${test})`;
+}
+
+function listingSource(params: ListingSearchParams): FilteredSource {
+  const { cardId, sellerId, condition, minPrice, maxPrice } = params;
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  const equal: [string, unknown][] = [['cardId', cardId], ['sellerId', sellerId], ['condition', condition]];
+  for (const [name, value] of equal) {
+    if (!value) continue;
+    conditions.push(`${field(name)} = ?`);
+    values.push(value);
+  }
+  if (minPrice !== undefined) {
+    conditions.push(`${field('price')} >= ?`);
+    values.push(minPrice);
+  }
+  if (maxPrice !== undefined) {
+    conditions.push(`${field('price')} <= ?`);
+    values.push(maxPrice);
+  }
+
+  return { source: '(SELECT rowid AS seq, data FROM listings)', conditions, values };
+}
+
+function table(collection: string): string {
+  if (!TABLES.includes(collection)) {
+    throw new Error(`Unknown collection "${collection}"`);
+  }
+  return collection;
+}
+
+// json_extract returns 1/0 for JSON booleans
+function bindValue(value: unknown): unknown {
+  return typeof value === 'boolean' ? Number(value) : value;
+}
+
+function where(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+function nullsFirst({ order }: SqlOrdering): boolean {
+  return order.nulls === 'high' && order.direction === 'desc';
+}
+
+function orderBy(ordering: SqlOrdering): string {
+  const { key, order } = ordering;
+  if (!key) return 'seq';
+  const direction = order.direction === 'asc' ? 'ASC' : 'DESC';
+  return `${key} IS NULL${nullsFirst(ordering) ? ' DESC' : ''}, ${key} ${direction}, seq`;
+}
+
+// Rows sorting after `after`, the keyset equivalent of compareKeys in ./cursor.ts
+function afterCondition(ordering: SqlOrdering, after: CursorPosition, values: unknown[]): string {
+  const { key, order } = ordering;
+  if (!key) {
+    values.push(after.seq);
+    return 'seq > ?';
+  }
+  if (after.key === null) {
+    values.push(after.seq);
+    return nullsFirst(ordering) ? `(${key} IS NOT NULL OR seq > ?)` : `(${key} IS NULL AND seq > ?)`;
+  }
+
+  const beyond = order.direction === 'asc' ? '>' : '<';
+  values.push(bindValue(after.key), bindValue(after.key), after.seq);
+  const afterKey = `${key} ${beyond} ? OR (${key} = ? AND seq > ?)`;
+  return nullsFirst(ordering) ? `(${afterKey})` : `(${key} IS NULL OR ${afterKey})`;
+}
+
+function parseRows<T>(rows: DocumentRow[]): T[] {
+  return rows.map((row) => JSON.parse(row.data) as T);
+}
+
+function all<T>(database: Database, sql: string, params: unknown[] = []): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    database.all<T>(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+  });
+}
+
+/** Resolves to the number of rows changed */
+function run(database: Database, sql: string, params: unknown[] = []): Promise<number> {
+  return new Promise((resolve, reject) => {
+    database.run(sql, params, function (err) {
+      if (err) reject(err);
+      else resolve(this.changes);
+    });
+  });
+}
+
+class SqliteStore implements DataStore {
+  readonly backend = 'sqlite';
+  private database?: Database;
+  private dataDir: string;
+  private file: string;
+  private busyMs: number;
+  private orderSeq = 0;
+  // Every statement shares one connection, so all writes go through one
+  // transaction at a time; a write issued outside it would join whichever
+  // transaction happened to be open
+  private transactions = new KeyedMutex();
+  private searchIndex?: Promise<SearchIndex>;
+  // Card ids ranked from the price history, which no request writes
+  private trending?: Promise<string[]>;
+  private initializing?: Promise<void>;
+
+  constructor(dataDir?: string) {
+    this.dataDir = dataDir || findDataDir();
+    this.file = process.env.DB_SQLITE_FILE || path.join(this.dataDir, 'marketplace.sqlite');
+    this.busyMs = parseInt(process.env.DB_SQLITE_BUSY_MS || '120000', 10);
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initializing) this.initializing = this.open();
+    return this.initializing;
+  }
+
+  private async open(): Promise<void> {
+    // Loaded on demand so the other backends never load the addon
+    const sqlite3 = (await import('sqlite3')).default;
+    const database = await new Promise<Database>((resolve, reject) => {
+      const opened: Database = new sqlite3.Database(this.file, (err) =>
+        err ? reject(err) : resolve(opened)
+      );
+    });
+
+    database.configure('busyTimeout', this.busyMs);
+    await run(database, 'PRAGMA journal_mode = WAL');
+    await run(database, 'PRAGMA synchronous = NORMAL');
+    await this.createTables(database);
+
+    const [last] = await all<{ id: string }>(database, 'SELECT id FROM orders ORDER BY id DESC LIMIT 1');
+    if (last) this.orderSeq = parseInt(last.id.slice('order-'.length), 10);
+
+    this.database = database;
+    // Ranked in the background from startup, so the first trending request
+    // does not wait for it; rankTrending() waits for open() to finish
+    this.trending = this.rankTrending();
+    this.trending.catch((err) => console.error('Ranking trending cards failed:', err));
+  }
+
+  // Tables are looked up, created and seeded under one write lock, so a worker
+  // that had to wait for it finds them filled by the one that held it
+  private async createTables(database: Database): Promise<void> {
+    await run(database, 'BEGIN IMMEDIATE');
+    try {
+      const existing = new Set(
+        (await all<{ name: string }>(database, "SELECT name FROM sqlite_master WHERE type = 'table'")).map(
+          (row) => row.name
+        )
+      );
+      for (const name of TABLES) {
+        await run(database, `CREATE TABLE IF NOT EXISTS ${name} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+        for (const indexed of INDEXED_FIELDS[name] || []) {
+          await run(database, `CREATE INDEX IF NOT EXISTS ${name}_${indexed} ON ${name} (${field(indexed)})`);
+        }
+      }
+
+      const added = SEEDED_TABLES.filter((name) => !existing.has(name));
+      if (added.length > 0) await this.seed(database, added);
+      await run(database, 'COMMIT');
+    } catch (err) {
+      await run(database, 'ROLLBACK').catch(() => undefined);
+      throw err;
+    }
+  }
+
+  // Runs inside createTables()'s transaction
+  private async seed(database: Database, names: string[]): Promise<void> {
+    const start = performance.now();
+    for (const name of names) {
+      const filePath = path.join(this.dataDir, `${name}.json`);
+      if (!fs.existsSync(filePath)) {
+        console.warn(`Data file not found: ${filePath}`);
+        continue;
+      }
+      // Rows are inserted as records are parsed; featured.json holds a single
+      // object rather than an array, which comes through as one record
+      let i = 0;
+      for await (const record of readJsonRecords<Record<string, unknown>>(filePath)) {
+        const id = typeof record.id === 'string' ? record.id : String(i);
+        await run(database, `INSERT INTO ${name} (id, data) VALUES (?, ?)`, [id, JSON.stringify(record)]);
+        i++;
+      }
+    }
+    console.log(`Seeded ${names.join(', ')} in ${this.file} in ${(performance.now() - start).toFixed(0)}ms`);
+  }
+
+  private async connection(): Promise<Database> {
+    await this.initialize();
+    return this.database!;
+  }
+
+  private async all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return all<T>(await this.connection(), sql, params);
+  }
+
+  private async run(sql: string, params: unknown[] = []): Promise<number> {
+    return run(await this.connection(), sql, params);
+  }
+
+  private async documents<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return parseRows<T>(await this.all<DocumentRow>(sql, params));
+  }
+
+  private async document<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return (await this.documents<T>(sql, params))[0];
+  }
+
+  private async findByField<T>(collection: string, name: string, value: unknown): Promise<T | undefined> {
+    return this.document<T>(
+      `SELECT data FROM ${table(collection)} WHERE ${field(name)} = ? LIMIT 1`,
+      [bindValue(value)]
+    );
+  }
+
+  private async filterByField<T>(collection: string, name: string, value: unknown): Promise<T[]> {
+    return this.documents<T>(
+      `SELECT data FROM ${table(collection)} WHERE ${field(name)} = ? ORDER BY rowid`,
+      [bindValue(value)]
+    );
+  }
+
+  // `source` is a table or subquery exposing `data` and `rowid AS seq`
+  // With a cursor the page is found by seeking past its position, so SQLite can
+  // start from an index instead of stepping over an offset
+  private async pageOf<T>(
+    source: string,
+    conditions: string[],
+    params: unknown[],
+    ordering: SqlOrdering,
+    { page, limit, cursor }: { page: number; limit: number; cursor?: string }
+  ): Promise<PaginatedResponse<T>> {
+    const count = (sql: string, values: unknown[]) =>
+      this.all<{ count: number }>(sql, values).then(([row]) => row.count);
+    const total = await count(`SELECT COUNT(*) AS count FROM ${source} ${where(conditions)}`, params);
+    const columns = `seq, ${ordering.key || 'NULL'} AS sortKey, data`;
+
+    let rows: PageRow[];
+    let offset: number;
+    if (cursor === undefined) {
+      offset = Math.max(0, (page - 1) * limit);
+      rows = await this.all<PageRow>(
+        `SELECT ${columns} FROM ${source} ${where(conditions)} ORDER BY ${orderBy(ordering)} LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+    } else {
+      const afterValues: unknown[] = [];
+      const after = afterCondition(ordering, decodeCursor(cursor, ordering.name), afterValues);
+      const seek = where([...conditions, after]);
+      const remaining = await count(`SELECT COUNT(*) AS count FROM ${source} ${seek}`, [
+        ...params,
+        ...afterValues,
+      ]);
+      offset = total - remaining;
+      rows = await this.all<PageRow>(
+        `SELECT ${columns} FROM ${source} ${seek} ORDER BY ${orderBy(ordering)} LIMIT ?`,
+        [...params, ...afterValues, limit]
+      );
+    }
+
+    const pageNumber = cursor === undefined ? page : Math.floor(offset / limit) + 1;
+    const result = toPage(parseRows<T>(rows), total, pageNumber, limit);
+    const last = rows[rows.length - 1];
+    if (last && offset + rows.length < total) {
+      result.nextCursor = encodeCursor(ordering.name, { key: last.sortKey, seq: last.seq });
+    }
+    return result;
+  }
+
+  // Cards never change, so the full-text index is built once on first use
+  private getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      this.searchIndex = this.documents<Card>('SELECT data FROM cards ORDER BY rowid').then((cards) =>
+        SearchIndex.build(cards)
+      );
+    }
+    return this.searchIndex;
+  }
+
+  private async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transactions.withLocks(['transaction'], async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        await this.run('COMMIT');
+        return result;
+      } catch (err) {
+        await this.run('ROLLBACK');
+        throw err;
+      }
+    });
+  }
+
+  // Listing and stock writes also invalidate cached responses, once committed
+  private async listingTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    const result = await this.transaction(fn);
+    invalidateCache();
+    return result;
+  }
+
+  private async saveDocument(collection: string, record: { id: string }): Promise<void> {
+    await this.run(
+      `INSERT INTO ${table(collection)} (id, data) VALUES (?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+      [record.id, JSON.stringify(record)]
+    );
+  }
+
+  // Generic query methods
+  async query<T>(collection: string, filter?: Partial<T>): Promise<T[]> {
+    countDbCall('query');
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const [key, value] of Object.entries(filter || {})) {
+      if (value === undefined || value === null) continue;
+      conditions.push(`${field(key)} = ?`);
+      params.push(bindValue(value));
+    }
+    return this.documents<T>(
+      `SELECT data FROM ${table(collection)} ${where(conditions)} ORDER BY rowid`,
+      params
+    );
+  }
+
+  async findById<T extends { id: string }>(collection: string, id: string): Promise<T | undefined> {
+    countDbCall('findById');
+    return this.document<T>(`SELECT data FROM ${table(collection)} WHERE id = ?`, [id]);
+  }
+
+  async findBySlug<T extends { slug: string }>(
+    collection: string,
+    slug: string
+  ): Promise<T | undefined> {
+    countDbCall('findBySlug');
+    return this.findByField<T>(collection, 'slug', slug);
+  }
+
+  async findMany<T extends { id: string }>(collection: string, ids: string[]): Promise<T[]> {
+    countDbCall('findMany');
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) return [];
+    return this.documents<T>(
+      `SELECT data FROM ${table(collection)} WHERE id IN (${unique.map(() => '?').join(', ')}) ORDER BY rowid`,
+      unique
+    );
+  }
+
+  async paginate<T>(
+    collection: string,
+    options: PaginationOptions<T> = {}
+  ): Promise<PaginatedResponse<T>> {
+    countDbCall('paginate');
+    const { page = 1, limit = 20, cursor, filter, sort } = options;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const [key, value] of Object.entries(filter || {})) {
+      if (value === undefined || value === null) continue;
+      conditions.push(`${field(key)} = ?`);
+      params.push(bindValue(value));
+    }
+
+    // Missing values sort last in either direction, as in JsonDatabase
+    const ordering: SqlOrdering = {
+      ...fieldOrdering(collection, sort),
+      key: sort && field(String(sort.field)),
+    };
+
+    return this.pageOf<T>(
+      `(SELECT rowid AS seq, data FROM ${table(collection)})`,
+      conditions,
+      params,
+      ordering,
+      { page, limit, cursor }
+    );
+  }
+
+  // Domain-specific methods
+  async getGames(): Promise<Game[]> {
+    return this.query<Game>('games');
+  }
+
+  async getGameBySlug(slug: string): Promise<Game | undefined> {
+    return this.findBySlug<Game>('games', slug);
+  }
+
+  async getGameWithSets(slug: string): Promise<GameWithSets | undefined> {
+    countDbCall('getGameWithSets');
+    const game = await this.getGameBySlug(slug);
+    if (!game) return undefined;
+
+    const sets = await this.filterByField<CardSet>('sets', 'gameId', game.id);
+    return { ...game, sets };
+  }
+
+  async getSets(gameId?: string): Promise<CardSet[]> {
+    const filter = gameId ? { gameId } : undefined;
+    return this.query<CardSet>('sets', filter as Partial<CardSet>);
+  }
+
+  async getSetBySlug(slug: string): Promise<CardSet | undefined> {
+    return this.findBySlug<CardSet>('sets', slug);
+  }
+
+  async getSetWithCards(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SetWithCards | undefined> {
+    countDbCall('getSetWithCards');
+    const set = await this.getSetBySlug(slug);
+    if (!set) return undefined;
+
+    const game = await this.findById<Game>('games', set.gameId);
+    if (!game) return undefined;
+
+    const { items: cards, total, totalPages, nextCursor } = await this.pageOf<Card>(
+      '(SELECT rowid AS seq, data FROM cards)',
+      [`${field('setId')} = ?`],
+      [set.id],
+      catalogueOrdering('cards'),
+      { page, limit, cursor }
+    );
+
+    return { ...set, cards, game, total, totalPages, nextCursor };
+  }
+
+  // The cards matching the filters of `params`, with the lowest listing price
+  // as lowestPrice when it is needed and the full-text score as score when
+  // sorting by relevance
+  private async cardSource(
+    params: CardSearchParams
+  ): Promise<FilteredSource & { relevance?: Map<string, number> }> {
+    const { game, set, rarity, type, q, sort } = params;
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    // Unknown game or set slugs leave the filter off, as in JsonDatabase
+    if (game) {
+      const gameObj = await this.findByField<Game>('games', 'slug', game);
+      if (gameObj) {
+        conditions.push(`${field('gameId')} = ?`);
+        values.push(gameObj.id);
+      }
+    }
+
+    if (set) {
+      const setObj = await this.findByField<CardSet>('sets', 'slug', set);
+      if (setObj) {
+        conditions.push(`${field('setId')} = ?`);
+        values.push(setObj.id);
+      }
+    }
+
+    if (rarity) {
+      conditions.push(`${field('rarity')} = ?`);
+      values.push(rarity);
+    }
+
+    if (type) {
+      conditions.push(`${field('type')} = ?`);
+      values.push(type);
+    }
+
+    for (const filter of params.attributes || []) {
+      conditions.push(attributeCondition(filter, values));
+    }
+
+    // Relevance ranking matches through the full-text index instead, joining
+    // the scores in as a JSON object keyed by card id
+    const relevance = q && sort === 'relevance' ? (await this.getSearchIndex()).search(q) : undefined;
+    if (q && !relevance) {
+      const needle = q.toLowerCase();
+      const fields = ['name', 'type', 'rarity'];
+      conditions.push(`(${fields.map((f) => `instr(lower(${field(f)}), ?) > 0`).join(' OR ')})`);
+      values.push(...fields.map(() => needle));
+    }
+
+    // Lowest listing price per card, computed only when filtering or sorting on
+    // it. The unary + drops cards.id's TEXT affinity, which would otherwise keep
+    // SQLite from using the listings_cardId expression index.
+    const pricing =
+      params.minPrice !== undefined || params.maxPrice !== undefined || sort === 'price' || params.facets;
+    const lowestPrice = `(SELECT MIN(${field('price')}) FROM listings WHERE ${field('cardId')} = +cards.id)`;
+    const columns = ['cards.rowid AS seq', 'cards.data AS data'];
+    const sourceValues: unknown[] = [];
+    let from = 'cards';
+    if (pricing) columns.push(`${lowestPrice} AS lowestPrice`);
+    if (relevance) {
+      columns.push('relevance.value AS score');
+      from = 'cards JOIN json_each(?) AS relevance ON relevance.key = cards.id';
+      sourceValues.push(JSON.stringify(Object.fromEntries(relevance)));
+    }
+    const source = `(SELECT ${columns.join(', ')} FROM ${from})`;
+
+    if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+      conditions.push('lowestPrice IS NOT NULL');
+      if (params.minPrice !== undefined) {
+        conditions.push('lowestPrice >= ?');
+        values.push(params.minPrice);
+      }
+      if (params.maxPrice !== undefined) {
+        conditions.push('lowestPrice <= ?');
+        values.push(params.maxPrice);
+      }
+    }
+
+    return { source, conditions, values: [...sourceValues, ...values], relevance };
+  }
+
+  async searchCards(params: CardSearchParams): Promise<CardSearchResponse> {
+    countDbCall('searchCards');
+    const { page = 1, limit = 20, cursor, sort, order = 'asc' } = params;
+    const { source, conditions, values, relevance } = await this.cardSource(params);
+
+    let ordering: SqlOrdering = catalogueOrdering('cards');
+    if (sort === 'name') {
+      ordering = { ...fieldOrdering<Card>('cards', { field: 'name', order }), key: field('name') };
+    } else if (sort === 'price') {
+      // Cards without listings rank as an infinite price
+      ordering = { ...priceOrdering(order), key: 'lowestPrice' };
+    } else if (relevance) {
+      // Best match first whatever the order
+      ordering = { ...RELEVANCE_ORDERING, key: 'score' };
+    }
+
+    const result: CardSearchResponse = await this.pageOf<Card>(
+      source,
+      conditions,
+      values,
+      ordering,
+      { page, limit, cursor }
+    );
+    if (!params.facets) return result;
+
+    // Facets count every match, so fetch just the faceted fields of all of them
+    const facetColumns = FACET_FIELDS.map((f) => `${field(f)} AS ${f}`).join(', ');
+    const rows = await this.all<FacetRow>(
+      `SELECT ${facetColumns}, lowestPrice FROM ${source} ${where(conditions)}`,
+      values
+    );
+    const counter = new FacetCounter();
+    for (const row of rows) counter.add(row, row.lowestPrice ?? undefined);
+    result.facets = counter.result();
+    return result;
+  }
+
+  async getCardById(id: string): Promise<Card | undefined> {
+    return this.findById<Card>('cards', id);
+  }
+
+  async getCardWithListings(id: string): Promise<CardWithListings | undefined> {
+    countDbCall('getCardWithListings');
+    const card = await this.getCardById(id);
+    if (!card) return undefined;
+
+    const listings = await this.filterByField<Listing>('listings', 'cardId', id);
+    const lowestPrice = listings.length > 0
+      ? Math.min(...listings.map((l) => l.price))
+      : undefined;
+
+    return { ...card, listings, lowestPrice, listingCount: listings.length };
+  }
+
+  async getPriceHistory(cardId: string, params?: PriceHistoryParams): Promise<PriceHistory | undefined> {
+    countDbCall('getPriceHistory');
+    const card = await this.getCardById(cardId);
+    if (!card) return undefined;
+
+    const points = await this.filterByField<PricePoint>('priceHistory', 'cardId', cardId);
+    return selectHistory(cardId, points, params);
+  }
+
+  async getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>> {
+    countDbCall('getListings');
+    const { page = 1, limit = 20, cursor } = params;
+    const { source, conditions, values } = listingSource(params);
+
+    const sort: SortOptions<Listing> = { field: 'price', order: 'asc' };
+    return this.pageOf<Listing>(
+      source,
+      conditions,
+      values,
+      { ...fieldOrdering('listings', sort), key: field('price') },
+      { page, limit, cursor }
+    );
+  }
+
+  async *exportCards(params: CardSearchParams): AsyncGenerator<Card> {
+    countDbCall('exportCards');
+    yield* this.exportRows<Card>(await this.cardSource(cardFilters(params)));
+  }
+
+  async *exportListings(params: ListingSearchParams): AsyncGenerator<Listing> {
+    countDbCall('exportListings');
+    yield* this.exportRows<Listing>(listingSource(params));
+  }
+
+  // Walks the rows in seq order a batch at a time, each query seeking past the
+  // last row of the one before, so no statement stays open between batches
+  private async *exportRows<T>({ source, conditions, values }: FilteredSource): AsyncGenerator<T> {
+    let after = 0;
+    for (;;) {
+      const rows = await this.all<Omit<PageRow, 'sortKey'>>(
+        `SELECT seq, data FROM ${source} ${where([...conditions, 'seq > ?'])} ORDER BY seq LIMIT ?`,
+        [...values, after, EXPORT_BATCH]
+      );
+      yield* parseRows<T>(rows);
+      if (rows.length < EXPORT_BATCH) return;
+      after = rows[rows.length - 1].seq;
+    }
+  }
+
+  async getListingById(id: string): Promise<Listing | undefined> {
+    return this.findById<Listing>('listings', id);
+  }
+
+  async getListingWithDetails(id: string): Promise<ListingWithDetails | undefined> {
+    countDbCall('getListingWithDetails');
+    const listing = await this.getListingById(id);
+    if (!listing) return undefined;
+
+    const [card, seller] = await Promise.all([
+      this.findById<Card>('cards', listing.cardId),
+      this.findById<Seller>('sellers', listing.sellerId),
+    ]);
+    if (!card || !seller) return undefined;
+
+    return { ...listing, card, seller };
+  }
+
+  async getSellers(): Promise<Seller[]> {
+    return this.query<Seller>('sellers');
+  }
+
+  async getSellerBySlug(slug: string): Promise<Seller | undefined> {
+    return this.findBySlug<Seller>('sellers', slug);
+  }
+
+  async getSellerWithListings(
+    slug: string,
+    page = 1,
+    limit = 20,
+    cursor?: string
+  ): Promise<SellerWithListings | undefined> {
+    countDbCall('getSellerWithListings');
+    const seller = await this.getSellerBySlug(slug);
+    if (!seller) return undefined;
+
+    const { items: listings, total, totalPages, nextCursor } = await this.pageOf<Listing>(
+      '(SELECT rowid AS seq, data FROM listings)',
+      [`${field('sellerId')} = ?`],
+      [seller.id],
+      catalogueOrdering('listings'),
+      { page, limit, cursor }
+    );
+
+    return { ...seller, listings, total, totalPages, nextCursor };
+  }
+
+  async getSellerListingCounts(): Promise<Map<string, number>> {
+    countDbCall('getSellerListingCounts');
+    const rows = await this.all<{ sellerId: string; count: number }>(
+      `SELECT ${field('sellerId')} AS sellerId, COUNT(*) AS count FROM listings GROUP BY 1`
+    );
+    return new Map(rows.map((row) => [row.sellerId, row.count]));
+  }
+
+  async getFeatured(): Promise<Featured | null> {
+    countDbCall('getFeatured');
+    return (await this.document<Featured>('SELECT data FROM featured ORDER BY rowid LIMIT 1')) || null;
+  }
+
+  // The featured row already holds the file's content
+  async getFeaturedContent(): Promise<Featured | null> {
+    countDbCall('getFeaturedContent');
+    return this.getFeatured();
+  }
+
+  async getTrendingCards(limit = 10): Promise<Card[]> {
+    countDbCall('getTrendingCards');
+    if (!this.trending) this.trending = this.rankTrending();
+    const ids = trendingIds(await this.trending, await this.getFeatured(), limit);
+
+    // findMany returns catalogue order
+    const cards = new Map((await this.findMany<Card>('cards', ids)).map((card) => [card.id, card]));
+    return ids.flatMap((id) => cards.get(id) || []);
+  }
+
+  // Only daily totals per card for the two trend windows cross into JS
+  private async rankTrending(): Promise<string[]> {
+    const rows = await this.all<{ cardId: string; date: string; volume: number; turnover: number }>(
+      `SELECT ${field('cardId')} AS cardId, ${field('date')} AS date,
+        SUM(${field('volume')}) AS volume, SUM(${field('median')} * ${field('volume')}) AS turnover
+      FROM priceHistory
+      WHERE ${field('date')} >= (SELECT date(MAX(${field('date')}), ?) FROM priceHistory)
+      GROUP BY 1, 2`,
+      [`-${2 * TREND_WINDOW_DAYS - 1} days`]
+    );
+    const counter = new TrendCounter();
+    for (const row of rows) counter.add(row.cardId, row.date, row.volume, row.turnover);
+    return counter.result();
+  }
+
+  async getNewReleaseSets(limit = 5): Promise<CardSet[]> {
+    countDbCall('getNewReleaseSets');
+    const featured = await this.getFeatured();
+    if (!featured) return [];
+    return this.findMany<CardSet>('sets', featured.newReleases.slice(0, limit));
+  }
+
+  // Cart sessions, stored as one document per cart
+  private async loadCart(cartId: string): Promise<(Cart & { id: string }) | undefined> {
+    return this.document<Cart & { id: string }>('SELECT data FROM carts WHERE id = ?', [cartId]);
+  }
+
+  async getCartWithDetails(cartId: string): Promise<CartWithDetails> {
+    countDbCall('getCartWithDetails');
+    return resolveCart(await this.loadCart(cartId), (id) => this.getListingWithDetails(id));
+  }
+
+  async addToCart(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('addToCart');
+    const listing = await this.getListingById(listingId);
+    if (!listing) return undefined;
+
+    await this.transaction(async () => {
+      const cart = (await this.loadCart(cartId)) || {
+        id: cartId,
+        items: [],
+        updatedAt: new Date().toISOString(),
+      };
+      addCartItem(cart, listingId, quantity);
+      await this.saveDocument('carts', cart);
+    });
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async updateCartItem(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined> {
+    countDbCall('updateCartItem');
+    const updated = await this.transaction(async () => {
+      const cart = await this.loadCart(cartId);
+      if (!cart || !setCartItemQuantity(cart, listingId, quantity)) return false;
+      await this.saveDocument('carts', cart);
+      return true;
+    });
+    if (!updated) return undefined;
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  async removeFromCart(cartId: string, listingId?: string): Promise<CartWithDetails> {
+    countDbCall('removeFromCart');
+    await this.transaction(async () => {
+      const cart = await this.loadCart(cartId);
+      if (cart && listingId) {
+        removeCartItem(cart, listingId);
+        await this.saveDocument('carts', cart);
+      } else if (cart) {
+        await this.run('DELETE FROM carts WHERE id = ?', [cartId]);
+      }
+    });
+
+    return this.getCartWithDetails(cartId);
+  }
+
+  // Listing writes
+  async createListing(input: ListingInput): Promise<Listing> {
+    countDbCall('createListing');
+    const listing: Listing = { id: `listing-${randomUUID()}`, ...input };
+    await this.listingTransaction(() => this.saveDocument('listings', listing));
+    return listing;
+  }
+
+  async updateListing(id: string, update: ListingUpdate): Promise<Listing | undefined> {
+    countDbCall('updateListing');
+    return this.listingTransaction(async () => {
+      const listing = await this.getListingById(id);
+      if (!listing) return undefined;
+
+      Object.assign(listing, update);
+      await this.saveDocument('listings', listing);
+      return listing;
+    });
+  }
+
+  async deleteListing(id: string): Promise<boolean> {
+    countDbCall('deleteListing');
+    return this.listingTransaction(async () => (await this.run('DELETE FROM listings WHERE id = ?', [id])) > 0);
+  }
+
+  // Checkout runs as one transaction, so stock checks and decrements cannot
+  // interleave with another order
+  async checkout(cartId: string): Promise<CheckoutResult> {
+    countDbCall('checkout');
+    return this.listingTransaction(async (): Promise<CheckoutResult> => {
+      const cart = await this.loadCart(cartId);
+      if (!cart || cart.items.length === 0) {
+        return { ok: false, reason: 'empty_cart' };
+      }
+
+      const conflicts: StockConflict[] = [];
+      const reserved: { listing: Listing; quantity: number }[] = [];
+      for (const item of cart.items) {
+        const listing = await this.getListingById(item.listingId);
+        const available = listing?.quantity ?? 0;
+        if (!listing || available < item.quantity) {
+          conflicts.push({ listingId: item.listingId, requested: item.quantity, available });
+        } else {
+          reserved.push({ listing, quantity: item.quantity });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return { ok: false, reason: 'insufficient_stock', conflicts };
+      }
+
+      for (const { listing, quantity } of reserved) {
+        listing.quantity -= quantity;
+        await this.saveDocument('listings', listing);
+      }
+      const order = createOrder(formatOrderId(++this.orderSeq), reserved);
+      await this.saveDocument('orders', order);
+      await this.run('DELETE FROM carts WHERE id = ?', [cartId]);
+
+      return { ok: true, order };
+    });
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    countDbCall('getOrder');
+    return this.findById<Order>('orders', id);
+  }
+}
+
+export { SqliteStore };
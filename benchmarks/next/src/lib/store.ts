@@ -0,0 +1,323 @@
+/**
+ * Data Store Interface
+ *
+ * The data layer that pages and route handlers reach through `db` (see
+ * ./db.ts). DB_BACKEND selects the implementation:
+ * - json: JsonDatabase, collections parsed into JS arrays in memory (default)
+ * - sqlite: SqliteStore, an SQLite file through the N-API `sqlite3` driver
+ * - ndjson: NdjsonStore, line-delimited files streamed on every query
+ * - shared: SharedStore, columnar tables in shared memory, one copy for all workers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  Game,
+  CardSet,
+  Card,
+  Seller,
+  Listing,
+  ListingInput,
+  ListingUpdate,
+  Featured,
+  PaginatedResponse,
+  CardWithListings,
+  GameWithSets,
+  SetWithCards,
+  SellerWithListings,
+  ListingWithDetails,
+  Cart,
+  CartWithDetails,
+  CartItemWithDetails,
+  Order,
+  OrderLineItem,
+  CheckoutResult,
+  CardSearchParams,
+  CardSearchResponse,
+  ListingSearchParams,
+  PriceHistory,
+  PriceHistoryParams,
+} from './types';
+
+export type BackendName = 'json' | 'sqlite' | 'ndjson' | 'shared';
+
+export const COLLECTIONS = [
+  'games',
+  'sets',
+  'cards',
+  'sellers',
+  'listings',
+  'priceHistory',
+  'featured',
+] as const;
+
+export type CollectionName = (typeof COLLECTIONS)[number];
+
+/** How one collection's reload went, see DataStore.reload() */
+export interface ReloadReport {
+  collection: CollectionName;
+  records: number;
+  /** Reading and indexing the new copy while the old one kept serving */
+  buildMs: number;
+  /** Listing writes held back while the new copy replaced the old one */
+  swapMs: number;
+  durationMs: number;
+  /** Logged listing writes applied on top of the file */
+  replayedWrites: number;
+  heapUsedBefore: number;
+  heapUsedAfter: number;
+}
+
+export interface SortOptions<T> {
+  field: keyof T;
+  order: 'asc' | 'desc';
+}
+
+export interface PaginationOptions<T> {
+  page?: number;
+  limit?: number;
+  /** `nextCursor` of the previous page; takes precedence over `page` */
+  cursor?: string;
+  filter?: Partial<T>;
+  sort?: SortOptions<T>;
+}
+
+export interface DataStore {
+  readonly backend: BackendName;
+
+  initialize(): Promise<void>;
+
+  // Generic collection access
+  query<T>(collection: string, filter?: Partial<T>): Promise<T[]>;
+  findById<T extends { id: string }>(collection: string, id: string): Promise<T | undefined>;
+  findBySlug<T extends { slug: string }>(collection: string, slug: string): Promise<T | undefined>;
+  findMany<T extends { id: string }>(collection: string, ids: string[]): Promise<T[]>;
+  paginate<T>(collection: string, options?: PaginationOptions<T>): Promise<PaginatedResponse<T>>;
+
+  // Catalogue
+  getGames(): Promise<Game[]>;
+  getGameBySlug(slug: string): Promise<Game | undefined>;
+  getGameWithSets(slug: string): Promise<GameWithSets | undefined>;
+  getSets(gameId?: string): Promise<CardSet[]>;
+  getSetBySlug(slug: string): Promise<CardSet | undefined>;
+  getSetWithCards(
+    slug: string,
+    page?: number,
+    limit?: number,
+    cursor?: string
+  ): Promise<SetWithCards | undefined>;
+  searchCards(params: CardSearchParams): Promise<CardSearchResponse>;
+  getCardById(id: string): Promise<Card | undefined>;
+  getCardWithListings(id: string): Promise<CardWithListings | undefined>;
+  /** A card's daily prices by condition, then date; undefined for an unknown card */
+  getPriceHistory(cardId: string, params?: PriceHistoryParams): Promise<PriceHistory | undefined>;
+  getListings(params: ListingSearchParams): Promise<PaginatedResponse<Listing>>;
+  getListingById(id: string): Promise<Listing | undefined>;
+  getListingWithDetails(id: string): Promise<ListingWithDetails | undefined>;
+  getSellers(): Promise<Seller[]>;
+  getSellerBySlug(slug: string): Promise<Seller | undefined>;
+  getSellerWithListings(
+    slug: string,
+    page?: number,
+    limit?: number,
+    cursor?: string
+  ): Promise<SellerWithListings | undefined>;
+  getSellerListingCounts(): Promise<Map<string, number>>;
+  getFeatured(): Promise<Featured | null>;
+  getFeaturedContent(): Promise<Featured | null>;
+  /** Cards ranked by recent price and volume change, see ./price-history.ts */
+  getTrendingCards(limit?: number): Promise<Card[]>;
+  getNewReleaseSets(limit?: number): Promise<CardSet[]>;
+
+  // Exports: every match in catalogue order, produced as the consumer reads.
+  // Only the filters of the params apply; sort, pagination and facets do not,
+  // and `q` matches as a substring search.
+  exportCards(params: CardSearchParams): AsyncIterable<Card>;
+  exportListings(params: ListingSearchParams): AsyncIterable<Listing>;
+
+  // Cart sessions and orders
+  getCartWithDetails(cartId: string): Promise<CartWithDetails>;
+  addToCart(cartId: string, listingId: string, quantity: number): Promise<CartWithDetails | undefined>;
+  updateCartItem(
+    cartId: string,
+    listingId: string,
+    quantity: number
+  ): Promise<CartWithDetails | undefined>;
+  removeFromCart(cartId: string, listingId?: string): Promise<CartWithDetails>;
+  checkout(cartId: string): Promise<CheckoutResult>;
+  getOrder(id: string): Promise<Order | undefined>;
+
+  // Listing writes
+  createListing(input: ListingInput): Promise<Listing>;
+  updateListing(id: string, update: ListingUpdate): Promise<Listing | undefined>;
+  deleteListing(id: string): Promise<boolean>;
+
+  /**
+   * Re-read collections from their files without a restart, each swapped in
+   * whole once rebuilt; all collections when none is named. Only JsonDatabase,
+   * which holds parsed copies of the files, has it.
+   */
+  reload?(collection?: CollectionName): Promise<ReloadReport[]>;
+}
+
+export type Predicate<T> = (item: T) => boolean;
+
+/** Just the filters of card search params, for the exports */
+export function cardFilters(params: CardSearchParams): CardSearchParams {
+  const { game, set, rarity, type, q, attributes, minPrice, maxPrice } = params;
+  return { game, set, rarity, type, q, attributes, minPrice, maxPrice };
+}
+
+/** Equality on every field of `filter` that is not null or undefined */
+export function matchesFilter<T>(filter: Partial<T> | undefined): Predicate<T> {
+  const entries = Object.entries(filter || {}).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  return (item) => entries.every(([key, value]) => (item as Record<string, unknown>)[key] === value);
+}
+
+// Same ordering as JsonDatabase.applySort: missing values last, stable ties
+export function compareBy<T>(sort: SortOptions<T>): (a: T, b: T) => number {
+  return (a, b) => {
+    const aVal = a[sort.field];
+    const bVal = b[sort.field];
+
+    if (aVal === bVal) return 0;
+    if (aVal === null || aVal === undefined) return 1;
+    if (bVal === null || bVal === undefined) return -1;
+
+    const comparison = aVal < bVal ? -1 : 1;
+    return sort.order === 'asc' ? comparison : -comparison;
+  };
+}
+
+/** DB_DATA_DIR, or the first common location holding the *.json collections */
+export function findDataDir(): string {
+  if (process.env.DB_DATA_DIR) return process.env.DB_DATA_DIR;
+
+  // Try common locations
+  const candidates = [
+    path.join(process.cwd(), 'data'),
+    path.join(process.cwd(), '..', 'data'),
+    path.join(__dirname, '..', 'data'),
+    path.join(__dirname, 'data'),
+  ];
+
+  for (const dir of candidates) {
+    if (fs.existsSync(path.join(dir, 'games.json'))) {
+      return dir;
+    }
+  }
+
+  return path.join(process.cwd(), 'data');
+}
+
+export function toPage<T>(
+  items: T[],
+  total: number,
+  page: number,
+  limit: number
+): PaginatedResponse<T> {
+  return { items, total, page, limit, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Join a cart's items with their listing details, dropping items whose listing
+ * no longer resolves, and total them up.
+ */
+export async function resolveCart(
+  cart: Cart | undefined,
+  getListing: (id: string) => Promise<ListingWithDetails | undefined>
+): Promise<CartWithDetails> {
+  if (!cart) {
+    return { items: [], subtotal: 0, itemCount: 0, updatedAt: new Date().toISOString() };
+  }
+
+  const resolved = await Promise.all(
+    cart.items.map(async (item) => {
+      const listing = await getListing(item.listingId);
+      return listing ? { ...item, listing } : undefined;
+    })
+  );
+  const items = resolved.filter((item): item is CartItemWithDetails => item !== undefined);
+
+  let subtotal = 0;
+  let itemCount = 0;
+  for (const item of items) {
+    subtotal += item.listing.price * item.quantity;
+    itemCount += item.quantity;
+  }
+
+  return {
+    items,
+    subtotal: Math.round(subtotal * 100) / 100,
+    itemCount,
+    updatedAt: cart.updatedAt,
+  };
+}
+
+// Cart mutations shared by the backends; the caller stores the cart afterwards
+
+export function addCartItem(cart: Cart, listingId: string, quantity: number): void {
+  const now = new Date().toISOString();
+  const existing = cart.items.find((item) => item.listingId === listingId);
+  if (existing) {
+    existing.quantity += quantity;
+  } else {
+    cart.items.push({ listingId, quantity, addedAt: now });
+  }
+  cart.updatedAt = now;
+}
+
+/** Returns false when the listing is not in the cart. A quantity of 0 removes it. */
+export function setCartItemQuantity(cart: Cart, listingId: string, quantity: number): boolean {
+  const item = cart.items.find((i) => i.listingId === listingId);
+  if (!item) return false;
+
+  if (quantity === 0) {
+    cart.items = cart.items.filter((i) => i !== item);
+  } else {
+    item.quantity = quantity;
+  }
+  cart.updatedAt = new Date().toISOString();
+  return true;
+}
+
+export function removeCartItem(cart: Cart, listingId: string): void {
+  cart.items = cart.items.filter((i) => i.listingId !== listingId);
+  cart.updatedAt = new Date().toISOString();
+}
+
+/** Build an order from listings whose quantity has already been reserved. */
+export function createOrder(
+  id: string,
+  reserved: { listing: Listing; quantity: number }[]
+): Order {
+  const items: OrderLineItem[] = [];
+  let total = 0;
+  let itemCount = 0;
+  for (const { listing, quantity } of reserved) {
+    items.push({
+      listingId: listing.id,
+      cardId: listing.cardId,
+      sellerId: listing.sellerId,
+      condition: listing.condition,
+      quantity,
+      unitPrice: listing.price,
+    });
+    total += listing.price * quantity;
+    itemCount += quantity;
+  }
+
+  return {
+    id,
+    items,
+    total: Math.round(total * 100) / 100,
+    itemCount,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function formatOrderId(seq: number): string {
+  return `order-${String(seq).padStart(6, '0')}`;
+}
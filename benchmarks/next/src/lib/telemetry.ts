@@ -0,0 +1,213 @@
+/**
+ * Heap and GC Telemetry
+ *
+ * Collects the numbers node-caged exists to show from inside the process:
+ * V8 heap statistics, pointer-compression status, GC pauses and RSS over time.
+ *
+ * Environment variables:
+ * - TELEMETRY_SAMPLE_INTERVAL_MS: RSS sampling interval in ms (default: 5000)
+ * - TELEMETRY_MAX_SAMPLES: Number of RSS samples kept (default: 720)
+ */
+
+import * as v8 from 'v8';
+import { PerformanceObserver, constants } from 'perf_hooks';
+
+export interface GcStats {
+  count: number;
+  totalDuration: number;
+  maxDuration: number;
+}
+
+export interface MemorySample {
+  timestamp: number;
+  rss: number;
+  heapUsed: number;
+  heapTotal: number;
+  external: number;
+}
+
+export interface MemorySnapshot {
+  timestamp: number;
+  uptime: number;
+  versions: { node: string; v8: string };
+  pointerCompression: { enabled: boolean; heapSizeLimit: number };
+  memory: NodeJS.MemoryUsage;
+  heap: v8.HeapInfo;
+  heapSpaces: v8.HeapSpaceInfo[];
+  gc: GcStats & { byKind: Record<string, GcStats> };
+  samples: MemorySample[];
+  initialize?: InitializeReport;
+}
+
+// Heap use while the data store loaded, from measureInitialize()
+export interface InitializeReport {
+  backend: string;
+  durationMs: number;
+  peakHeapUsed: number;
+  heapUsedAfter: number;
+  // Typed arrays and buffers, where columnar tables keep their records
+  arrayBuffersAfter: number;
+  jsonStreaming: boolean;
+}
+
+interface TelemetryState {
+  gc: GcStats;
+  gcByKind: Map<string, GcStats>;
+  samples: MemorySample[];
+  maxSamples: number;
+  initialize?: InitializeReport;
+}
+
+const GC_KINDS: Record<number, string> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: 'minor',
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: 'major',
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: 'incremental',
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: 'weakcb',
+};
+
+// Next.js bundles instrumentation and route handlers separately, so the state
+// lives on globalThis to be shared by every copy of this module
+const STATE_KEY = Symbol.for('node-caged.telemetry');
+
+type GlobalWithTelemetry = typeof globalThis & { [STATE_KEY]?: TelemetryState };
+
+function recordGc(stats: GcStats, duration: number): void {
+  stats.count++;
+  stats.totalDuration += duration;
+  if (duration > stats.maxDuration) stats.maxDuration = duration;
+}
+
+function takeSample(state: TelemetryState): void {
+  const usage = process.memoryUsage();
+  state.samples.push({
+    timestamp: Date.now(),
+    rss: usage.rss,
+    heapUsed: usage.heapUsed,
+    heapTotal: usage.heapTotal,
+    external: usage.external,
+  });
+  if (state.samples.length > state.maxSamples) {
+    state.samples.shift();
+  }
+}
+
+/**
+ * Pointer compression caps the V8 heap at 4GB, so a heap limit at or below
+ * that is the signal (same check as tests/verify-pointer-compression.js).
+ */
+export function isPointerCompressionEnabled(): boolean {
+  const { heap_size_limit } = v8.getHeapStatistics();
+  return heap_size_limit / 1024 / 1024 / 1024 <= 4;
+}
+
+export function startTelemetry(): void {
+  const global = globalThis as GlobalWithTelemetry;
+  if (global[STATE_KEY]) return;
+
+  const state: TelemetryState = {
+    gc: { count: 0, totalDuration: 0, maxDuration: 0 },
+    gcByKind: new Map(),
+    samples: [],
+    maxSamples: parseInt(process.env.TELEMETRY_MAX_SAMPLES || '720', 10),
+  };
+  global[STATE_KEY] = state;
+
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      const { detail } = entry as unknown as { detail?: { kind?: number } };
+      const kind = GC_KINDS[detail?.kind ?? -1] || 'unknown';
+      let byKind = state.gcByKind.get(kind);
+      if (!byKind) {
+        byKind = { count: 0, totalDuration: 0, maxDuration: 0 };
+        state.gcByKind.set(kind, byKind);
+      }
+      recordGc(state.gc, entry.duration);
+      recordGc(byKind, entry.duration);
+    }
+  });
+  observer.observe({ entryTypes: ['gc'] });
+
+  const interval = parseInt(process.env.TELEMETRY_SAMPLE_INTERVAL_MS || '5000', 10);
+  takeSample(state);
+  setInterval(() => takeSample(state), interval).unref();
+}
+
+export function getMemorySnapshot(): MemorySnapshot {
+  startTelemetry();
+  const state = (globalThis as GlobalWithTelemetry)[STATE_KEY]!;
+  const heap = v8.getHeapStatistics();
+
+  return {
+    timestamp: Date.now(),
+    uptime: process.uptime(),
+    versions: { node: process.version, v8: process.versions.v8 },
+    pointerCompression: {
+      enabled: isPointerCompressionEnabled(),
+      heapSizeLimit: heap.heap_size_limit,
+    },
+    memory: process.memoryUsage(),
+    heap,
+    heapSpaces: v8.getHeapSpaceStatistics(),
+    gc: { ...state.gc, byKind: Object.fromEntries(state.gcByKind) },
+    samples: state.samples,
+    initialize: state.initialize,
+  };
+}
+
+// Peaks being tracked, raised by every samplePeakHeap() call while they run
+const peakTrackers = new Set<{ peak: number }>();
+
+// Peak trackers also sample on this timer, between the explicit samples
+const PEAK_SAMPLE_INTERVAL_MS = 10;
+
+/**
+ * Record the current heap use in every running peak tracker. Code that
+ * allocates in bursts calls this at its high points, such as right after a
+ * JSON.parse while its input string is still alive, which a timer can miss.
+ */
+export function samplePeakHeap(): void {
+  if (peakTrackers.size === 0) return;
+  const used = v8.getHeapStatistics().used_heap_size;
+  for (const tracker of peakTrackers) {
+    if (used > tracker.peak) tracker.peak = used;
+  }
+}
+
+/**
+ * Run the data store's initialize() while tracking the peak heap use, and
+ * keep the result for the memory snapshot
+ */
+export async function measureInitialize(
+  backend: string,
+  initialize: () => Promise<void>
+): Promise<InitializeReport> {
+  startTelemetry();
+  const tracker = { peak: 0 };
+  peakTrackers.add(tracker);
+  const timer = setInterval(samplePeakHeap, PEAK_SAMPLE_INTERVAL_MS);
+  const start = performance.now();
+  samplePeakHeap();
+  try {
+    await initialize();
+  } finally {
+    samplePeakHeap();
+    clearInterval(timer);
+    peakTrackers.delete(tracker);
+  }
+
+  const report: InitializeReport = {
+    backend,
+    durationMs: Math.round(performance.now() - start),
+    peakHeapUsed: tracker.peak,
+    heapUsedAfter: v8.getHeapStatistics().used_heap_size,
+    arrayBuffersAfter: process.memoryUsage().arrayBuffers,
+    jsonStreaming: process.env.DB_JSON_STREAMING !== 'off',
+  };
+  (globalThis as GlobalWithTelemetry)[STATE_KEY]!.initialize = report;
+
+  const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+  console.log(
+    `Initialized ${backend} store in ${report.durationMs}ms: peak heap used ${mb(report.peakHeapUsed)} MB, ${mb(report.heapUsedAfter)} MB after, ${mb(report.arrayBuffersAfter)} MB array buffers (JSON streaming ${report.jsonStreaming ? 'on' : 'off'})`
+  );
+  return report;
+}
@@ -0,0 +1,58 @@
+/**
+ * Test Datasets
+ *
+ * Small generated datasets for the store tests, each in a directory of its
+ * own under the OS temp dir so stores that write next to their data (SQLite
+ * files, NDJSON copies, write-ahead logs) never touch ./data.
+ *
+ * SharedStore builds its tables once per process (see buildOnce()), so a test
+ * file opens at most one, on at most one dataset.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateDataset, DEFAULT_OPTIONS } from '../../scripts/generate-data.mjs';
+import { JsonDatabase } from './db';
+import { SqliteStore } from './sqlite-store';
+import { NdjsonStore } from './ndjson-store';
+import { SharedStore } from './shared-store';
+import type { GeneratorOptions } from '../../scripts/generate-data.mjs';
+import type { DataStore } from './store';
+
+// 40 cards and a few hundred listings: enough for several pages of each query
+export const SMALL_DATASET: GeneratorOptions = {
+  ...DEFAULT_OPTIONS,
+  games: 1,
+  setsPerGame: 2,
+  cardsPerSet: 20,
+  sellers: 5,
+  historyDays: 2,
+};
+
+export function createDataset(options: GeneratorOptions = SMALL_DATASET): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'node-caged-'));
+  generateDataset(dir, options);
+  return dir;
+}
+
+export function removeDataset(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+export const BACKENDS = ['json', 'sqlite', 'ndjson', 'shared'] as const;
+
+export type Backend = (typeof BACKENDS)[number];
+
+/** An initialized store of `backend` over the dataset in `dataDir` */
+export async function openStore(backend: Backend, dataDir: string): Promise<DataStore> {
+  const stores: Record<Backend, () => DataStore> = {
+    json: () => new JsonDatabase(dataDir),
+    sqlite: () => new SqliteStore(dataDir),
+    ndjson: () => new NdjsonStore(dataDir),
+    shared: () => new SharedStore(dataDir),
+  };
+  const store = stores[backend]();
+  await store.initialize();
+  return store;
+}
@@ -63,6 +63,11 @@ export interface Listing {
   isFoil: boolean;
 }
 
+export type ListingInput = Omit<Listing, 'id'>;
+
+// cardId and sellerId are fixed once a listing exists
+export type ListingUpdate = Partial<Pick<Listing, 'condition' | 'price' | 'quantity' | 'language' | 'isFoil'>>;
+
 export interface Banner {
   id: string;
   imageUrl: string;
@@ -77,6 +82,33 @@ export interface Featured {
   popularGames: string[];
 }
 
+// GET /api/featured: the featured ids with the records they refer to. The
+// Featured fields are absent when there is no featured content.
+export interface FeaturedWithData extends Partial<Featured> {
+  trendingCardsData: Card[];
+  newReleasesData: CardSet[];
+  popularGamesData: Game[];
+}
+
+// One day of sales of a card in one condition, from priceHistory.json
+export interface PricePoint {
+  cardId: string;
+  condition: Condition;
+  /** YYYY-MM-DD */
+  date: string;
+  min: number;
+  median: number;
+  max: number;
+  /** Copies sold that day */
+  volume: number;
+}
+
+// GET /api/cards/[id]/history: points by condition, then date
+export interface PriceHistory {
+  cardId: string;
+  points: PricePoint[];
+}
+
 export interface CartItem {
   listingId: string;
   quantity: number;
@@ -88,26 +120,96 @@ export interface Cart {
   updatedAt: string;
 }
 
+export interface OrderLineItem {
+  listingId: string;
+  cardId: string;
+  sellerId: string;
+  condition: Condition;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface Order {
+  id: string;
+  items: OrderLineItem[];
+  total: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+export interface StockConflict {
+  listingId: string;
+  requested: number;
+  available: number;
+}
+
+export type CheckoutResult =
+  | { ok: true; order: Order }
+  | { ok: false; reason: 'empty_cart' }
+  | { ok: false; reason: 'insufficient_stock'; conflicts: StockConflict[] };
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
   page: number;
   limit: number;
   totalPages: number;
+  /** Pass as `cursor` for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Cards whose lowest listing price is at least `min` and below `max`
+export interface PriceBucketCount {
+  min: number;
+  max?: number;
+  count: number;
+}
+
+// Counts over every card matching a search, not just the returned page
+export interface CardFacets {
+  gameId: FacetCount[];
+  setId: FacetCount[];
+  rarity: FacetCount[];
+  type: FacetCount[];
+  price: PriceBucketCount[];
+}
+
+export interface CardSearchResponse extends PaginatedResponse<Card> {
+  facets?: CardFacets;
+}
+
+// Filter on one card attribute. A filter matches when the attribute, or any
+// element of an array attribute, satisfies it; text compares case-insensitively
+// and numeric comparisons also accept numeric strings.
+export type AttributeFilter =
+  | { attribute: string; op: 'gt' | 'gte' | 'lt' | 'lte'; value: number }
+  | { attribute: string; op: 'eq'; value: number | string }
+  | { attribute: string; op: 'prefix'; value: string }
+  | { attribute: string; op: 'in'; value: string[] };
+
 // API Query Parameters
 export interface CardSearchParams {
   game?: string;
   set?: string;
   rarity?: string;
+  type?: string;
+  attributes?: AttributeFilter[];
   minPrice?: number;
   maxPrice?: number;
   q?: string;
   page?: number;
   limit?: number;
-  sort?: 'price' | 'name' | 'date';
+  /** `nextCursor` of the previous page; takes precedence over `page` */
+  cursor?: string;
+  sort?: 'price' | 'name' | 'date' | 'relevance';
   order?: 'asc' | 'desc';
+  /** Also count the matches per facet value */
+  facets?: boolean;
 }
 
 export interface ListingSearchParams {
@@ -118,6 +220,14 @@ export interface ListingSearchParams {
   maxPrice?: number;
   page?: number;
   limit?: number;
+  /** `nextCursor` of the previous page; takes precedence over `page` */
+  cursor?: string;
+}
+
+export interface PriceHistoryParams {
+  condition?: Condition;
+  /** Only the last `days` days of the card's history */
+  days?: number;
 }
 
 // Extended types for API responses
@@ -136,12 +246,14 @@ export interface SetWithCards extends CardSet {
   game: Game;
   total: number;
   totalPages: number;
+  nextCursor?: string;
 }
 
 export interface SellerWithListings extends Seller {
   listings: Listing[];
   total: number;
   totalPages: number;
+  nextCursor?: string;
 }
 
 export interface ListingWithDetails extends Listing {
@@ -0,0 +1,214 @@
+/**
+ * Write-Ahead Log and Snapshots
+ *
+ * JsonDatabase appends every write to `wal.jsonl`, one JSON entry per line,
+ * before acknowledging it, and replays the log on top of the base collections
+ * at startup. Compaction writes the current listings and orders to a new
+ * `snapshot-<seq>/` directory and rotates the log, so startup only replays
+ * entries newer than the latest snapshot.
+ *
+ * Entries record resulting state rather than deltas (e.g. the remaining
+ * quantity after a checkout), so replaying one that a snapshot already
+ * reflects is harmless. That makes a crash at any point during compaction safe.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { Listing, ListingUpdate, Order } from './types';
+
+export type WalOperation =
+  | { op: 'createListing'; listing: Listing }
+  | { op: 'updateListing'; id: string; update: ListingUpdate }
+  | { op: 'deleteListing'; id: string }
+  | { op: 'checkout'; order: Order; remaining: { listingId: string; quantity: number }[] };
+
+export type WalEntry = WalOperation & { seq: number; ts: string };
+
+export interface SnapshotMeta {
+  seq: number;
+  scale: number;
+  createdAt: string;
+  listingCount: number;
+  orderCount: number;
+}
+
+export interface SnapshotState {
+  listings: Listing[];
+  orders: Order[];
+  scale: number;
+}
+
+const LOG_FILE = 'wal.jsonl';
+const ROTATED_LOG = /^wal-(\d+)\.jsonl$/;
+const SNAPSHOT_DIR = /^snapshot-(\d+)$/;
+
+function seqOf(name: string, pattern: RegExp): number | undefined {
+  const match = pattern.exec(name);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export class WriteAheadLog {
+  private seq = 0;
+  private snapshotSeq = 0;
+  private handle?: fs.promises.FileHandle;
+  // Appends and rotations run strictly in the order they were issued
+  private queue: Promise<void> = Promise.resolve();
+  private compacting = false;
+
+  constructor(
+    private dir: string,
+    private sync: boolean
+  ) {}
+
+  /**
+   * Directory of the newest complete snapshot, if any. Incomplete snapshots
+   * are written under a `.tmp` suffix and never match.
+   */
+  async latestSnapshot(): Promise<{ dir: string; meta: SnapshotMeta } | undefined> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const names = await fs.promises.readdir(this.dir);
+    const latest = names
+      .filter((name) => seqOf(name, SNAPSHOT_DIR) !== undefined)
+      .sort((a, b) => seqOf(b, SNAPSHOT_DIR)! - seqOf(a, SNAPSHOT_DIR)!)[0];
+    if (!latest) return undefined;
+
+    const dir = path.join(this.dir, latest);
+    const meta = JSON.parse(
+      await fs.promises.readFile(path.join(dir, 'meta.json'), 'utf-8')
+    ) as SnapshotMeta;
+    this.seq = Math.max(this.seq, meta.seq);
+    this.snapshotSeq = meta.seq;
+    return { dir, meta };
+  }
+
+  /**
+   * Stream rotated logs left by an interrupted compaction, then the current
+   * log, calling `apply` for every entry newer than `afterSeq`.
+   */
+  async replay(afterSeq: number, apply: (entry: WalEntry) => void): Promise<number> {
+    const names = await fs.promises.readdir(this.dir);
+    const files = names
+      .filter((name) => seqOf(name, ROTATED_LOG) !== undefined)
+      .sort((a, b) => seqOf(a, ROTATED_LOG)! - seqOf(b, ROTATED_LOG)!);
+    if (names.includes(LOG_FILE)) files.push(LOG_FILE);
+
+    let applied = 0;
+    for (const file of files) {
+      const lines = readline.createInterface({
+        input: fs.createReadStream(path.join(this.dir, file), 'utf-8'),
+        crlfDelay: Infinity,
+      });
+      let lineNumber = 0;
+      for await (const line of lines) {
+        lineNumber++;
+        if (!line.trim()) continue;
+        let entry: WalEntry;
+        try {
+          entry = JSON.parse(line) as WalEntry;
+        } catch {
+          // A torn final line from a crash mid-append was never acknowledged
+          console.warn(`Skipping unreadable WAL entry at ${file}:${lineNumber}`);
+          continue;
+        }
+        if (entry.seq > this.seq) this.seq = entry.seq;
+        if (entry.seq <= afterSeq) continue;
+        apply(entry);
+        applied++;
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Assigns the entry its sequence number and serialises it synchronously, so
+   * the caller's in-memory change and the log position cannot drift apart.
+   */
+  append(operation: WalOperation): Promise<void> {
+    const entry = { ...operation, seq: ++this.seq, ts: new Date().toISOString() };
+    const line = JSON.stringify(entry) + '\n';
+    const write = this.queue.then(async () => {
+      if (!this.handle) this.handle = await this.openLog();
+      await this.handle.write(line);
+      if (this.sync) await this.handle.datasync();
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /** Resolves once every entry appended so far has been written */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  // Terminate a torn final line left by a crash so the next entry starts on
+  // its own line
+  private async openLog(): Promise<fs.promises.FileHandle> {
+    const handle = await fs.promises.open(path.join(this.dir, LOG_FILE), 'a+');
+    const { size } = await handle.stat();
+    if (size > 0) {
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, size - 1);
+      if (last[0] !== 0x0a) await handle.write('\n');
+    }
+    return handle;
+  }
+
+  /**
+   * Write a snapshot of `capture()` and drop the log entries it covers.
+   * `capture` is called and serialised synchronously, in the same tick the
+   * log is rotated, so the snapshot holds exactly the entries up to `seq`.
+   */
+  async compact(capture: () => SnapshotState): Promise<SnapshotMeta | undefined> {
+    if (this.compacting || this.seq === this.snapshotSeq) return undefined;
+    this.compacting = true;
+
+    try {
+      const seq = this.seq;
+      const state = capture();
+      const listingsJson = JSON.stringify(state.listings);
+      const ordersJson = JSON.stringify(state.orders);
+      const meta: SnapshotMeta = {
+        seq,
+        scale: state.scale,
+        createdAt: new Date().toISOString(),
+        listingCount: state.listings.length,
+        orderCount: state.orders.length,
+      };
+
+      const rotatedLog = path.join(this.dir, `wal-${seq}.jsonl`);
+      const rotate = this.queue.then(async () => {
+        await this.handle?.close();
+        this.handle = undefined;
+        await fs.promises.rename(path.join(this.dir, LOG_FILE), rotatedLog).catch((err) => {
+          if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+        });
+      });
+      this.queue = rotate.catch(() => undefined);
+      await rotate;
+
+      const snapshotDir = path.join(this.dir, `snapshot-${seq}`);
+      const tmpDir = `${snapshotDir}.tmp`;
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+      await fs.promises.mkdir(tmpDir, { recursive: true });
+      await fs.promises.writeFile(path.join(tmpDir, 'listings.json'), listingsJson);
+      await fs.promises.writeFile(path.join(tmpDir, 'orders.json'), ordersJson);
+      await fs.promises.writeFile(path.join(tmpDir, 'meta.json'), JSON.stringify(meta, null, 2));
+      await fs.promises.rename(tmpDir, snapshotDir);
+      this.snapshotSeq = seq;
+
+      // Everything older is now covered by the new snapshot
+      for (const name of await fs.promises.readdir(this.dir)) {
+        const logSeq = seqOf(name, ROTATED_LOG);
+        const oldSnapshotSeq = seqOf(name, SNAPSHOT_DIR);
+        if ((logSeq !== undefined && logSeq <= seq) || (oldSnapshotSeq !== undefined && oldSnapshotSeq < seq)) {
+          await fs.promises.rm(path.join(this.dir, name), { recursive: true, force: true });
+        }
+      }
+
+      return meta;
+    } finally {
+      this.compacting = false;
+    }
+  }
+}
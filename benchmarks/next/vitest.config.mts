@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Stores under test read their data from temp dirs (see src/lib/test-dataset.ts)
+    // and must not log to, watch or sleep on the repo's ./data
+    env: {
+      DB_WAL: 'off',
+      DB_WATCH: 'off',
+      DB_DELAY_ENABLED: 'false',
+    },
+    testTimeout: 60000,
+  },
+});